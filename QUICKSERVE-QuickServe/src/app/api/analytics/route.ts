@@ -1,6 +1,7 @@
 import { prisma } from "@/lib/db";
 import { requireAuth, apiError, apiSuccess } from "@/lib/tenant";
 import { NextRequest } from "next/server";
+import { format } from "date-fns";
 
 // GET /api/analytics — Dashboard KPIs
 export async function GET(req: NextRequest) {
@@ -35,8 +36,18 @@ export async function GET(req: NextRequest) {
             select: { total: true, completedAt: true },
         });
 
-        const totalRevenue = completedOrders.reduce((sum, o) => sum + Number(o.total), 0);
-        const avgOrderValue = completedOrders.length > 0 ? Math.round(totalRevenue / completedOrders.length) : 0;
+        // Refunds are negative payment rows; net them out of revenue for the
+        // period in which they were issued.
+        const refunds = await prisma.payment.aggregate({
+            where: { tenantId, status: "REFUNDED", paidAt: { gte: threshold } },
+            _sum: { amount: true },
+            _count: true,
+        });
+        const refundTotal = Math.abs(Number(refunds._sum.amount || 0));
+
+        const grossRevenue = completedOrders.reduce((sum, o) => sum + Number(o.total), 0);
+        const totalRevenue = grossRevenue - refundTotal;
+        const avgOrderValue = completedOrders.length > 0 ? Math.round(grossRevenue / completedOrders.length) : 0;
 
         // Cancelled in timeframe
         const cancelledCount = await prisma.order.count({
@@ -83,9 +94,67 @@ export async function GET(req: NextRequest) {
 
         const peakHourEntry = Object.entries(peakHour).sort((a, b) => b[1] - a[1])[0];
 
+        // Discounts on orders completed in the period, split by kind so comps
+        // (giveaways) are visible separately from promotions.
+        const discountGroups = await prisma.orderDiscount.groupBy({
+            by: ["kind"],
+            where: {
+                tenantId,
+                order: { status: "PAID", completedAt: { gte: threshold } },
+            },
+            _sum: { amount: true },
+            _count: true,
+        });
+        const discountsByKind = discountGroups.map((d) => ({
+            kind: d.kind,
+            total: Number(d._sum.amount || 0),
+            count: d._count,
+        }));
+        const discountTotal = discountsByKind.reduce((sum, d) => sum + d.total, 0);
+
+        // Tips are tracked on payments, outside order totals, so they never
+        // inflate totalRevenue.
+        const tippedPayments = await prisma.payment.findMany({
+            where: {
+                tenantId,
+                status: "PAID",
+                tipAmount: { gt: 0 },
+                paidAt: { gte: threshold },
+            },
+            select: { tipAmount: true, paidAt: true, receivedById: true },
+        });
+
+        const tipsByStaffId = new Map<string, { total: number; count: number }>();
+        const tipsByDay = new Map<string, number>();
+        let totalTips = 0;
+        for (const p of tippedPayments) {
+            const tip = Number(p.tipAmount);
+            totalTips += tip;
+            const staffKey = p.receivedById || "UNKNOWN";
+            const entry = tipsByStaffId.get(staffKey) || { total: 0, count: 0 };
+            entry.total += tip;
+            entry.count += 1;
+            tipsByStaffId.set(staffKey, entry);
+            if (p.paidAt) {
+                const day = format(new Date(p.paidAt), "yyyy-MM-dd");
+                tipsByDay.set(day, (tipsByDay.get(day) || 0) + tip);
+            }
+        }
+
+        const tipStaff = await prisma.user.findMany({
+            where: { tenantId, id: { in: Array.from(tipsByStaffId.keys()) } },
+            select: { id: true, name: true, email: true },
+        });
+        const staffNameById = new Map(tipStaff.map((u) => [u.id, u.name || u.email]));
+
         return apiSuccess({
             activeOrders,
             totalRevenue,
+            grossRevenue,
+            refundTotal,
+            refundCount: refunds._count,
+            discountTotal,
+            discountsByKind,
             avgOrderValue,
             pendingRevenue,
             completedCount: completedOrders.length,
@@ -99,6 +168,20 @@ export async function GET(req: NextRequest) {
                 return acc;
             }, {} as Record<string, number>),
             peakHour: peakHourEntry ? `${peakHourEntry[0]}:00` : "N/A",
+            tips: {
+                total: totalTips,
+                byStaff: Array.from(tipsByStaffId.entries())
+                    .map(([userId, t]) => ({
+                        userId: userId === "UNKNOWN" ? null : userId,
+                        name: staffNameById.get(userId) || "Unassigned",
+                        total: t.total,
+                        count: t.count,
+                    }))
+                    .sort((a, b) => b.total - a.total),
+                byDay: Array.from(tipsByDay.entries())
+                    .map(([date, total]) => ({ date, total }))
+                    .sort((a, b) => a.date.localeCompare(b.date)),
+            },
         });
     } catch (error: any) {
         if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
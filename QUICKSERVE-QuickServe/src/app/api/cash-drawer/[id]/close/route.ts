@@ -0,0 +1,67 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { buildZReport } from "@/lib/cashDrawer";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+const closeDrawerSchema = z.object({
+  countedCash: z.number().min(0).max(10000000),
+  note: z.string().trim().max(200).optional(),
+});
+
+// POST /api/cash-drawer/[id]/close — Close with counted cash and return the Z report
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER", "STAFF");
+    const { id } = await params;
+    const body = await req.json();
+    const data = closeDrawerSchema.parse(body);
+
+    const report = await prisma.$transaction(async (tx) => {
+      const closedAt = new Date();
+      // Conditional update so two closes can't both win.
+      const { count } = await tx.cashDrawerSession.updateMany({
+        where: { id, tenantId: session.tenantId, status: "OPEN" },
+        data: {
+          status: "CLOSED",
+          closedAt,
+          closedById: session.userId,
+          countedCash: data.countedCash,
+          closingNote: data.note,
+        },
+      });
+      if (count === 0) {
+        const exists = await tx.cashDrawerSession.findFirst({
+          where: { id, tenantId: session.tenantId },
+          select: { id: true },
+        });
+        throw new Error(exists ? "DRAWER_CLOSED" : "DRAWER_NOT_FOUND");
+      }
+
+      const summary = await buildZReport(tx, session.tenantId, id);
+      await tx.cashDrawerSession.update({
+        where: { id },
+        data: {
+          expectedCash: summary!.cash.expected,
+          variance: summary!.cash.variance,
+        },
+      });
+      return summary;
+    });
+
+    return apiSuccess(report);
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    if (error.message === "DRAWER_NOT_FOUND")
+      return apiError("Cash drawer not found", 404);
+    if (error.message === "DRAWER_CLOSED")
+      return apiError("Cash drawer is already closed", 409);
+    if (error.name === "ZodError") return apiError("Validation failed", 400);
+    console.error("Cash drawer close error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
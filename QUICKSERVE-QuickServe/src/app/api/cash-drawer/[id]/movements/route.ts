@@ -0,0 +1,50 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+const movementSchema = z.object({
+  type: z.enum(["PAY_IN", "PAY_OUT"]),
+  amount: z.number().positive().max(10000000),
+  reason: z.string().trim().min(3).max(200),
+});
+
+// POST /api/cash-drawer/[id]/movements — Record a pay-in or pay-out
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER", "STAFF");
+    const { id } = await params;
+    const body = await req.json();
+    const data = movementSchema.parse(body);
+
+    const drawer = await prisma.cashDrawerSession.findFirst({
+      where: { id, tenantId: session.tenantId },
+    });
+    if (!drawer) return apiError("Cash drawer not found", 404);
+    if (drawer.status !== "OPEN") {
+      return apiError("Cash drawer is already closed", 409);
+    }
+
+    const movement = await prisma.cashDrawerMovement.create({
+      data: {
+        tenantId: session.tenantId,
+        sessionId: drawer.id,
+        type: data.type,
+        amount: data.amount,
+        reason: data.reason,
+        userId: session.userId,
+      },
+    });
+
+    return apiSuccess(movement, 201);
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    if (error.name === "ZodError") return apiError("Validation failed", 400);
+    console.error("Cash drawer movement error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
@@ -0,0 +1,35 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { buildZReport } from "@/lib/cashDrawer";
+import { NextRequest } from "next/server";
+
+// GET /api/cash-drawer/[id]/report — Z report for a drawer session
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { id } = await params;
+
+    const report = await buildZReport(prisma, session.tenantId, id);
+    if (!report) return apiError("Cash drawer not found", 404);
+
+    const staffIds = [
+      report.drawer.openedById,
+      report.drawer.closedById,
+      ...report.movements.map((m) => m.userId),
+    ].filter(Boolean) as string[];
+    const users = await prisma.user.findMany({
+      where: { id: { in: Array.from(new Set(staffIds)) } },
+      select: { id: true, name: true },
+    });
+    const names = Object.fromEntries(users.map((u) => [u.id, u.name]));
+
+    return apiSuccess({ ...report, staff: names });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    return apiError("Internal server error", 500);
+  }
+}
@@ -0,0 +1,70 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { buildZReport, findOpenDrawer } from "@/lib/cashDrawer";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+const openDrawerSchema = z.object({
+  openingFloat: z.number().min(0).max(10000000),
+  note: z.string().trim().max(200).optional(),
+});
+
+// GET /api/cash-drawer — Current drawer with running totals, plus recent closes
+export async function GET() {
+  try {
+    const session = await requireRole("OWNER", "MANAGER", "STAFF");
+
+    const [open, recent] = await Promise.all([
+      findOpenDrawer(prisma, session.tenantId),
+      prisma.cashDrawerSession.findMany({
+        where: { tenantId: session.tenantId, status: "CLOSED" },
+        orderBy: { closedAt: "desc" },
+        take: 10,
+      }),
+    ]);
+
+    const current = open
+      ? await buildZReport(prisma, session.tenantId, open.id)
+      : null;
+
+    return apiSuccess({ current, recent });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    return apiError("Internal server error", 500);
+  }
+}
+
+// POST /api/cash-drawer — Open a drawer with a starting float
+export async function POST(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER", "STAFF");
+    const body = await req.json();
+    const data = openDrawerSchema.parse(body);
+
+    const drawer = await prisma.$transaction(async (tx) => {
+      if (await findOpenDrawer(tx, session.tenantId)) {
+        throw new Error("DRAWER_ALREADY_OPEN");
+      }
+      return tx.cashDrawerSession.create({
+        data: {
+          tenantId: session.tenantId,
+          status: "OPEN",
+          openingFloat: data.openingFloat,
+          openingNote: data.note,
+          openedById: session.userId,
+        },
+      });
+    });
+
+    return apiSuccess(drawer, 201);
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    if (error.message === "DRAWER_ALREADY_OPEN")
+      return apiError("A cash drawer is already open", 409);
+    if (error.name === "ZodError") return apiError("Validation failed", 400);
+    console.error("Cash drawer open error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
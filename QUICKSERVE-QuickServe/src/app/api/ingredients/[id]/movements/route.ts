@@ -0,0 +1,128 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { recordIngredientMovement } from "@/lib/ingredients";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// DELIVERY adds stock, ADJUSTMENT corrects it by a signed amount (waste,
+// spillage, staff meals) and COUNT records what is physically on the shelf.
+const movementSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("DELIVERY"),
+    quantity: z.number().positive().max(1000000),
+    costPerUnit: z.number().min(0).max(1000000).optional(),
+    reason: z.string().trim().max(200).optional(),
+  }),
+  z.object({
+    type: z.literal("ADJUSTMENT"),
+    quantity: z
+      .number()
+      .min(-1000000)
+      .max(1000000)
+      .refine((q) => q !== 0, "Quantity cannot be zero"),
+    reason: z.string().trim().min(3).max(200),
+  }),
+  z.object({
+    type: z.literal("COUNT"),
+    counted: z.number().min(0).max(1000000),
+    reason: z.string().trim().max(200).optional(),
+  }),
+]);
+
+function handleError(error: any, label: string) {
+  if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+  if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+  if (error.message === "COUNT_BELOW_STOCK")
+    return apiError(
+      "A count below the recorded stock needs a manager to confirm it",
+      403,
+    );
+  if (error.name === "ZodError") return apiError("Validation failed", 400);
+  console.error(`${label} error:`, error);
+  return apiError("Internal server error", 500);
+}
+
+// GET /api/ingredients/{id}/movements — Stock ledger, newest first
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { id } = await params;
+    const page = parseInt(req.nextUrl.searchParams.get("page") || "1");
+    const limit = parseInt(req.nextUrl.searchParams.get("limit") || "50");
+
+    const ingredient = await prisma.ingredient.findFirst({
+      where: { id, tenantId: session.tenantId },
+    });
+    if (!ingredient) return apiError("Ingredient not found", 404);
+
+    const [movements, total] = await Promise.all([
+      prisma.ingredientMovement.findMany({
+        where: { ingredientId: id },
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.ingredientMovement.count({ where: { ingredientId: id } }),
+    ]);
+
+    return apiSuccess({ ingredient, movements, total, page, limit });
+  } catch (error: any) {
+    return handleError(error, "Ingredient ledger");
+  }
+}
+
+// POST /api/ingredients/{id}/movements — Record a delivery, adjustment or
+// stock count
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER", "STAFF");
+    const { id } = await params;
+    const data = movementSchema.parse(await req.json());
+    // Staff can receive deliveries and count shelves; anything that makes
+    // stock disappear, an adjustment or a count below the ledger, is for
+    // managers.
+    const isManager = ["OWNER", "MANAGER"].includes(session.role);
+    if (data.type === "ADJUSTMENT" && !isManager) {
+      throw new Error("FORBIDDEN");
+    }
+
+    const ingredient = await prisma.ingredient.findFirst({
+      where: { id, tenantId: session.tenantId, archivedAt: null },
+    });
+    if (!ingredient) return apiError("Ingredient not found", 404);
+
+    const movement = await prisma.$transaction(async (tx) => {
+      if (data.type === "DELIVERY" && data.costPerUnit !== undefined) {
+        await tx.ingredient.update({
+          where: { id },
+          data: { costPerUnit: data.costPerUnit },
+        });
+      }
+      // A count books the difference from what the ledger expected; read it
+      // inside the transaction so a sale landing mid-count is not lost.
+      const quantity =
+        data.type === "COUNT"
+          ? data.counted -
+            (await tx.ingredient.findUniqueOrThrow({ where: { id } }))
+              .stockOnHand
+          : data.quantity;
+      if (data.type === "COUNT" && quantity < 0 && !isManager) {
+        throw new Error("COUNT_BELOW_STOCK");
+      }
+      return recordIngredientMovement(tx, {
+        tenantId: session.tenantId,
+        ingredientId: id,
+        type: data.type,
+        quantity,
+        reason: data.reason,
+        userId: session.userId,
+      });
+    });
+
+    return apiSuccess(movement, 201);
+  } catch (error: any) {
+    return handleError(error, "Ingredient movement");
+  }
+}
@@ -0,0 +1,75 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { ingredientSchema } from "@/lib/ingredients";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Stock is not editable here; it only moves through the ledger.
+const updateIngredientSchema = ingredientSchema.partial().extend({
+  archived: z.literal(false).optional(),
+});
+
+function handleError(error: any, label: string) {
+  if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+  if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+  if (error.code === "P2002")
+    return apiError("An ingredient with that name already exists", 409);
+  if (error.name === "ZodError") return apiError("Validation failed", 400);
+  console.error(`${label} error:`, error);
+  return apiError("Internal server error", 500);
+}
+
+// PATCH /api/ingredients/{id} — Rename, change reorder settings or restore
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { id } = await params;
+    const { archived, ...data } = updateIngredientSchema.parse(
+      await req.json(),
+    );
+
+    const existing = await prisma.ingredient.findFirst({
+      where: { id, tenantId: session.tenantId },
+    });
+    if (!existing) return apiError("Ingredient not found", 404);
+
+    const ingredient = await prisma.ingredient.update({
+      where: { id },
+      data: { ...data, ...(archived === false ? { archivedAt: null } : {}) },
+    });
+    return apiSuccess(ingredient);
+  } catch (error: any) {
+    return handleError(error, "Ingredient update");
+  }
+}
+
+// DELETE /api/ingredients/{id} — Archive an ingredient
+// The ledger keeps pointing at it, so it is never removed outright.
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { id } = await params;
+
+    const existing = await prisma.ingredient.findFirst({
+      where: { id, tenantId: session.tenantId },
+      include: { _count: { select: { recipeLines: true } } },
+    });
+    if (!existing) return apiError("Ingredient not found", 404);
+    if (existing._count.recipeLines > 0) {
+      return apiError(
+        `${existing.name} is still used in ${existing._count.recipeLines} recipe line(s); remove it from those recipes first`,
+        409,
+      );
+    }
+
+    const ingredient = await prisma.ingredient.update({
+      where: { id },
+      data: { archivedAt: new Date() },
+    });
+    return apiSuccess(ingredient);
+  } catch (error: any) {
+    return handleError(error, "Ingredient archive");
+  }
+}
@@ -0,0 +1,83 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { isBelowReorderPoint } from "@/lib/ingredients";
+
+const USAGE_WINDOW_DAYS = 14;
+
+// GET /api/ingredients/reorder — Ingredients at or below their reorder point
+export async function GET() {
+  try {
+    const session = await requireRole("OWNER", "MANAGER", "STAFF");
+
+    const ingredients = await prisma.ingredient.findMany({
+      where: {
+        tenantId: session.tenantId,
+        archivedAt: null,
+        reorderPoint: { not: null },
+      },
+      orderBy: { name: "asc" },
+    });
+    const due = ingredients.filter(isBelowReorderPoint);
+
+    // Recent burn rate, so the list can say how long what's left will last.
+    const since = new Date(
+      Date.now() - USAGE_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+    );
+    const usage = await prisma.ingredientMovement.groupBy({
+      by: ["ingredientId"],
+      where: {
+        tenantId: session.tenantId,
+        ingredientId: { in: due.map((i) => i.id) },
+        type: { in: ["SALE", "RETURN"] },
+        createdAt: { gte: since },
+      },
+      _sum: { quantity: true },
+    });
+    const dailyUsage = new Map(
+      usage.map((u) => [
+        u.ingredientId,
+        Math.max(0, -(u._sum.quantity || 0)) / USAGE_WINDOW_DAYS,
+      ]),
+    );
+
+    const items = due.map((ingredient) => {
+      const perDay = dailyUsage.get(ingredient.id) || 0;
+      // Without a set reorder quantity, order back up to twice the reorder
+      // point.
+      const suggested =
+        ingredient.reorderQuantity ??
+        Math.max(ingredient.reorderPoint! * 2 - ingredient.stockOnHand, 0);
+      return {
+        id: ingredient.id,
+        name: ingredient.name,
+        unit: ingredient.unit,
+        stockOnHand: ingredient.stockOnHand,
+        reorderPoint: ingredient.reorderPoint,
+        suggestedQuantity: Math.ceil(suggested * 100) / 100,
+        dailyUsage: Math.round(perDay * 100) / 100,
+        daysLeft:
+          perDay > 0
+            ? Math.max(0, Math.floor(ingredient.stockOnHand / perDay))
+            : null,
+        estimatedCost:
+          ingredient.costPerUnit === null
+            ? null
+            : Math.round(suggested * Number(ingredient.costPerUnit) * 100) /
+              100,
+      };
+    });
+
+    // Whatever runs out soonest comes first.
+    items.sort(
+      (a, b) =>
+        (a.daysLeft ?? Infinity) - (b.daysLeft ?? Infinity) ||
+        a.name.localeCompare(b.name),
+    );
+    return apiSuccess({ items });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    console.error("Reorder list error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
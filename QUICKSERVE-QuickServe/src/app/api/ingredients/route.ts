@@ -0,0 +1,80 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import {
+  ingredientSchema,
+  isBelowReorderPoint,
+  recordIngredientMovement,
+} from "@/lib/ingredients";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+const createIngredientSchema = ingredientSchema.extend({
+  openingStock: z.number().min(0).max(1000000).optional(),
+});
+
+// GET /api/ingredients — Ingredients with stock on hand
+export async function GET(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER", "STAFF");
+    const includeArchived =
+      req.nextUrl.searchParams.get("includeArchived") === "true";
+
+    const ingredients = await prisma.ingredient.findMany({
+      where: {
+        tenantId: session.tenantId,
+        ...(includeArchived ? {} : { archivedAt: null }),
+      },
+      orderBy: { name: "asc" },
+      include: { _count: { select: { recipeLines: true } } },
+    });
+
+    return apiSuccess({
+      ingredients: ingredients.map(({ _count, ...ingredient }) => ({
+        ...ingredient,
+        recipeCount: _count.recipeLines,
+        belowReorderPoint: isBelowReorderPoint(ingredient),
+      })),
+    });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    console.error("Ingredient list error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
+
+// POST /api/ingredients — Add an ingredient
+export async function POST(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { openingStock, ...data } = createIngredientSchema.parse(
+      await req.json(),
+    );
+
+    const ingredient = await prisma.$transaction(async (tx) => {
+      const created = await tx.ingredient.create({
+        data: { ...data, tenantId: session.tenantId, stockOnHand: 0 },
+      });
+      if (!openingStock) return created;
+      await recordIngredientMovement(tx, {
+        tenantId: session.tenantId,
+        ingredientId: created.id,
+        type: "ADJUSTMENT",
+        quantity: openingStock,
+        reason: "Opening stock",
+        userId: session.userId,
+      });
+      return tx.ingredient.findUniqueOrThrow({ where: { id: created.id } });
+    });
+
+    return apiSuccess(ingredient, 201);
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    if (error.code === "P2002")
+      return apiError("An ingredient with that name already exists", 409);
+    if (error.name === "ZodError") return apiError("Validation failed", 400);
+    console.error("Ingredient create error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
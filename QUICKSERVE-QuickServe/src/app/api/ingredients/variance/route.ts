@@ -0,0 +1,40 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { buildVarianceReport } from "@/lib/ingredients";
+import { NextRequest } from "next/server";
+
+const DEFAULT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+function parseDate(value: string | null) {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+// GET /api/ingredients/variance — Usage, deliveries and count variance per
+// ingredient (?from=&to=, defaults to the last 7 days)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const from = parseDate(req.nextUrl.searchParams.get("from"));
+    const to = parseDate(req.nextUrl.searchParams.get("to"));
+    if (from === undefined || to === undefined) {
+      return apiError("from and to must be dates", 400);
+    }
+
+    const end = to || new Date();
+    const start = from || new Date(end.getTime() - DEFAULT_WINDOW_MS);
+    if (start > end) return apiError("from must be before to", 400);
+
+    const report = await buildVarianceReport(prisma, session.tenantId, {
+      from: start,
+      to: end,
+    });
+    return apiSuccess(report);
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    console.error("Variance report error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
@@ -0,0 +1,51 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import {
+  parseImportChanges,
+  rollbackImportBatch,
+} from "@/lib/menuImportHistory";
+import { announceMenuUpdated } from "@/lib/menu";
+import { NextRequest } from "next/server";
+
+// POST /api/menu-imports/{id}/rollback — Undo everything an import changed
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { id } = await params;
+
+    const { batch, skipped } = await prisma.$transaction((tx) =>
+      rollbackImportBatch(tx, session.tenantId, id, session.userId),
+    );
+
+    await announceMenuUpdated(session.tenantId, {
+      action: "IMPORT_ROLLED_BACK",
+      itemIds: parseImportChanges(batch.changes).flatMap((c) =>
+        "itemId" in c ? [c.itemId] : [],
+      ),
+    });
+    return apiSuccess({
+      id: batch.id,
+      status: batch.status,
+      rolledBackAt: batch.rolledBackAt,
+      // Rows edited by hand since the import keep those edits.
+      skipped,
+    });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    if (error.message === "IMPORT_NOT_FOUND")
+      return apiError("Import not found", 404);
+    if (error.message === "IMPORT_ALREADY_ROLLED_BACK")
+      return apiError("This import was already rolled back", 409);
+    if (error.message === "NEWER_IMPORT_OVERLAPS")
+      return apiError(
+        "A newer import changed the same items; roll that one back first",
+        409,
+      );
+    console.error("Menu import rollback error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
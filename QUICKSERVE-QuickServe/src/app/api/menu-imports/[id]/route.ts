@@ -0,0 +1,33 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { parseImportChanges } from "@/lib/menuImportHistory";
+import { NextRequest } from "next/server";
+
+// GET /api/menu-imports/{id} — One import with its rows and before/after values
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { id } = await params;
+
+    const batch = await prisma.importBatch.findFirst({
+      where: { id, tenantId: session.tenantId },
+    });
+    if (!batch) return apiError("Import not found", 404);
+
+    return apiSuccess({
+      ...batch,
+      files: JSON.parse(batch.files || "[]"),
+      items: JSON.parse(batch.items || "[]"),
+      summary: JSON.parse(batch.summary || "{}"),
+      changes: parseImportChanges(batch.changes),
+    });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    console.error("Menu import fetch error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
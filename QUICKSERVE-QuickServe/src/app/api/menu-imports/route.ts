@@ -0,0 +1,52 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { NextRequest } from "next/server";
+
+// GET /api/menu-imports — List past menu imports, newest first
+export async function GET(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const page = parseInt(req.nextUrl.searchParams.get("page") || "1");
+    const limit = Math.min(
+      parseInt(req.nextUrl.searchParams.get("limit") || "20"),
+      100,
+    );
+
+    const [batches, total] = await Promise.all([
+      prisma.importBatch.findMany({
+        where: { tenantId: session.tenantId },
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+        // Extracted rows and per-row changes are only loaded on the detail view.
+        select: {
+          id: true,
+          source: true,
+          status: true,
+          files: true,
+          summary: true,
+          createdAt: true,
+          createdById: true,
+          rolledBackAt: true,
+          rolledBackById: true,
+        },
+      }),
+      prisma.importBatch.count({ where: { tenantId: session.tenantId } }),
+    ]);
+
+    return apiSuccess({
+      imports: batches.map((b) => ({
+        ...b,
+        files: JSON.parse(b.files || "[]"),
+        summary: JSON.parse(b.summary || "{}"),
+      })),
+      total,
+      page,
+    });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    console.error("Menu import list error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
@@ -0,0 +1,111 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { applyMenuImport, planMenuImport } from "@/lib/menuImportPlan";
+import { recordImportBatch } from "@/lib/menuImportHistory";
+import { parseQueuedItem } from "@/lib/menuImportReview";
+import { announceMenuUpdated } from "@/lib/menu";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+// Corrections are optional; anything left out is approved as scanned.
+const decisionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("APPROVE"),
+    name: z.string().trim().min(1).max(120).optional(),
+    category: z.string().trim().min(1).max(80).optional(),
+    price: z.number().nonnegative().max(1_000_000).optional(),
+    description: z.string().trim().max(500).nullable().optional(),
+  }),
+  z.object({ action: z.literal("REJECT") }),
+]);
+
+// POST /api/menu-review/{id} — Approve (optionally corrected) or reject a
+// flagged scanned item
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { id } = await params;
+    const data = decisionSchema.parse(await req.json());
+
+    const result = await prisma.$transaction(async (tx) => {
+      const pending = await tx.menuReviewItem.findFirst({
+        where: { id, tenantId: session.tenantId },
+      });
+      if (!pending) throw new Error("REVIEW_NOT_FOUND");
+
+      // Claiming the row first stops two managers deciding it twice.
+      const { count } = await tx.menuReviewItem.updateMany({
+        where: { id, status: "PENDING" },
+        data: {
+          status: data.action === "APPROVE" ? "APPROVED" : "REJECTED",
+          reviewedById: session.userId,
+          reviewedAt: new Date(),
+        },
+      });
+      if (count === 0) throw new Error("REVIEW_ALREADY_DECIDED");
+      if (data.action === "REJECT") return { importId: null, itemIds: [] };
+
+      const queued = parseQueuedItem(pending);
+      const item = {
+        ...queued,
+        name: data.name ?? queued.name,
+        category: data.category ?? queued.category,
+        price: data.price ?? queued.price,
+        description:
+          (data.description !== undefined
+            ? data.description
+            : queued.description) || undefined,
+      };
+      const plan = await planMenuImport(tx, session.tenantId, [item]);
+      const applied = await applyMenuImport(
+        tx,
+        session.tenantId,
+        plan,
+        new Set(plan.rows.map((row) => row.key)),
+      );
+      const batch = await recordImportBatch(tx, {
+        tenantId: session.tenantId,
+        createdById: session.userId,
+        source: "REVIEW",
+        files: [],
+        items: [item],
+        changes: applied.changes,
+        summary: applied.summary,
+      });
+      const itemIds = applied.applied.map((row) => row.itemId!);
+      await tx.menuReviewItem.update({
+        where: { id },
+        data: {
+          importBatchId: batch.id,
+          menuItemId: itemIds[0] || pending.menuItemId,
+          name: item.name,
+          category: item.category,
+          price: item.price,
+          description: item.description ?? null,
+        },
+      });
+      return { importId: batch.id, itemIds };
+    });
+
+    if (result.itemIds.length > 0) {
+      await announceMenuUpdated(session.tenantId, {
+        action: "MENU_REVIEW_APPROVED",
+        itemIds: result.itemIds,
+      });
+    }
+    return apiSuccess({ id, action: data.action, importId: result.importId });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    if (error.message === "REVIEW_NOT_FOUND")
+      return apiError("Review item not found", 404);
+    if (error.message === "REVIEW_ALREADY_DECIDED")
+      return apiError("This item was already reviewed", 409);
+    if (error.name === "ZodError") return apiError("Validation failed", 400);
+    console.error("Menu review decision error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
@@ -0,0 +1,34 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { parseQueuedItem } from "@/lib/menuImportReview";
+import { NextRequest } from "next/server";
+
+const STATUSES = new Set(["PENDING", "APPROVED", "REJECTED"]);
+
+// GET /api/menu-review — Scanned items waiting for a manager (?status=)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const status = req.nextUrl.searchParams.get("status") || "PENDING";
+    if (!STATUSES.has(status)) return apiError("Invalid status", 400);
+
+    const items = await prisma.menuReviewItem.findMany({
+      where: { tenantId: session.tenantId, status },
+      orderBy: [{ confidence: "asc" }, { createdAt: "asc" }],
+      take: 200,
+    });
+    return apiSuccess({
+      items: items.map((item) => ({
+        ...item,
+        price: Number(item.price),
+        item: parseQueuedItem(item),
+        flags: JSON.parse(item.flags || "[]"),
+      })),
+    });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    console.error("Menu review list error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
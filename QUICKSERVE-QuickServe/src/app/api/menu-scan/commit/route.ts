@@ -0,0 +1,117 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { apiError, apiSuccess, requireRole } from "@/lib/tenant";
+import { applyMenuImport, planMenuImport } from "@/lib/menuImportPlan";
+import { recordImportBatch } from "@/lib/menuImportHistory";
+import {
+  queueRowsForReview,
+  reviewMenuImportPlan,
+} from "@/lib/menuImportReview";
+import { announceMenuUpdated } from "@/lib/menu";
+import { z } from "zod";
+
+const commitSchema = z.object({
+  token: z.string().min(1),
+  // Row keys from the preview; anything not listed is left untouched.
+  approve: z.array(z.string().min(1)).min(1).max(2000),
+});
+
+// POST /api/menu-scan/commit — Apply the approved rows of a dry-run preview
+export async function POST(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const data = commitSchema.parse(await req.json());
+
+    const preview = await prisma.menuImportPreview.findFirst({
+      where: { id: data.token, tenantId: session.tenantId },
+    });
+    if (!preview) return apiError("Import preview not found", 404);
+    if (preview.consumedAt) {
+      return apiError("This import preview was already applied", 409);
+    }
+    if (preview.expiresAt < new Date()) {
+      return apiError("Import preview expired, please upload again", 410);
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Claiming the token first stops a double-submit applying it twice.
+      const { count } = await tx.menuImportPreview.updateMany({
+        where: { id: preview.id, consumedAt: null },
+        data: { consumedAt: new Date() },
+      });
+      if (count === 0) throw new Error("PREVIEW_CONSUMED");
+
+      // Re-planned against the live menu so edits made since the preview
+      // are compared, not overwritten with stale "before" values.
+      const stored: any[] = JSON.parse(preview.items);
+      const items = stored.map(({ confidence, ...item }) => item);
+      let plan = await planMenuImport(tx, session.tenantId, items);
+      // Scanned rows are scored again: ticking a flagged row in the preview
+      // sends it to the review queue, it does not put it live.
+      const scanned = (preview.source || "SCAN") === "SCAN";
+      if (scanned) {
+        plan = await reviewMenuImportPlan(tx, session.tenantId, plan, stored);
+      }
+      const ticked = plan.rows.filter((row) => data.approve.includes(row.key));
+      const applied = await applyMenuImport(
+        tx,
+        session.tenantId,
+        plan,
+        new Set(
+          ticked
+            .filter((row) => !row.review?.needsReview)
+            .map((row) => row.key),
+        ),
+      );
+      if (scanned) {
+        await queueRowsForReview(tx, {
+          tenantId: session.tenantId,
+          rows: ticked,
+          items,
+        });
+      }
+      const batch = await recordImportBatch(tx, {
+        tenantId: session.tenantId,
+        createdById: session.userId,
+        source: preview.source || "SCAN",
+        files: JSON.parse(preview.files),
+        items,
+        changes: applied.changes,
+        summary: applied.summary,
+      });
+      return {
+        ...applied,
+        batchId: batch.id,
+        queued: ticked
+          .filter((row) => row.review?.needsReview)
+          .map((row) => row.key),
+      };
+    });
+
+    const handledKeys = new Set([
+      ...result.applied.map((row) => row.key),
+      ...result.queued,
+    ]);
+    await announceMenuUpdated(session.tenantId, {
+      action: "MENU_IMPORTED",
+      itemIds: result.applied.map((row) => row.itemId!),
+    });
+
+    return apiSuccess({
+      message: "Menu import completed",
+      importId: result.batchId,
+      summary: { ...result.summary, queuedForReview: result.queued.length },
+      applied: result.applied,
+      queuedForReview: result.queued,
+      notApplied: data.approve.filter((key) => !handledKeys.has(key)),
+    });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    if (error.message === "PREVIEW_CONSUMED")
+      return apiError("This import preview was already applied", 409);
+    if (error.name === "ZodError") return apiError("Validation failed", 400);
+    console.error("Menu scan commit error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
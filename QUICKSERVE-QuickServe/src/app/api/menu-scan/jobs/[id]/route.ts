@@ -0,0 +1,33 @@
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import {
+  canResumeMenuScanJob,
+  getMenuScanJob,
+  runMenuScanJob,
+} from "@/lib/menuScanJobs";
+import { NextRequest, after } from "next/server";
+
+// GET /api/menu-scan/jobs/{id} — Poll a scan job's progress and result
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { id } = await params;
+
+    const job = await getMenuScanJob(session.tenantId, id);
+    if (!job) return apiError("Scan job not found", 404);
+
+    // Polling doubles as the recovery path: a job whose worker died is
+    // picked up again by whoever checks on it next.
+    if (canResumeMenuScanJob(job)) after(() => runMenuScanJob(job.id));
+
+    const { lockedUntil: _lockedUntil, ...body } = job;
+    return apiSuccess(body);
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    console.error("Menu scan job fetch error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
@@ -0,0 +1,37 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { NextRequest } from "next/server";
+
+// GET /api/menu-scan/jobs — Recent scan jobs, newest first
+export async function GET(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const limit = Math.min(
+      parseInt(req.nextUrl.searchParams.get("limit") || "20"),
+      100,
+    );
+
+    const jobs = await prisma.menuScanJob.findMany({
+      where: { tenantId: session.tenantId },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+      select: {
+        id: true,
+        status: true,
+        dryRun: true,
+        totalFiles: true,
+        processedFiles: true,
+        failedFiles: true,
+        error: true,
+        createdAt: true,
+        completedAt: true,
+      },
+    });
+    return apiSuccess({ jobs });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    console.error("Menu scan job list error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
@@ -0,0 +1,78 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { announceMenuUpdated, menuCategorySchema } from "@/lib/menu";
+import { serializeMenuSchedule } from "@/lib/menuSchedule";
+import { serializeMenuTranslations } from "@/lib/menuTranslations";
+import { NextRequest } from "next/server";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function handleError(error: any, label: string) {
+  if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+  if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+  if (error.code === "P2002")
+    return apiError("A category with that name already exists", 409);
+  if (error.name === "ZodError") return apiError("Validation failed", 400);
+  console.error(`${label} error:`, error);
+  return apiError("Internal server error", 500);
+}
+
+// PATCH /api/menu/categories/{id} — Rename, move or restore a category
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { id } = await params;
+    const { schedule, translations, ...data } = menuCategorySchema
+      .partial()
+      .parse(await req.json());
+
+    const existing = await prisma.menuCategory.findFirst({
+      where: { id, tenantId: session.tenantId },
+    });
+    if (!existing) return apiError("Category not found", 404);
+
+    const category = await prisma.menuCategory.update({
+      where: { id },
+      data: {
+        ...data,
+        schedule: serializeMenuSchedule(schedule),
+        translations: serializeMenuTranslations(translations),
+      },
+    });
+
+    await announceMenuUpdated(session.tenantId, {
+      action: "CATEGORY_UPDATED",
+      categoryIds: [id],
+    });
+    return apiSuccess(category);
+  } catch (error: any) {
+    return handleError(error, "Menu category update");
+  }
+}
+
+// DELETE /api/menu/categories/{id} — Archive a category
+// Categories are never hard-deleted: past orders still point at their items.
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { id } = await params;
+
+    const existing = await prisma.menuCategory.findFirst({
+      where: { id, tenantId: session.tenantId },
+    });
+    if (!existing) return apiError("Category not found", 404);
+
+    const category = await prisma.menuCategory.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    await announceMenuUpdated(session.tenantId, {
+      action: "CATEGORY_ARCHIVED",
+      categoryIds: [id],
+    });
+    return apiSuccess(category);
+  } catch (error: any) {
+    return handleError(error, "Menu category archive");
+  }
+}
@@ -0,0 +1,82 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import {
+  announceMenuUpdated,
+  menuCategorySchema,
+  nextCategorySortOrder,
+  reorderSchema,
+} from "@/lib/menu";
+import { serializeMenuSchedule } from "@/lib/menuSchedule";
+import { serializeMenuTranslations } from "@/lib/menuTranslations";
+import { NextRequest } from "next/server";
+
+function handleError(error: any, label: string) {
+  if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+  if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+  if (error.code === "P2002")
+    return apiError("A category with that name already exists", 409);
+  if (error.name === "ZodError") return apiError("Validation failed", 400);
+  console.error(`${label} error:`, error);
+  return apiError("Internal server error", 500);
+}
+
+// POST /api/menu/categories — Create a menu category
+export async function POST(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const data = menuCategorySchema.parse(await req.json());
+
+    const category = await prisma.menuCategory.create({
+      data: {
+        tenantId: session.tenantId,
+        name: data.name,
+        sortOrder:
+          data.sortOrder ??
+          (await nextCategorySortOrder(prisma, session.tenantId)),
+        isActive: data.isActive ?? true,
+        schedule: serializeMenuSchedule(data.schedule),
+        translations: serializeMenuTranslations(data.translations ?? null),
+      },
+    });
+
+    await announceMenuUpdated(session.tenantId, {
+      action: "CATEGORY_CREATED",
+      categoryIds: [category.id],
+    });
+    return apiSuccess(category, 201);
+  } catch (error: any) {
+    return handleError(error, "Menu category create");
+  }
+}
+
+// PUT /api/menu/categories — Reorder categories; ids are listed in menu order
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { ids } = reorderSchema.parse(await req.json());
+
+    const owned = await prisma.menuCategory.count({
+      where: { id: { in: ids }, tenantId: session.tenantId },
+    });
+    if (owned !== new Set(ids).size) {
+      return apiError("Some categories not found", 400);
+    }
+
+    await prisma.$transaction(
+      ids.map((id, index) =>
+        prisma.menuCategory.update({
+          where: { id },
+          data: { sortOrder: index },
+        }),
+      ),
+    );
+
+    await announceMenuUpdated(session.tenantId, {
+      action: "CATEGORIES_REORDERED",
+      categoryIds: ids,
+    });
+    return apiSuccess({ reordered: ids.length });
+  } catch (error: any) {
+    return handleError(error, "Menu category reorder");
+  }
+}
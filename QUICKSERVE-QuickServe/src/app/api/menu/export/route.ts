@@ -0,0 +1,41 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError } from "@/lib/tenant";
+import { loadMenu } from "@/lib/menu";
+import { MENU_FILE_CONTENT_TYPES, serializeMenu } from "@/lib/menuFile";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET /api/menu/export?format=csv|xlsx|json — Download the menu in the same
+// layout /api/menu/import accepts
+export async function GET(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const format = req.nextUrl.searchParams.get("format") || "csv";
+    if (format !== "csv" && format !== "xlsx" && format !== "json") {
+      return apiError("Format must be csv, xlsx or json", 400);
+    }
+
+    // Unavailable items and switched-off categories are exported too, so a
+    // round trip keeps them; only archived items are left out.
+    const categories = (
+      await loadMenu(prisma, session.tenantId, { manage: true })
+    ).map((category) => ({
+      ...category,
+      items: category.items.filter((item) => !item.archivedAt),
+    }));
+
+    const body = serializeMenu(format, categories);
+    const date = new Date().toISOString().slice(0, 10);
+    return new NextResponse(body as BodyInit, {
+      headers: {
+        "Content-Type": MENU_FILE_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="menu-${date}.${format}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    console.error("Menu export error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { apiError, apiSuccess, requireRole } from "@/lib/tenant";
+import {
+  dedupeImportedItems,
+  detectMenuFileFormat,
+  parseMenuFile,
+} from "@/lib/menuFile";
+import { applyMenuImport, planMenuImport } from "@/lib/menuImportPlan";
+import { recordImportBatch } from "@/lib/menuImportHistory";
+import { announceMenuUpdated } from "@/lib/menu";
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024; // 5MB
+const MAX_ROWS = 2000;
+const PREVIEW_TTL_MS = 15 * 60 * 1000;
+
+// POST /api/menu/import — Import a CSV, XLSX or JSON menu file; ?dryRun=true
+// only previews and returns a token for /api/menu-scan/commit
+export async function POST(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const dryRun = req.nextUrl.searchParams.get("dryRun") === "true";
+
+    const file = (await req.formData()).get("file");
+    if (!(file instanceof File)) {
+      return apiError("Please upload a CSV, XLSX or JSON file", 400);
+    }
+    const format = detectMenuFileFormat(file.name);
+    if (!format) {
+      return apiError(`Unsupported file type for "${file.name}"`, 400);
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return apiError(`File "${file.name}" exceeds 5MB limit`, 400);
+    }
+
+    const parsed = parseMenuFile(format, Buffer.from(await file.arrayBuffer()));
+    if (parsed.items.length + parsed.errors.length > MAX_ROWS) {
+      return apiError(`Maximum ${MAX_ROWS} rows allowed per import`, 400);
+    }
+    // A partially valid file is rejected outright so the menu never ends up
+    // with half a spreadsheet applied.
+    if (parsed.errors.length > 0) {
+      const listed = parsed.errors
+        .slice(0, 5)
+        .map((e) => `Row ${e.row}: ${e.message}`);
+      if (parsed.errors.length > 5) {
+        listed.push(`${parsed.errors.length - 5} more rows`);
+      }
+      return apiError(
+        `Fix these rows and upload again. ${listed.join("; ")}`,
+        400,
+      );
+    }
+    const items = dedupeImportedItems(parsed.items);
+    if (items.length === 0) {
+      return apiError("The file does not contain any menu items", 400);
+    }
+
+    const source = format.toUpperCase();
+    if (dryRun) {
+      const plan = await planMenuImport(prisma, session.tenantId, items);
+      const preview = await prisma.menuImportPreview.create({
+        data: {
+          tenantId: session.tenantId,
+          createdById: session.userId,
+          source,
+          files: JSON.stringify([file.name]),
+          items: JSON.stringify(items),
+          expiresAt: new Date(Date.now() + PREVIEW_TTL_MS),
+        },
+      });
+      return apiSuccess({
+        token: preview.id,
+        expiresAt: preview.expiresAt,
+        extractedItems: items.length,
+        ...plan,
+      });
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const plan = await planMenuImport(tx, session.tenantId, items);
+      const applied = await applyMenuImport(
+        tx,
+        session.tenantId,
+        plan,
+        new Set(plan.rows.map((row) => row.key)),
+      );
+      const batch = await recordImportBatch(tx, {
+        tenantId: session.tenantId,
+        createdById: session.userId,
+        source,
+        files: [file.name],
+        items,
+        changes: applied.changes,
+        summary: applied.summary,
+      });
+      return { ...applied, batchId: batch.id };
+    });
+    await announceMenuUpdated(session.tenantId, {
+      action: "MENU_IMPORTED",
+      itemIds: result.applied.map((row) => row.itemId!),
+    });
+
+    return apiSuccess({
+      message: "Menu import completed",
+      importId: result.batchId,
+      summary: { extractedItems: items.length, ...result.summary },
+    });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    if (error.message === "MISSING_COLUMNS")
+      return apiError("The file needs at least name and price columns", 400);
+    if (
+      error.message === "INVALID_XLSX" ||
+      error.message === "INVALID_MENU_FILE" ||
+      error instanceof SyntaxError
+    )
+      return apiError("The file could not be read", 400);
+    console.error("Menu file import error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
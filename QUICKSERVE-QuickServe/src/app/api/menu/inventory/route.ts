@@ -0,0 +1,43 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { DEFAULT_LOW_STOCK_THRESHOLD, isLowStock } from "@/lib/inventory";
+
+// GET /api/menu/inventory — Stock levels of tracked items, lowest first
+export async function GET() {
+  try {
+    const session = await requireRole("OWNER", "MANAGER", "STAFF");
+
+    const items = await prisma.menuItem.findMany({
+      where: {
+        tenantId: session.tenantId,
+        archivedAt: null,
+        stockCount: { not: null },
+      },
+      orderBy: [{ stockCount: "asc" }, { name: "asc" }],
+      select: {
+        id: true,
+        name: true,
+        categoryId: true,
+        stockCount: true,
+        lowStockThreshold: true,
+        isAvailable: true,
+        soldOutAt: true,
+      },
+    });
+
+    const tracked = items.map((item) => ({
+      ...item,
+      lowStockThreshold: item.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD,
+      lowStock: isLowStock(item),
+    }));
+    return apiSuccess({
+      items: tracked,
+      lowStock: tracked.filter((item) => item.lowStock),
+    });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    console.error("Inventory fetch error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
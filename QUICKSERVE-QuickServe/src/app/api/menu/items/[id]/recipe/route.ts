@@ -0,0 +1,120 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { recipeLineSchema } from "@/lib/ingredients";
+import { parseModifierGroups } from "@/lib/modifiers";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const recipeSchema = z.object({
+  lines: z.array(recipeLineSchema).max(100),
+});
+
+function handleError(error: any, label: string) {
+  if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+  if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+  if (error.name === "ZodError") return apiError("Validation failed", 400);
+  console.error(`${label} error:`, error);
+  return apiError("Internal server error", 500);
+}
+
+async function loadRecipe(tenantId: string, menuItemId: string) {
+  const lines = await prisma.recipeLine.findMany({
+    where: { tenantId, menuItemId },
+    include: {
+      ingredient: {
+        select: { id: true, name: true, unit: true, costPerUnit: true },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+  // Plate cost of the base recipe; modifier lines only apply when chosen.
+  const baseCost = lines
+    .filter((line) => !line.modifierOptionId)
+    .reduce(
+      (sum, line) =>
+        sum + line.quantity * Number(line.ingredient.costPerUnit || 0),
+      0,
+    );
+  return { lines, baseCost: Math.round(baseCost * 100) / 100 };
+}
+
+// GET /api/menu/items/{id}/recipe — Ingredients a portion uses
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { id } = await params;
+
+    const item = await prisma.menuItem.findFirst({
+      where: { id, tenantId: session.tenantId },
+      select: { id: true },
+    });
+    if (!item) return apiError("Menu item not found", 404);
+
+    return apiSuccess(await loadRecipe(session.tenantId, id));
+  } catch (error: any) {
+    return handleError(error, "Recipe fetch");
+  }
+}
+
+// PUT /api/menu/items/{id}/recipe — Replace an item's recipe
+// Only future sales use the new quantities; past depletion stays as booked.
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { id } = await params;
+    const data = recipeSchema.parse(await req.json());
+
+    const item = await prisma.menuItem.findFirst({
+      where: { id, tenantId: session.tenantId },
+    });
+    if (!item) return apiError("Menu item not found", 404);
+
+    const ingredientIds = Array.from(
+      new Set(data.lines.map((line) => line.ingredientId)),
+    );
+    const ingredients = await prisma.ingredient.count({
+      where: {
+        id: { in: ingredientIds },
+        tenantId: session.tenantId,
+        archivedAt: null,
+      },
+    });
+    if (ingredients !== ingredientIds.length) {
+      return apiError("Some ingredients not found", 400);
+    }
+
+    const optionIds = new Set(
+      parseModifierGroups(item.variants).flatMap((group) =>
+        group.options.map((option) => option.id),
+      ),
+    );
+    const unknownOption = data.lines.find(
+      (line) => line.modifierOptionId && !optionIds.has(line.modifierOptionId),
+    );
+    if (unknownOption) {
+      return apiError(`${item.name} has no modifier option with that id`, 400);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.recipeLine.deleteMany({
+        where: { tenantId: session.tenantId, menuItemId: id },
+      });
+      if (data.lines.length === 0) return;
+      await tx.recipeLine.createMany({
+        data: data.lines.map((line) => ({
+          tenantId: session.tenantId,
+          menuItemId: id,
+          ingredientId: line.ingredientId,
+          modifierOptionId: line.modifierOptionId || null,
+          quantity: line.quantity,
+        })),
+      });
+    });
+
+    return apiSuccess(await loadRecipe(session.tenantId, id));
+  } catch (error: any) {
+    return handleError(error, "Recipe update");
+  }
+}
@@ -0,0 +1,132 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { announceMenuUpdated, menuItemSchema } from "@/lib/menu";
+import { availabilityForStockCount } from "@/lib/inventory";
+import { serializeMenuSchedule } from "@/lib/menuSchedule";
+import { serializeDietaryTags } from "@/lib/dietary";
+import { serializeMenuTranslations } from "@/lib/menuTranslations";
+import { combosUsingItem, findInvalidComboComponents } from "@/lib/combos";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// `archived: false` brings an archived item back onto the menu.
+const updateMenuItemSchema = menuItemSchema.partial().extend({
+  archived: z.literal(false).optional(),
+});
+
+function handleError(error: any, label: string) {
+  if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+  if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+  if (error.code === "P2002")
+    return apiError("An item with that name already exists", 409);
+  if (error.name === "ZodError") return apiError("Validation failed", 400);
+  console.error(`${label} error:`, error);
+  return apiError("Internal server error", 500);
+}
+
+// PATCH /api/menu/items/{id} — Edit, move, toggle availability, set stock or
+// restore
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { id } = await params;
+    const {
+      archived,
+      variants,
+      combo,
+      schedule,
+      dietary,
+      translations,
+      ...data
+    } = updateMenuItemSchema.parse(await req.json());
+
+    const existing = await prisma.menuItem.findFirst({
+      where: { id, tenantId: session.tenantId },
+    });
+    if (!existing) return apiError("Menu item not found", 404);
+
+    if (data.categoryId && data.categoryId !== existing.categoryId) {
+      const category = await prisma.menuCategory.findFirst({
+        where: { id: data.categoryId, tenantId: session.tenantId },
+      });
+      if (!category) return apiError("Category not found", 404);
+    }
+    if (
+      combo?.length &&
+      (await findInvalidComboComponents(prisma, session.tenantId, combo, id))
+        .length > 0
+    ) {
+      return apiError(
+        "Combo components must be existing, non-combo items",
+        400,
+      );
+    }
+    if (combo?.length) {
+      const parents = await combosUsingItem(prisma, session.tenantId, id);
+      if (parents.length > 0) {
+        return apiError(
+          `${existing.name} is part of ${parents.map((p) => p.name).join(", ")} and cannot be a combo itself`,
+          409,
+        );
+      }
+    }
+
+    const item = await prisma.menuItem.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(variants ? { variants: JSON.stringify(variants) } : {}),
+        ...(combo ? { combo: JSON.stringify(combo) } : {}),
+        schedule: serializeMenuSchedule(schedule),
+        dietary: serializeDietaryTags(dietary),
+        translations: serializeMenuTranslations(translations),
+        ...(archived === false ? { archivedAt: null } : {}),
+        // An explicit availability toggle wins over the stock rule and stops
+        // a later restock from switching the item back on by itself.
+        ...(data.stockCount !== undefined && data.isAvailable === undefined
+          ? availabilityForStockCount(existing, data.stockCount)
+          : {}),
+        ...(data.isAvailable !== undefined ? { soldOutAt: null } : {}),
+      },
+    });
+
+    await announceMenuUpdated(session.tenantId, {
+      action: "ITEM_UPDATED",
+      categoryIds: Array.from(new Set([existing.categoryId, item.categoryId])),
+      itemIds: [id],
+    });
+    return apiSuccess(item);
+  } catch (error: any) {
+    return handleError(error, "Menu item update");
+  }
+}
+
+// DELETE /api/menu/items/{id} — Archive a menu item
+// Items stay in the database so order history keeps its menuItemId links.
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { id } = await params;
+
+    const existing = await prisma.menuItem.findFirst({
+      where: { id, tenantId: session.tenantId },
+    });
+    if (!existing) return apiError("Menu item not found", 404);
+
+    const item = await prisma.menuItem.update({
+      where: { id },
+      data: { archivedAt: new Date(), isAvailable: false },
+    });
+
+    await announceMenuUpdated(session.tenantId, {
+      action: "ITEM_ARCHIVED",
+      categoryIds: [item.categoryId],
+      itemIds: [id],
+    });
+    return apiSuccess(item);
+  } catch (error: any) {
+    return handleError(error, "Menu item archive");
+  }
+}
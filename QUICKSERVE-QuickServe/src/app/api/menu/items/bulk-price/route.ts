@@ -0,0 +1,82 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { announceMenuUpdated } from "@/lib/menu";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+// PERCENT and AMOUNT adjust the current price (negative values lower it);
+// SET gives every targeted item the same price.
+const bulkPriceSchema = z
+  .object({
+    itemIds: z.array(z.string().min(1)).min(1).max(500).optional(),
+    categoryId: z.string().min(1).optional(),
+    mode: z.enum(["PERCENT", "AMOUNT", "SET"]),
+    value: z.number().min(-1000000).max(1000000),
+  })
+  .refine((d) => !!d.itemIds?.length !== !!d.categoryId, {
+    message: "Target either itemIds or a categoryId",
+    path: ["itemIds"],
+  });
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function nextPrice(current: number, mode: string, value: number) {
+  if (mode === "PERCENT") return round2(current * (1 + value / 100));
+  if (mode === "AMOUNT") return round2(current + value);
+  return round2(value);
+}
+
+// POST /api/menu/items/bulk-price — Change prices for many items at once
+export async function POST(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const data = bulkPriceSchema.parse(await req.json());
+
+    const items = await prisma.menuItem.findMany({
+      where: {
+        tenantId: session.tenantId,
+        archivedAt: null,
+        ...(data.itemIds
+          ? { id: { in: data.itemIds } }
+          : { categoryId: data.categoryId }),
+      },
+    });
+    if (items.length === 0) return apiError("No menu items matched", 404);
+    if (data.itemIds && items.length !== new Set(data.itemIds).size) {
+      return apiError("Some menu items not found", 400);
+    }
+
+    const changes = items.map((item) => ({
+      id: item.id,
+      name: item.name,
+      oldPrice: Number(item.price),
+      newPrice: nextPrice(Number(item.price), data.mode, data.value),
+    }));
+    const negative = changes.find((c) => c.newPrice < 0);
+    if (negative) {
+      return apiError(`${negative.name} would drop below Rs.0`, 400);
+    }
+
+    await prisma.$transaction(
+      changes.map((change) =>
+        prisma.menuItem.update({
+          where: { id: change.id },
+          data: { price: change.newPrice },
+        }),
+      ),
+    );
+
+    await announceMenuUpdated(session.tenantId, {
+      action: "PRICES_CHANGED",
+      categoryIds: Array.from(new Set(items.map((i) => i.categoryId))),
+      itemIds: changes.map((c) => c.id),
+    });
+    return apiSuccess({ updated: changes.length, changes });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    if (error.name === "ZodError") return apiError("Validation failed", 400);
+    console.error("Bulk price change error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
@@ -0,0 +1,114 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import {
+  announceMenuUpdated,
+  menuItemSchema,
+  nextItemSortOrder,
+  reorderSchema,
+} from "@/lib/menu";
+import { serializeMenuSchedule } from "@/lib/menuSchedule";
+import { serializeDietaryTags } from "@/lib/dietary";
+import { serializeMenuTranslations } from "@/lib/menuTranslations";
+import { findInvalidComboComponents } from "@/lib/combos";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+const reorderItemsSchema = reorderSchema.extend({
+  categoryId: z.string().min(1),
+});
+
+function handleError(error: any, label: string) {
+  if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+  if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+  if (error.code === "P2002")
+    return apiError("An item with that name already exists", 409);
+  if (error.name === "ZodError") return apiError("Validation failed", 400);
+  console.error(`${label} error:`, error);
+  return apiError("Internal server error", 500);
+}
+
+// POST /api/menu/items — Create a menu item
+export async function POST(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const data = menuItemSchema.parse(await req.json());
+
+    const category = await prisma.menuCategory.findFirst({
+      where: { id: data.categoryId, tenantId: session.tenantId },
+    });
+    if (!category) return apiError("Category not found", 404);
+    if (
+      data.combo?.length &&
+      (await findInvalidComboComponents(prisma, session.tenantId, data.combo))
+        .length > 0
+    ) {
+      return apiError(
+        "Combo components must be existing, non-combo items",
+        400,
+      );
+    }
+
+    const item = await prisma.menuItem.create({
+      data: {
+        tenantId: session.tenantId,
+        categoryId: category.id,
+        name: data.name,
+        description: data.description ?? null,
+        price: data.price,
+        isAvailable: (data.isAvailable ?? true) && data.stockCount !== 0,
+        stockCount: data.stockCount ?? null,
+        lowStockThreshold: data.lowStockThreshold ?? null,
+        sortOrder:
+          data.sortOrder ??
+          (await nextItemSortOrder(prisma, session.tenantId, category.id)),
+        variants: JSON.stringify(data.variants || []),
+        combo: JSON.stringify(data.combo || []),
+        schedule: serializeMenuSchedule(data.schedule),
+        dietary: serializeDietaryTags(data.dietary),
+        translations: serializeMenuTranslations(data.translations ?? null),
+      },
+    });
+
+    await announceMenuUpdated(session.tenantId, {
+      action: "ITEM_CREATED",
+      categoryIds: [category.id],
+      itemIds: [item.id],
+    });
+    return apiSuccess(item, 201);
+  } catch (error: any) {
+    return handleError(error, "Menu item create");
+  }
+}
+
+// PUT /api/menu/items — Reorder the items of one category
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { ids, categoryId } = reorderItemsSchema.parse(await req.json());
+
+    const owned = await prisma.menuItem.count({
+      where: { id: { in: ids }, tenantId: session.tenantId, categoryId },
+    });
+    if (owned !== new Set(ids).size) {
+      return apiError("Some items not found in this category", 400);
+    }
+
+    await prisma.$transaction(
+      ids.map((id, index) =>
+        prisma.menuItem.update({
+          where: { id },
+          data: { sortOrder: index },
+        }),
+      ),
+    );
+
+    await announceMenuUpdated(session.tenantId, {
+      action: "ITEMS_REORDERED",
+      categoryIds: [categoryId],
+      itemIds: ids,
+    });
+    return apiSuccess({ reordered: ids.length });
+  } catch (error: any) {
+    return handleError(error, "Menu item reorder");
+  }
+}
@@ -0,0 +1,73 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { loadMenu, toPublicMenu } from "@/lib/menu";
+import { annotateMenuSchedules, tenantMenuClock } from "@/lib/menuSchedule";
+import { parseTenantSettings } from "@/lib/orderTotals";
+import { applyPriceRulesToMenu, loadActivePriceRules } from "@/lib/priceRules";
+import { annotateCombos, loadComboComponentItems } from "@/lib/combos";
+import { NextRequest } from "next/server";
+
+// GET /api/menu — Public menu by ?slug=, or the full menu with ?manage=true
+// Both flag what is outside its day-part schedule with availableNow: false,
+// and spell out combo slots with the dishes that can fill them.
+export async function GET(req: NextRequest) {
+  try {
+    if (req.nextUrl.searchParams.get("manage") === "true") {
+      const session = await requireRole("OWNER", "MANAGER");
+      const [categories, tenant] = await Promise.all([
+        loadMenu(prisma, session.tenantId, { manage: true }),
+        prisma.tenant.findUnique({
+          where: { id: session.tenantId },
+          select: { settings: true },
+        }),
+      ]);
+      const clock = tenantMenuClock(parseTenantSettings(tenant?.settings));
+      const components = await loadComboComponentItems(
+        prisma,
+        session.tenantId,
+        categories.flatMap((c) => c.items),
+      );
+      return apiSuccess({
+        categories: annotateMenuSchedules(
+          annotateCombos(categories, components),
+          clock,
+        ),
+      });
+    }
+
+    const slug = req.nextUrl.searchParams.get("slug");
+    if (!slug) return apiError("Restaurant slug is required", 400);
+
+    const tenant = await prisma.tenant.findUnique({ where: { slug } });
+    if (!tenant) return apiError("Restaurant not found", 404);
+
+    // Guests see what things cost right now, with any price rule applied.
+    const clock = tenantMenuClock(parseTenantSettings(tenant.settings));
+    const [categories, priceRules] = await Promise.all([
+      loadMenu(prisma, tenant.id),
+      loadActivePriceRules(prisma, tenant.id, clock),
+    ]);
+    const components = await loadComboComponentItems(
+      prisma,
+      tenant.id,
+      categories.flatMap((c) => c.items),
+    );
+    return apiSuccess({
+      tenant: { name: tenant.name, slug: tenant.slug },
+      categories: toPublicMenu(
+        annotateMenuSchedules(
+          annotateCombos(
+            applyPriceRulesToMenu(categories, priceRules),
+            components,
+          ),
+          clock,
+        ),
+      ),
+    });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    console.error("Menu fetch error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
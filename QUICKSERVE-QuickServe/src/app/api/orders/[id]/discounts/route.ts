@@ -0,0 +1,213 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { triggerPusher, EVENTS, tenantChannel } from "@/lib/pusher";
+import { isTerminalOrderStatus } from "@/lib/orderStatus";
+import { recordOrderEvent } from "@/lib/orderEvents";
+import { recalculateOrderTotals } from "@/lib/orderTotals";
+import {
+  applyOrderDiscount,
+  findRedeemablePromo,
+  PROMO_ERROR_MESSAGES,
+  STAFF_DISCOUNT_LIMIT_PERCENT,
+} from "@/lib/discounts";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const applyDiscountSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("DISCOUNT"),
+    valueType: z.enum(["PERCENT", "FIXED"]),
+    value: z.number().positive().max(1000000),
+    orderItemId: z.string().min(1).optional(),
+    reason: z.string().trim().max(200).optional(),
+  }),
+  z.object({
+    kind: z.literal("COMP"),
+    // Comps default to the whole line/order but may be partial.
+    valueType: z.enum(["PERCENT", "FIXED"]).default("PERCENT"),
+    value: z.number().positive().max(1000000).default(100),
+    orderItemId: z.string().min(1).optional(),
+    reason: z.string().trim().min(3).max(200),
+  }),
+  z.object({
+    kind: z.literal("PROMO"),
+    code: z.string().trim().min(1).max(40),
+  }),
+]);
+
+const removeDiscountSchema = z.object({
+  discountId: z.string().min(1),
+});
+
+function handleError(error: any) {
+  if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+  if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+  if (error.message === "ORDER_NOT_FOUND")
+    return apiError("Order not found", 404);
+  if (error.message === "ORDER_ITEM_NOT_FOUND")
+    return apiError("Order item not found", 404);
+  if (error.message === "DISCOUNT_NOT_FOUND")
+    return apiError("Discount not found", 404);
+  if (error.message === "ORDER_CLOSED")
+    return apiError("Closed orders cannot be discounted", 409);
+  if (error.message === "DISCOUNT_NEEDS_APPROVAL")
+    return apiError(
+      `Discounts above ${STAFF_DISCOUNT_LIMIT_PERCENT}% need a manager`,
+      403,
+    );
+  if (error.message === "DISCOUNT_BELOW_PAID")
+    return apiError("Discount would bring the total below what is paid", 409);
+  if (PROMO_ERROR_MESSAGES[error.message])
+    return apiError(PROMO_ERROR_MESSAGES[error.message], 400);
+  if (error.name === "ZodError") return apiError("Validation failed", 400);
+  console.error("Order discount error:", error);
+  return apiError("Internal server error", 500);
+}
+
+async function findOpenOrder(orderId: string, tenantId: string) {
+  const order = await prisma.order.findFirst({
+    where: { id: orderId, tenantId },
+    include: { items: { select: { id: true } } },
+  });
+  if (!order) throw new Error("ORDER_NOT_FOUND");
+  if (isTerminalOrderStatus(order.status)) throw new Error("ORDER_CLOSED");
+  return order;
+}
+
+// GET /api/orders/{id}/discounts — Discounts applied to an order
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER", "STAFF");
+    const { id } = await params;
+
+    const discounts = await prisma.orderDiscount.findMany({
+      where: { orderId: id, tenantId: session.tenantId },
+      orderBy: { createdAt: "asc" },
+      include: { promoCode: { select: { code: true } } },
+    });
+
+    return apiSuccess({ discounts });
+  } catch (error: any) {
+    return handleError(error);
+  }
+}
+
+// POST /api/orders/{id}/discounts — Apply a discount, comp or promo code
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER", "STAFF");
+    const { id } = await params;
+    const data = applyDiscountSchema.parse(await req.json());
+
+    // Comps are giveaways and need a manager to sign off. Staff discounts
+    // are capped instead; a manager's own discount counts as approved.
+    const isManager = ["OWNER", "MANAGER"].includes(session.role);
+    if (data.kind === "COMP" && !isManager) throw new Error("FORBIDDEN");
+
+    const order = await findOpenOrder(id, session.tenantId);
+    if (
+      data.kind !== "PROMO" &&
+      data.orderItemId &&
+      !order.items.some((item) => item.id === data.orderItemId)
+    ) {
+      throw new Error("ORDER_ITEM_NOT_FOUND");
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (data.kind === "PROMO") {
+        const promo = await findRedeemablePromo(
+          tx,
+          session.tenantId,
+          data.code,
+          Number(order.subtotal),
+        );
+        return applyOrderDiscount(tx, {
+          tenantId: session.tenantId,
+          orderId: order.id,
+          kind: "PROMO",
+          valueType: promo.valueType as "PERCENT" | "FIXED",
+          value: Number(promo.value),
+          reason: `Promo ${promo.code}`,
+          promoCode: promo,
+          appliedById: session.userId,
+        });
+      }
+      return applyOrderDiscount(tx, {
+        tenantId: session.tenantId,
+        orderId: order.id,
+        kind: data.kind,
+        valueType: data.valueType,
+        value: data.value,
+        orderItemId: data.orderItemId,
+        reason: data.reason,
+        appliedById: session.userId,
+        approvedById: isManager ? session.userId : null,
+      });
+    });
+
+    await triggerPusher(tenantChannel(session.tenantId), EVENTS.ORDER_UPDATED, {
+      order: updated,
+    });
+
+    return apiSuccess(updated, 201);
+  } catch (error: any) {
+    return handleError(error);
+  }
+}
+
+// DELETE /api/orders/{id}/discounts — Remove a discount (managers only)
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { id } = await params;
+    const data = removeDiscountSchema.parse(await req.json());
+
+    const order = await findOpenOrder(id, session.tenantId);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const discount = await tx.orderDiscount.findFirst({
+        where: { id: data.discountId, orderId: order.id },
+      });
+      if (!discount) throw new Error("DISCOUNT_NOT_FOUND");
+
+      await tx.orderDiscount.delete({ where: { id: discount.id } });
+      // A removed promo gives its use back.
+      if (discount.promoCodeId) {
+        await tx.promoCode.updateMany({
+          where: { id: discount.promoCodeId, usedCount: { gt: 0 } },
+          data: { usedCount: { decrement: 1 } },
+        });
+      }
+
+      const result = await recalculateOrderTotals(
+        tx,
+        order.id,
+        session.tenantId,
+      );
+      await recordOrderEvent(tx, {
+        tenantId: session.tenantId,
+        orderId: order.id,
+        type: "DISCOUNT_REMOVED",
+        actorUserId: session.userId,
+        oldValue: {
+          discountId: discount.id,
+          kind: discount.kind,
+          amount: Number(discount.amount),
+          total: Number(order.total),
+        },
+        newValue: { total: Number(result.total) },
+      });
+      return result;
+    });
+
+    await triggerPusher(tenantChannel(session.tenantId), EVENTS.ORDER_UPDATED, {
+      order: updated,
+    });
+
+    return apiSuccess(updated);
+  } catch (error: any) {
+    return handleError(error);
+  }
+}
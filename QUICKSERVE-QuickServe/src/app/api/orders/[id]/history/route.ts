@@ -0,0 +1,60 @@
+import { prisma } from "@/lib/db";
+import { requireAuth, apiError, apiSuccess } from "@/lib/tenant";
+import { formatOrderEvent } from "@/lib/orderEvents";
+import { NextRequest } from "next/server";
+
+// GET /api/orders/{id}/history — Audit trail for a single order
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await requireAuth();
+    const { id } = await params;
+
+    const order = await prisma.order.findFirst({
+      where: { id, tenantId: session.tenantId },
+      select: { id: true, orderNumber: true },
+    });
+    if (!order) return apiError("Order not found", 404);
+
+    const events = await prisma.orderEvent.findMany({
+      where: { orderId: order.id, tenantId: session.tenantId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    // Resolve staff names so the timeline reads "who", not just a user id.
+    const actorIds = Array.from(
+      new Set(events.map((e) => e.actorUserId).filter(Boolean)),
+    ) as string[];
+    const users = actorIds.length
+      ? await prisma.user.findMany({
+          where: { id: { in: actorIds }, tenantId: session.tenantId },
+          select: { id: true, name: true, email: true },
+        })
+      : [];
+    const userById = new Map(users.map((u) => [u.id, u]));
+
+    return apiSuccess({
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      events: events.map((event) => {
+        const formatted = formatOrderEvent(event);
+        const user = event.actorUserId
+          ? userById.get(event.actorUserId)
+          : undefined;
+        return {
+          ...formatted,
+          actor: {
+            ...formatted.actor,
+            name: user?.name || user?.email || null,
+          },
+        };
+      }),
+    });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    console.error("Order history error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
@@ -0,0 +1,370 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { triggerPusher, EVENTS, tenantChannel } from "@/lib/pusher";
+import { isTerminalOrderStatus } from "@/lib/orderStatus";
+import { recordOrderEvent, snapshotOrderItems } from "@/lib/orderEvents";
+import { parseTenantSettings, recalculateOrderTotals } from "@/lib/orderTotals";
+import { collectedAmount, PAYMENT_TOLERANCE } from "@/lib/billSplit";
+import {
+  announceOrderPayment,
+  reconcileOrderPayment,
+} from "@/lib/paymentSettlement";
+import {
+  modifierSelectionSchema,
+  modifierSignature,
+  parseModifierGroups,
+  parseOrderItemModifiers,
+  resolveModifierSelection,
+  unitPriceWithModifiers,
+} from "@/lib/modifiers";
+import {
+  announceStockChanges,
+  describeShortages,
+  emptyStockChanges,
+  findStockShortages,
+  releaseStock,
+  reserveStock,
+} from "@/lib/inventory";
+import {
+  depleteIngredients,
+  depletionLines,
+  restoreIngredients,
+} from "@/lib/ingredients";
+import {
+  isOnScheduleNow,
+  notAvailableNowMessage,
+  tenantMenuClock,
+} from "@/lib/menuSchedule";
+import { loadActivePriceRules, priceWithRules } from "@/lib/priceRules";
+import {
+  comboSelectionSchema,
+  comboSignature,
+  loadComboComponentItems,
+  parseComboComponents,
+  parseComboSlots,
+  resolveComboSelection,
+} from "@/lib/combos";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const addItemSchema = z.object({
+  menuItemId: z.string().min(1),
+  quantity: z.number().int().min(1).max(50),
+  instructions: z.string().max(200).optional(),
+  modifiers: z.array(modifierSelectionSchema).optional(),
+  combo: z.array(comboSelectionSchema).optional(),
+});
+
+const updateItemSchema = z.object({
+  orderItemId: z.string().min(1),
+  quantity: z.number().int().min(1).max(50),
+});
+
+const voidItemSchema = z.object({
+  orderItemId: z.string().min(1),
+  reason: z.string().trim().min(3).max(200),
+});
+
+type Tx = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+// Shared flow for every line-level edit: verify the order is open, apply the
+// change, re-derive totals with tenant settings, settle the payment state
+// against the new total, log it and broadcast.
+async function editOrderItems(
+  orderId: string,
+  session: { tenantId: string; userId?: string },
+  mutate: (tx: Tx, order: any) => Promise<Record<string, unknown> | void>,
+) {
+  const { updated, payment } = await prisma.$transaction(async (tx) => {
+    // Read inside the transaction so a payment closing the order meanwhile
+    // is seen before the lines change.
+    const order = await tx.order.findFirst({
+      where: { id: orderId, tenantId: session.tenantId },
+      include: {
+        items: true,
+        payments: { select: { amount: true, status: true } },
+      },
+    });
+    if (!order) throw new Error("ORDER_NOT_FOUND");
+    if (isTerminalOrderStatus(order.status)) throw new Error("ORDER_CLOSED");
+
+    const extra = await mutate(tx, order);
+    const result = await recalculateOrderTotals(tx, order.id, session.tenantId);
+    // Same rule as discounts: the bill cannot drop below what was already
+    // collected; refund first.
+    if (
+      Number(result.total) + PAYMENT_TOLERANCE <
+      collectedAmount(order, order.payments)
+    ) {
+      throw new Error("TOTAL_BELOW_PAID");
+    }
+    await recordOrderEvent(tx, {
+      tenantId: session.tenantId,
+      orderId: order.id,
+      type: "ITEMS_CHANGED",
+      actorUserId: session.userId,
+      oldValue: {
+        total: Number(order.total),
+        items: snapshotOrderItems(order.items),
+      },
+      newValue: {
+        total: Number(result.total),
+        items: snapshotOrderItems(result.items),
+        ...(extra || {}),
+      },
+    });
+    const actor = { actorUserId: session.userId };
+    const payment = await reconcileOrderPayment(
+      tx,
+      session.tenantId,
+      order.id,
+      actor,
+    );
+    return {
+      updated: {
+        ...result,
+        status: payment.order.status,
+        paymentStatus: payment.order.paymentStatus,
+        completedAt: payment.order.completedAt,
+      },
+      payment,
+    };
+  });
+
+  if (payment.settled) {
+    // Voiding the unpaid lines of a part-paid order can settle it.
+    await announceOrderPayment(session.tenantId, payment);
+  } else {
+    await triggerPusher(tenantChannel(session.tenantId), EVENTS.ORDER_UPDATED, {
+      order: updated,
+    });
+  }
+
+  return updated;
+}
+
+function handleError(error: any) {
+  if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+  if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+  if (error.message === "ORDER_NOT_FOUND")
+    return apiError("Order not found", 404);
+  if (error.message === "ORDER_ITEM_NOT_FOUND")
+    return apiError("Order item not found", 404);
+  if (error.message === "MENU_ITEM_NOT_FOUND")
+    return apiError("Menu item not found", 400);
+  if (error.message === "ORDER_CLOSED")
+    return apiError("Closed orders cannot be edited", 409);
+  if (error.message === "TOTAL_BELOW_PAID")
+    return apiError("Edit would bring the total below what is paid", 409);
+  if (error.message === "OUT_OF_STOCK")
+    return apiError("Not enough stock left for this item", 409);
+  if (error.name === "ZodError") return apiError("Validation failed", 400);
+  console.error("Order item edit error:", error);
+  return apiError("Internal server error", 500);
+}
+
+// POST /api/orders/{id}/items — Add a line to an open order
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER", "STAFF");
+    const { id } = await params;
+    const data = addItemSchema.parse(await req.json());
+
+    const menuItem = await prisma.menuItem.findFirst({
+      where: {
+        id: data.menuItemId,
+        tenantId: session.tenantId,
+        archivedAt: null,
+      },
+      include: { category: { select: { schedule: true } } },
+    });
+    if (!menuItem) throw new Error("MENU_ITEM_NOT_FOUND");
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: session.tenantId },
+      select: { settings: true },
+    });
+    const clock = tenantMenuClock(parseTenantSettings(tenant?.settings));
+    if (!isOnScheduleNow(menuItem, menuItem.category, clock)) {
+      return apiError(
+        notAvailableNowMessage(
+          menuItem.name,
+          menuItem,
+          menuItem.category,
+          clock,
+        ),
+        409,
+      );
+    }
+    const resolved = resolveModifierSelection(
+      parseModifierGroups(menuItem.variants),
+      data.modifiers,
+    );
+    if (!resolved.ok) return apiError(resolved.error, 400);
+    const combo = resolveComboSelection(
+      parseComboSlots(menuItem.combo),
+      data.combo,
+      await loadComboComponentItems(prisma, session.tenantId, [menuItem]),
+    );
+    if (!combo.ok) return apiError(combo.error, 400);
+    const ruled = priceWithRules(
+      menuItem,
+      await loadActivePriceRules(prisma, session.tenantId, clock),
+    );
+    const unitPrice = unitPriceWithModifiers(
+      ruled.price + combo.priceDelta,
+      resolved.modifiers,
+    );
+    const signature = modifierSignature(resolved.modifiers);
+    const componentSignature = comboSignature(combo.components);
+    const line = {
+      menuItemId: menuItem.id,
+      quantity: data.quantity,
+      comboComponents: JSON.stringify(combo.components),
+    };
+    const shortages = await findStockShortages(prisma, session.tenantId, [
+      line,
+    ]);
+    if (shortages.length > 0) {
+      return apiError(describeShortages(shortages), 409);
+    }
+
+    const stock = emptyStockChanges();
+    const updated = await editOrderItems(id, session, async (tx, order) => {
+      await reserveStock(tx, session.tenantId, [line], stock);
+      const instructions = data.instructions || null;
+      const existing = order.items.find(
+        (i: any) =>
+          i.menuItemId === menuItem.id &&
+          (i.instructions || null) === instructions &&
+          modifierSignature(parseOrderItemModifiers(i.modifiers)) ===
+            signature &&
+          comboSignature(parseComboComponents(i.comboComponents)) ===
+            componentSignature &&
+          // A line priced before happy hour ended stays a separate line.
+          Number(i.unitPrice) === unitPrice,
+      );
+      if (existing) {
+        const nextQty = existing.quantity + data.quantity;
+        await tx.orderItem.update({
+          where: { id: existing.id },
+          data: {
+            quantity: nextQty,
+            total: nextQty * Number(existing.unitPrice),
+          },
+        });
+        await depleteIngredients(
+          tx,
+          session.tenantId,
+          depletionLines([{ ...existing, quantity: data.quantity }]),
+        );
+        return;
+      }
+      const created = await tx.orderItem.create({
+        data: {
+          orderId: order.id,
+          menuItemId: menuItem.id,
+          itemName: menuItem.name,
+          unitPrice,
+          quantity: data.quantity,
+          total: unitPrice * data.quantity,
+          instructions: data.instructions,
+          modifiers: JSON.stringify(resolved.modifiers),
+          comboComponents: line.comboComponents,
+          priceRuleName: ruled.rule?.name ?? null,
+        },
+      });
+      await depleteIngredients(tx, session.tenantId, depletionLines([created]));
+    });
+
+    await announceStockChanges(session.tenantId, stock);
+    return apiSuccess(updated, 201);
+  } catch (error: any) {
+    return handleError(error);
+  }
+}
+
+// PATCH /api/orders/{id}/items — Change the quantity of a line
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER", "STAFF");
+    const { id } = await params;
+    const data = updateItemSchema.parse(await req.json());
+
+    const stock = emptyStockChanges();
+    const updated = await editOrderItems(id, session, async (tx, order) => {
+      const line = order.items.find((i: any) => i.id === data.orderItemId);
+      if (!line) throw new Error("ORDER_ITEM_NOT_FOUND");
+      const delta = data.quantity - line.quantity;
+      const change = [
+        {
+          menuItemId: line.menuItemId,
+          quantity: Math.abs(delta),
+          comboComponents: line.comboComponents,
+        },
+      ];
+      const ingredientChange = depletionLines([
+        { ...line, quantity: Math.abs(delta) },
+      ]);
+      if (delta > 0) {
+        await reserveStock(tx, session.tenantId, change, stock);
+        await depleteIngredients(tx, session.tenantId, ingredientChange);
+      }
+      if (delta < 0) {
+        await releaseStock(tx, session.tenantId, change, stock);
+        await restoreIngredients(tx, session.tenantId, ingredientChange);
+      }
+      await tx.orderItem.update({
+        where: { id: line.id },
+        data: {
+          quantity: data.quantity,
+          total: data.quantity * Number(line.unitPrice),
+        },
+      });
+    });
+
+    await announceStockChanges(session.tenantId, stock);
+    return apiSuccess(updated);
+  } catch (error: any) {
+    return handleError(error);
+  }
+}
+
+// DELETE /api/orders/{id}/items — Void a line (reason required)
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER", "STAFF");
+    const { id } = await params;
+    const data = voidItemSchema.parse(await req.json());
+
+    const stock = emptyStockChanges();
+    const updated = await editOrderItems(id, session, async (tx, order) => {
+      const line = order.items.find((i: any) => i.id === data.orderItemId);
+      if (!line) throw new Error("ORDER_ITEM_NOT_FOUND");
+      if (order.items.length === 1) {
+        // An order with no lines is a cancellation, not an edit.
+        throw new Error("LAST_ITEM");
+      }
+      await releaseStock(tx, session.tenantId, [line], stock);
+      await restoreIngredients(tx, session.tenantId, depletionLines([line]));
+      // Discounts on a voided line go with it; the totals recalc follows.
+      await tx.orderDiscount.deleteMany({ where: { orderItemId: line.id } });
+      await tx.orderItem.delete({ where: { id: line.id } });
+      return {
+        voided: {
+          itemName: line.itemName,
+          quantity: line.quantity,
+          reason: data.reason,
+        },
+      };
+    });
+
+    await announceStockChanges(session.tenantId, stock);
+    return apiSuccess(updated);
+  } catch (error: any) {
+    if (error.message === "LAST_ITEM")
+      return apiError("Cannot void the last item; cancel the order", 409);
+    return handleError(error);
+  }
+}
@@ -3,7 +3,73 @@ import { requireAuth, apiError, apiSuccess, requireRole } from "@/lib/tenant";
 import { createOrderSchema, updateOrderStatusSchema } from "@/lib/validations";
 import { triggerPusher, EVENTS, tenantChannel } from "@/lib/pusher";
 import { nextOrderNumberForTenant } from "@/lib/orders";
+import {
+  canTransitionOrder,
+  describeInvalidTransition,
+  isTerminalOrderStatus,
+} from "@/lib/orderStatus";
+import { recordOrderEvent, snapshotOrderItems } from "@/lib/orderEvents";
+import { computeOrderTotals, parseTenantSettings } from "@/lib/orderTotals";
+import {
+  collectedAmount,
+  derivePaymentStatus,
+  outstandingBalance,
+  PAYMENT_TOLERANCE,
+} from "@/lib/billSplit";
+import {
+  applyOrderDiscount,
+  findRedeemablePromo,
+  PROMO_ERROR_MESSAGES,
+} from "@/lib/discounts";
+import {
+  modifierSelectionSchema,
+  parseModifierGroups,
+  resolveModifierSelection,
+  unitPriceWithModifiers,
+} from "@/lib/modifiers";
+import {
+  announceStockChanges,
+  describeShortages,
+  emptyStockChanges,
+  findStockShortages,
+  releaseStock,
+  reserveStock,
+} from "@/lib/inventory";
+import {
+  depleteIngredients,
+  depletionLines,
+  restoreIngredients,
+} from "@/lib/ingredients";
+import {
+  isOnScheduleNow,
+  notAvailableNowMessage,
+  tenantMenuClock,
+} from "@/lib/menuSchedule";
+import { loadActivePriceRules, priceWithRules } from "@/lib/priceRules";
+import {
+  comboSelectionSchema,
+  loadComboComponentItems,
+  parseComboSlots,
+  resolveComboSelection,
+} from "@/lib/combos";
 import { NextRequest } from "next/server";
+import { z } from "zod";
+
+const createOrderWithPromoSchema = createOrderSchema.extend({
+  items: z
+    .array(
+      z.object({
+        menuItemId: z.string().min(1),
+        quantity: z.number().int().min(1).max(50),
+        instructions: z.string().max(200).optional(),
+        modifiers: z.array(modifierSelectionSchema).optional(),
+        // Choice slots of a combo; fixed components need no entry.
+        combo: z.array(comboSelectionSchema).optional(),
+      }),
+    )
+    .min(1),
+  promoCode: z.string().trim().min(1).max(40).optional(),
+});
 
 function extractChatSessionId(notes?: string | null): string | null {
   if (!notes) return null;
@@ -46,6 +112,16 @@ export async function GET(req: NextRequest) {
         include: {
           items: { include: { menuItem: true } },
           table: true,
+          payments: {
+            select: {
+              id: true,
+              amount: true,
+              method: true,
+              status: true,
+              splitLabel: true,
+            },
+          },
+          discounts: { orderBy: { createdAt: "asc" } },
         },
         orderBy: { createdAt: "desc" },
         skip: (page - 1) * limit,
@@ -66,55 +142,122 @@ export async function POST(req: NextRequest) {
   try {
     const session = await requireRole("OWNER", "MANAGER", "STAFF");
     const body = await req.json();
-    const data = createOrderSchema.parse(body);
+    const data = createOrderWithPromoSchema.parse(body);
 
     // Fetch menu items to calculate prices
-    const menuItemIds = data.items.map((i) => i.menuItemId);
+    // The same item can appear on several lines with different modifiers.
+    const menuItemIds = Array.from(
+      new Set(data.items.map((i) => i.menuItemId)),
+    );
     const menuItems = await prisma.menuItem.findMany({
-      where: { id: { in: menuItemIds }, tenantId: session.tenantId },
+      where: {
+        id: { in: menuItemIds },
+        tenantId: session.tenantId,
+        archivedAt: null,
+      },
+      include: { category: { select: { schedule: true } } },
     });
 
     if (menuItems.length !== menuItemIds.length) {
       return apiError("Some menu items not found", 400);
     }
 
-    // Calculate totals
+    // Get tenant settings for service charge and the menu schedule clock
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: session.tenantId },
+    });
+    const settings = parseTenantSettings(tenant?.settings);
+    const clock = tenantMenuClock(settings);
+    const offSchedule = menuItems.filter(
+      (item) => !isOnScheduleNow(item, item.category, clock),
+    );
+    if (offSchedule.length > 0) {
+      return apiError(
+        offSchedule
+          .map((item) =>
+            notAvailableNowMessage(item.name, item, item.category, clock),
+          )
+          .join("; "),
+        409,
+      );
+    }
+
+    // Calculate totals at the prices in force right now (happy hour etc.)
+    const priceRules = await loadActivePriceRules(
+      prisma,
+      session.tenantId,
+      clock,
+    );
+    const comboComponents = await loadComboComponentItems(
+      prisma,
+      session.tenantId,
+      menuItems,
+    );
     let subtotal = 0;
-    const orderItems = data.items.map((item) => {
+    const orderItems = [];
+    for (const item of data.items) {
       const menuItem = menuItems.find((m) => m.id === item.menuItemId)!;
-      const total = Number(menuItem.price) * item.quantity;
+      const resolved = resolveModifierSelection(
+        parseModifierGroups(menuItem.variants),
+        item.modifiers,
+      );
+      if (!resolved.ok) {
+        return apiError(`${menuItem.name}: ${resolved.error}`, 400);
+      }
+      const combo = resolveComboSelection(
+        parseComboSlots(menuItem.combo),
+        item.combo,
+        comboComponents,
+      );
+      if (!combo.ok) {
+        return apiError(`${menuItem.name}: ${combo.error}`, 400);
+      }
+      const ruled = priceWithRules(menuItem, priceRules);
+      const unitPrice = unitPriceWithModifiers(
+        ruled.price + combo.priceDelta,
+        resolved.modifiers,
+      );
+      const total = unitPrice * item.quantity;
       subtotal += total;
-      return {
+      orderItems.push({
         menuItemId: item.menuItemId,
         itemName: menuItem.name,
-        unitPrice: menuItem.price,
+        unitPrice,
         quantity: item.quantity,
         total,
         instructions: item.instructions,
-      };
-    });
+        modifiers: JSON.stringify(resolved.modifiers),
+        comboComponents: JSON.stringify(combo.components),
+        priceRuleName: ruled.rule?.name ?? null,
+      });
+    }
 
-    // Get tenant settings for service charge
-    // BUG FIX: Tenant.settings is stored as a JSON string in the DB (SQLite has no
-    // native JSON type). Casting it directly to `any` means it's still a string,
-    // so settings.serviceChargePercent was always undefined and charges were always 0.
-    const tenant = await prisma.tenant.findUnique({
-      where: { id: session.tenantId },
-    });
-    let settings: Record<string, any> = {};
-    try {
-      settings = JSON.parse(tenant?.settings || "{}");
-    } catch {
-      settings = {};
+    // Combo lines also need their components in stock.
+    const shortages = await findStockShortages(
+      prisma,
+      session.tenantId,
+      orderItems,
+    );
+    if (shortages.length > 0) {
+      return apiError(describeShortages(shortages), 409);
     }
-    const serviceChargePercent = settings.serviceChargePercent || 0;
-    const taxPercent = settings.taxPercent || 0;
 
-    const serviceCharge = Math.round(subtotal * (serviceChargePercent / 100));
-    const tax = Math.round(subtotal * (taxPercent / 100));
-    const total = subtotal + serviceCharge + tax;
+    const { serviceCharge, tax, total } = computeOrderTotals(
+      subtotal,
+      settings,
+    );
+    // Validate up front for a clear error; redemption happens in the transaction.
+    if (data.promoCode) {
+      await findRedeemablePromo(
+        prisma,
+        session.tenantId,
+        data.promoCode,
+        subtotal,
+      );
+    }
 
     let order: any | null = null;
+    let stock = emptyStockChanges();
     for (let attempt = 0; attempt < 3; attempt++) {
       try {
         order = await prisma.$transaction(async (tx) => {
@@ -136,7 +279,7 @@ export async function POST(req: NextRequest) {
             session.tenantId,
           );
 
-          return tx.order.create({
+          const created = await tx.order.create({
             data: {
               tenantId: session.tenantId,
               orderNumber,
@@ -154,16 +297,57 @@ export async function POST(req: NextRequest) {
               table: true,
             },
           });
+          stock = await reserveStock(tx, session.tenantId, orderItems);
+          await depleteIngredients(
+            tx,
+            session.tenantId,
+            depletionLines(created.items),
+          );
+
+          await recordOrderEvent(tx, {
+            tenantId: session.tenantId,
+            orderId: created.id,
+            type: "ORDER_CREATED",
+            actorUserId: session.userId,
+            newValue: {
+              status: created.status,
+              total,
+              items: snapshotOrderItems(created.items),
+            },
+          });
+
+          if (data.promoCode) {
+            const promo = await findRedeemablePromo(
+              tx,
+              session.tenantId,
+              data.promoCode,
+              subtotal,
+            );
+            return applyOrderDiscount(tx, {
+              tenantId: session.tenantId,
+              orderId: created.id,
+              kind: "PROMO",
+              valueType: promo.valueType as "PERCENT" | "FIXED",
+              value: Number(promo.value),
+              reason: `Promo ${promo.code}`,
+              promoCode: promo,
+              appliedById: session.userId,
+            });
+          }
+
+          return created;
         });
         break;
       } catch (error: any) {
         if (error?.message === "TABLE_NOT_FOUND") throw error;
+        if (PROMO_ERROR_MESSAGES[error?.message]) throw error;
         if (error?.code === "P2002" && attempt < 2) continue;
         throw error;
       }
     }
 
     if (!order) return apiError("Could not create order", 500);
+    await announceStockChanges(session.tenantId, stock);
 
     // Broadcast real-time event
     await triggerPusher(tenantChannel(session.tenantId), EVENTS.ORDER_CREATED, {
@@ -176,6 +360,10 @@ export async function POST(req: NextRequest) {
     if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
     if (error.message === "TABLE_NOT_FOUND")
       return apiError("Selected table not found", 404);
+    if (PROMO_ERROR_MESSAGES[error.message])
+      return apiError(PROMO_ERROR_MESSAGES[error.message], 400);
+    if (error.message === "OUT_OF_STOCK")
+      return apiError("An item sold out while the order was being placed", 409);
     if (error.name === "ZodError") return apiError("Validation failed", 400);
     console.error("Order creation error:", error);
     return apiError("Internal server error", 500);
@@ -193,29 +381,98 @@ export async function PATCH(req: NextRequest) {
 
     const order = await prisma.order.findFirst({
       where: { id: orderId, tenantId: session.tenantId },
+      include: { payments: { select: { amount: true, status: true } } },
     });
     if (!order) return apiError("Order not found", 404);
 
     const data = updateOrderStatusSchema.parse(rest);
 
+    if (!canTransitionOrder(order.status, data.status, session.role)) {
+      return apiError(
+        describeInvalidTransition(order.status, data.status, session.role),
+        409,
+      );
+    }
+
     const updateData: any = { status: data.status, updatedAt: new Date() };
 
-    // Handle terminal statuses
+    // Handle terminal statuses. PAID only closes an order whose payments
+    // already cover it; the money itself is recorded via /api/payments.
     if (data.status === "PAID") {
-      updateData.paymentStatus = "PAID";
+      const outstanding = outstandingBalance(order, order.payments);
+      if (outstanding > PAYMENT_TOLERANCE) {
+        return apiError(
+          `Rs.${outstanding.toFixed(2)} is still outstanding. Record the payment first.`,
+          409,
+        );
+      }
+      updateData.paymentStatus = derivePaymentStatus(order, order.payments);
       updateData.completedAt = new Date();
     }
     if (data.status === "CANCELLED") {
+      // Money already taken would vanish from every report with the order;
+      // it has to be refunded first.
+      const collected = collectedAmount(order, order.payments);
+      if (collected >= PAYMENT_TOLERANCE) {
+        return apiError(
+          `Rs.${collected.toFixed(2)} has been collected on this order. Refund it before cancelling.`,
+          409,
+        );
+      }
       updateData.completedAt = new Date();
     }
+    // Reopened orders are live again
+    if (isTerminalOrderStatus(order.status)) {
+      updateData.completedAt = null;
+    }
 
-    const updated = await prisma.order.update({
-      where: { id: orderId },
-      data: updateData,
-      include: {
-        items: { include: { menuItem: true } },
-        table: true,
-      },
+    let stock = emptyStockChanges();
+    const updated = await prisma.$transaction(async (tx) => {
+      if (data.status === "CANCELLED") {
+        const payments = await tx.payment.findMany({
+          where: { orderId },
+          select: { amount: true, status: true },
+        });
+        if (collectedAmount(order, payments) >= PAYMENT_TOLERANCE) {
+          throw new Error("PAYMENTS_COLLECTED");
+        }
+      }
+      const result = await tx.order.update({
+        where: { id: orderId },
+        data: updateData,
+        include: {
+          items: { include: { menuItem: true } },
+          table: true,
+        },
+      });
+      // Cancelling puts the portions back; reopening takes them again.
+      if (data.status === "CANCELLED") {
+        stock = await releaseStock(tx, session.tenantId, result.items);
+        await restoreIngredients(
+          tx,
+          session.tenantId,
+          depletionLines(result.items),
+        );
+      } else if (order.status === "CANCELLED") {
+        stock = await reserveStock(tx, session.tenantId, result.items);
+        await depleteIngredients(
+          tx,
+          session.tenantId,
+          depletionLines(result.items),
+        );
+      }
+      await recordOrderEvent(tx, {
+        tenantId: session.tenantId,
+        orderId,
+        type: "STATUS_CHANGED",
+        actorUserId: session.userId,
+        oldValue: { status: order.status, paymentStatus: order.paymentStatus },
+        newValue: {
+          status: result.status,
+          paymentStatus: result.paymentStatus,
+        },
+      });
+      return result;
     });
 
     // Free up table on terminal status
@@ -236,8 +493,15 @@ export async function PATCH(req: NextRequest) {
           data: { status: "AVAILABLE" },
         });
       }
+    } else if (isTerminalOrderStatus(order.status) && order.tableId) {
+      await prisma.table.update({
+        where: { id: order.tableId },
+        data: { status: "OCCUPIED" },
+      });
     }
 
+    await announceStockChanges(session.tenantId, stock);
+
     // Broadcast real-time event
     await triggerPusher(
       tenantChannel(session.tenantId),
@@ -285,6 +549,13 @@ export async function PATCH(req: NextRequest) {
   } catch (error: any) {
     if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
     if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    if (error.message === "OUT_OF_STOCK")
+      return apiError("Not enough stock left to reopen this order", 409);
+    if (error.message === "PAYMENTS_COLLECTED")
+      return apiError(
+        "A payment was collected on this order meanwhile. Refund it before cancelling.",
+        409,
+      );
     if (error.name === "ZodError") return apiError("Validation failed", 400);
     console.error("Order update error:", error);
     return apiError("Internal server error", 500);
@@ -0,0 +1,125 @@
+import { prisma } from "@/lib/db";
+import { apiError, apiSuccess } from "@/lib/tenant";
+import { getPaymentGateway } from "@/lib/paymentGateways";
+import {
+  confirmPendingPayment,
+  extractChatSessionId,
+  failPendingPayment,
+} from "@/lib/paymentSettlement";
+import { NextRequest } from "next/server";
+
+// Providers name their transaction id differently: the mock sends `ref`,
+// Khalti `pidx`, and eSewa a base64 JSON `data` blob.
+function resolveTransactionRef(params: Record<string, string>): string | null {
+  if (params.ref) return params.ref;
+  if (params.pidx) return params.pidx;
+  if (params.data) {
+    try {
+      const decoded = JSON.parse(
+        Buffer.from(params.data, "base64").toString("utf8"),
+      );
+      if (decoded?.transaction_uuid) {
+        Object.assign(params, decoded);
+        return String(decoded.transaction_uuid);
+      }
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+async function handleCallback(params: Record<string, string>) {
+  const transactionRef = resolveTransactionRef(params);
+  if (!transactionRef) return apiError("Missing transaction reference", 400);
+
+  const payment = await prisma.payment.findFirst({
+    where: { transactionRef },
+    include: { order: { select: { orderNumber: true, notes: true } } },
+  });
+  if (!payment) return apiError("Payment not found", 404);
+  if (payment.status !== "PENDING") {
+    return apiSuccess({
+      outcome: "ALREADY_PROCESSED",
+      status: payment.status,
+      orderNumber: payment.order.orderNumber,
+    });
+  }
+
+  const gateway = getPaymentGateway(String(payment.gateway || ""));
+  if (!gateway) return apiError("Payment gateway unavailable", 400);
+
+  // Never trust the redirect alone: ask the provider what actually happened.
+  const verified = await gateway.verify({
+    transactionRef,
+    amount: Number(payment.amount) + Number(payment.tipAmount || 0),
+    params,
+  });
+
+  if (verified.status === "FAILED") {
+    await failPendingPayment(payment.id);
+    return apiSuccess({
+      outcome: "FAILED",
+      status: "FAILED",
+      orderNumber: payment.order.orderNumber,
+    });
+  }
+  if (verified.status === "PENDING") {
+    return apiSuccess({
+      outcome: "PENDING",
+      status: "PENDING",
+      orderNumber: payment.order.orderNumber,
+    });
+  }
+
+  const confirmation = await confirmPendingPayment(
+    { paymentId: payment.id },
+    {
+      providerRef: verified.providerRef,
+      actorUserId: payment.receivedById,
+      chatSessionId: extractChatSessionId(payment.order.notes),
+    },
+  );
+  return apiSuccess({
+    outcome: confirmation.outcome,
+    status: "PAID",
+    orderNumber: payment.order.orderNumber,
+  });
+}
+
+// GET /api/payments/callback — Provider redirect after checkout
+export async function GET(req: NextRequest) {
+  try {
+    return await handleCallback(
+      Object.fromEntries(req.nextUrl.searchParams.entries()),
+    );
+  } catch (error) {
+    console.error("Payment callback error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
+
+// POST /api/payments/callback — Provider form-post or JSON notification
+export async function POST(req: NextRequest) {
+  try {
+    const contentType = req.headers.get("content-type") || "";
+    const params: Record<string, string> = Object.fromEntries(
+      req.nextUrl.searchParams.entries(),
+    );
+    if (contentType.includes("application/json")) {
+      const body = await req.json().catch(() => ({}));
+      for (const [key, value] of Object.entries(body || {})) {
+        params[key] = String(value);
+      }
+    } else {
+      const form = await req.formData().catch(() => null);
+      form?.forEach((value, key) => {
+        params[key] = String(value);
+      });
+    }
+    return await handleCallback(params);
+  } catch (error) {
+    console.error("Payment callback error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
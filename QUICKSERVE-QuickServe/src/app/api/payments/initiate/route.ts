@@ -0,0 +1,81 @@
+import { prisma } from "@/lib/db";
+import { apiError, apiSuccess } from "@/lib/tenant";
+import { canTransitionOrder } from "@/lib/orderStatus";
+import { outstandingBalance, PAYMENT_TOLERANCE } from "@/lib/billSplit";
+import { parseTenantSettings } from "@/lib/orderTotals";
+import { resolveTenantGateway } from "@/lib/paymentGateways";
+import { startGatewayCheckout } from "@/lib/paymentSettlement";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+const initiateSchema = z.object({
+  sessionId: z.string().uuid(),
+  tipAmount: z.number().min(0).max(100000).optional(),
+});
+
+// POST /api/payments/initiate — Start a gateway checkout from the chat widget
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const data = initiateSchema.parse(body);
+
+    const session = await prisma.chatSession.findUnique({
+      where: { id: data.sessionId },
+      include: { tenant: { select: { settings: true } } },
+    });
+    if (!session) return apiError("Session not found", 404);
+
+    // Guests can only pay for the order their own chat session placed.
+    const order = await prisma.order.findFirst({
+      where: {
+        tenantId: session.tenantId,
+        notes: { contains: `CHAT_SESSION:${session.id}` },
+        status: { notIn: ["PAID", "CANCELLED"] },
+      },
+      include: { payments: { select: { amount: true, status: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+    if (!order) return apiError("No open order for this session", 404);
+    if (!canTransitionOrder(order.status, "PAID")) {
+      return apiError("Order is not ready for payment yet", 409);
+    }
+
+    const outstanding = outstandingBalance(order, order.payments);
+    if (outstanding < PAYMENT_TOLERANCE) return apiError("Already paid", 400);
+
+    const gateway = resolveTenantGateway(
+      parseTenantSettings(session.tenant?.settings),
+    );
+    if (!gateway) return apiError("Online payment is not available", 400);
+
+    const { payment, checkout } = await startGatewayCheckout(gateway, {
+      tenantId: session.tenantId,
+      order,
+      amount: outstanding,
+      tipAmount: data.tipAmount || 0,
+      chatSessionId: session.id,
+      callbackUrl: `${req.nextUrl.origin}/api/payments/callback`,
+    });
+
+    return apiSuccess(
+      {
+        paymentId: payment.id,
+        gateway: gateway.id,
+        amount: outstanding + (data.tipAmount || 0),
+        transactionRef: checkout.transactionRef,
+        redirectUrl: checkout.redirectUrl || null,
+        qrPayload: checkout.qrPayload || null,
+        formFields: checkout.formFields || null,
+      },
+      201,
+    );
+  } catch (error: any) {
+    if (error.message === "CHECKOUT_IN_PROGRESS")
+      return apiError("Staff are already collecting this bill", 409);
+    if (error.message === "ORDER_CLOSED")
+      return apiError("This order is already closed", 409);
+    if (error.name === "ZodError") return apiError("Validation failed", 400);
+    console.error("Payment initiate error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
@@ -0,0 +1,221 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { EVENTS, tenantChannel, triggerPusher } from "@/lib/pusher";
+import { recordOrderEvent } from "@/lib/orderEvents";
+import {
+  derivePaymentStatus,
+  PAYMENT_TOLERANCE,
+  refundedQuantities,
+  splitByItems,
+} from "@/lib/billSplit";
+import { findOpenDrawer } from "@/lib/cashDrawer";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+const refundSchema = z.object({
+  paymentId: z.string().min(1),
+  reason: z.string().trim().min(3).max(200),
+  // Either an arbitrary amount, specific lines, or neither for a full refund.
+  amount: z.number().positive().optional(),
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().min(1),
+        quantity: z.number().int().min(1),
+      }),
+    )
+    .optional(),
+});
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// POST /api/payments/refund — Refund all or part of a PAID payment
+export async function POST(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const body = await req.json();
+    const data = refundSchema.parse(body);
+
+    if (data.amount !== undefined && data.items?.length) {
+      return apiError("Refund either an amount or line items, not both", 400);
+    }
+
+    const original = await prisma.payment.findFirst({
+      where: { id: data.paymentId, tenantId: session.tenantId },
+      include: {
+        order: {
+          include: {
+            items: true,
+            discounts: true,
+            payments: { select: { status: true, refundItems: true } },
+          },
+        },
+        refunds: { select: { amount: true } },
+      },
+    });
+
+    if (!original) return apiError("Payment not found", 404);
+    if (original.status !== "PAID" || Number(original.amount) <= 0) {
+      return apiError("Only completed payments can be refunded", 400);
+    }
+
+    // Refund rows are stored as negative amounts linked to the original.
+    const alreadyRefunded = original.refunds.reduce(
+      (sum, r) => sum + Math.abs(Number(r.amount)),
+      0,
+    );
+    const refundable = round2(Number(original.amount) - alreadyRefunded);
+    if (refundable < PAYMENT_TOLERANCE) {
+      return apiError("Payment has already been fully refunded", 400);
+    }
+
+    let refundAmount = refundable;
+    let refundedLines: { itemName: string; quantity: number }[] = [];
+    const selection: Record<string, number> = {};
+    if (data.items?.length) {
+      // A line can only be refunded as often as it was ordered, across every
+      // payment of the order.
+      const refunded = refundedQuantities(original.order.payments);
+      for (const line of data.items) {
+        const item = original.order.items.find(
+          (i) => i.id === line.orderItemId,
+        );
+        if (!item) return apiError("Order item not found", 404);
+        selection[line.orderItemId] =
+          (selection[line.orderItemId] || 0) + line.quantity;
+        const left = item.quantity - (refunded[item.id] || 0);
+        if (selection[line.orderItemId] > left) {
+          return apiError(
+            left > 0
+              ? `Only ${left} x ${item.itemName} left to refund`
+              : `${item.itemName} has already been refunded`,
+            400,
+          );
+        }
+      }
+      // Lines are refunded with their share of service charge and tax.
+      const split = splitByItems(original.order, selection, "Refund");
+      refundAmount = split.total;
+      refundedLines = split.lines.map((l) => ({
+        itemName: l.itemName,
+        quantity: l.quantity,
+      }));
+    } else if (data.amount !== undefined) {
+      refundAmount = round2(data.amount);
+    }
+
+    if (refundAmount - refundable > PAYMENT_TOLERANCE) {
+      return apiError(
+        `Refund exceeds refundable amount of Rs.${refundable.toFixed(2)}`,
+        400,
+      );
+    }
+
+    const { refund, order } = await prisma.$transaction(async (tx) => {
+      // Cash refunds leave the till, so they count against the open drawer.
+      const drawer =
+        original.method === "CASH"
+          ? await findOpenDrawer(tx, session.tenantId)
+          : null;
+      const refund = await tx.payment.create({
+        data: {
+          tenantId: session.tenantId,
+          orderId: original.orderId,
+          amount: -refundAmount,
+          method: original.method,
+          status: "REFUNDED",
+          paidAt: new Date(),
+          refundOfId: original.id,
+          refundReason: data.reason,
+          receivedById: session.userId,
+          cashDrawerSessionId: drawer?.id,
+          transactionRef: `REFUND-${original.transactionRef || original.id}-${Date.now()}`,
+          refundItems: JSON.stringify(
+            Object.entries(selection).map(([orderItemId, quantity]) => ({
+              orderItemId,
+              quantity,
+            })),
+          ),
+        },
+      });
+
+      // The refund row is written before the limits are checked again, so a
+      // concurrent refund waits on it and then sees it.
+      const order = await tx.order.findUniqueOrThrow({
+        where: { id: original.orderId },
+        include: {
+          payments: {
+            select: {
+              amount: true,
+              status: true,
+              refundOfId: true,
+              refundItems: true,
+            },
+          },
+        },
+      });
+      const refundedFromPayment = order.payments
+        .filter((p) => p.refundOfId === original.id)
+        .reduce((sum, p) => sum + Math.abs(Number(p.amount)), 0);
+      if (refundedFromPayment - Number(original.amount) > PAYMENT_TOLERANCE) {
+        throw new Error("REFUND_EXCEEDS_PAYMENT");
+      }
+      const refunded = refundedQuantities(order.payments);
+      if (
+        original.order.items.some(
+          (item) => (refunded[item.id] || 0) > item.quantity,
+        )
+      ) {
+        throw new Error("LINE_ALREADY_REFUNDED");
+      }
+      const paymentStatus = derivePaymentStatus(order, order.payments);
+
+      const updated = await tx.order.update({
+        where: { id: original.orderId },
+        data: { paymentStatus },
+        include: { items: true, table: true },
+      });
+
+      await recordOrderEvent(tx, {
+        tenantId: session.tenantId,
+        orderId: original.orderId,
+        type: "PAYMENT_REFUNDED",
+        actorUserId: session.userId,
+        oldValue: { paymentStatus: original.order.paymentStatus },
+        newValue: {
+          paymentId: refund.id,
+          refundOfId: original.id,
+          amount: refundAmount,
+          reason: data.reason,
+          paymentStatus,
+          ...(refundedLines.length > 0 ? { items: refundedLines } : {}),
+        },
+      });
+
+      return { refund, order: updated };
+    });
+
+    await triggerPusher(tenantChannel(session.tenantId), EVENTS.ORDER_UPDATED, {
+      order,
+    });
+
+    return apiSuccess(
+      {
+        refund,
+        paymentStatus: order.paymentStatus,
+        refundable: round2(refundable - refundAmount),
+      },
+      201,
+    );
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    if (error.message === "REFUND_EXCEEDS_PAYMENT")
+      return apiError("Payment has already been refunded meanwhile", 409);
+    if (error.message === "LINE_ALREADY_REFUNDED")
+      return apiError("These items have already been refunded meanwhile", 409);
+    if (error.name === "ZodError") return apiError("Validation failed", 400);
+    console.error("Refund error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
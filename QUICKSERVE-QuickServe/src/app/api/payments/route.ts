@@ -1,111 +1,251 @@
 import { prisma } from "@/lib/db";
 import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
 import { paymentSchema } from "@/lib/validations";
-import { EVENTS, tenantChannel, triggerPusher } from "@/lib/pusher";
+import {
+  canTransitionOrder,
+  describeInvalidTransition,
+  isTerminalOrderStatus,
+} from "@/lib/orderStatus";
+import { recordOrderEvent } from "@/lib/orderEvents";
+import { outstandingBalance, PAYMENT_TOLERANCE } from "@/lib/billSplit";
+import { parseTenantSettings } from "@/lib/orderTotals";
+import { findOpenDrawer } from "@/lib/cashDrawer";
+import { gatewayForCheckout } from "@/lib/paymentGateways";
+import {
+  announceOrderPayment,
+  confirmPendingPayment,
+  failPendingPayment,
+  heldByCheckouts,
+  reconcileOrderPayment,
+  startGatewayCheckout,
+} from "@/lib/paymentSettlement";
 import { NextRequest } from "next/server";
+import { z } from "zod";
 
-function extractChatSessionId(notes?: string | null): string | null {
-  if (!notes) return null;
-  const match = notes.match(/CHAT_SESSION:([a-f0-9-]{36})/i);
-  return match?.[1] || null;
-}
+const splitPaymentSchema = paymentSchema.extend({
+  splitLabel: z.string().trim().max(60).optional(),
+  // Gratuity on top of `amount`; never counted towards the order balance.
+  tipAmount: z.number().min(0).max(100000).optional(),
+  // Picks the provider for a QR checkout; it must be able to take the method.
+  gateway: z.string().trim().max(20).optional(),
+});
 
-// POST /api/payments — Create a payment record
+// POST /api/payments — Record cash or start a gateway checkout
 export async function POST(req: NextRequest) {
   try {
     const session = await requireRole("OWNER", "MANAGER", "STAFF");
     const body = await req.json();
-    const data = paymentSchema.parse(body);
+    const data = splitPaymentSchema.parse(body);
 
     // Verify order belongs to tenant
     const order = await prisma.order.findFirst({
       where: { id: data.orderId, tenantId: session.tenantId },
+      include: {
+        payments: { select: { amount: true, status: true } },
+        tenant: { select: { settings: true } },
+      },
     });
 
     if (!order) return apiError("Order not found", 404);
-    if (order.paymentStatus === "PAID") return apiError("Already paid", 400);
-    if (Math.abs(Number(order.total) - Number(data.amount)) > 0.01) {
-      return apiError("Payment amount must match outstanding order total", 400);
+    // Closed orders take no money at all, not even a partial split.
+    if (isTerminalOrderStatus(order.status)) {
+      return apiError(`Cannot take a payment on a ${order.status} order`, 409);
+    }
+
+    // Orders can be settled by several partial payments (split bills); only
+    // the PAID ones count towards the balance.
+    const outstanding = outstandingBalance(order, order.payments);
+    if (order.paymentStatus === "PAID" || outstanding < PAYMENT_TOLERANCE) {
+      return apiError("Already paid", 400);
+    }
+    if (Number(data.amount) - outstanding > PAYMENT_TOLERANCE) {
+      return apiError(
+        `Payment amount exceeds outstanding balance of Rs.${outstanding.toFixed(2)}`,
+        400,
+      );
+    }
+    const settlesOrder = outstanding - Number(data.amount) < PAYMENT_TOLERANCE;
+    if (
+      data.method === "CASH" &&
+      settlesOrder &&
+      !canTransitionOrder(order.status, "PAID", session.role)
+    ) {
+      return apiError(
+        describeInvalidTransition(order.status, "PAID", session.role),
+        409,
+      );
     }
 
-    const payment = await prisma.payment.create({
-      data: {
+    if (data.method !== "CASH") {
+      const gateway = gatewayForCheckout(
+        parseTenantSettings(order.tenant?.settings),
+        data.method,
+        data.gateway,
+      );
+      if (!gateway) {
+        return apiError(
+          data.gateway
+            ? `${data.gateway} cannot take ${data.method} payments`
+            : "No payment gateway configured for this method",
+          400,
+        );
+      }
+
+      const checkout = await startGatewayCheckout(gateway, {
         tenantId: session.tenantId,
-        orderId: data.orderId,
-        amount: data.amount,
-        method: data.method as any,
-        status: data.method === "CASH" ? "PAID" : "PENDING",
-        paidAt: data.method === "CASH" ? new Date() : undefined,
-        transactionRef:
-          data.method === "CASH" ? `CASH-${Date.now()}` : undefined,
-      },
-    });
+        order,
+        amount: Number(data.amount),
+        tipAmount: data.tipAmount || 0,
+        splitLabel: data.splitLabel,
+        receivedById: session.userId,
+        callbackUrl: `${req.nextUrl.origin}/api/payments/callback`,
+      });
+
+      return apiSuccess({ ...checkout, outstanding }, 201);
+    }
 
-    // If cash, auto-mark order as paid
-    if (data.method === "CASH") {
-      const updatedOrder = await prisma.order.update({
+    const { payment, result } = await prisma.$transaction(async (tx) => {
+      // Checked again here: another till or a QR checkout may have collected
+      // part of the balance since it was read above.
+      const current = await tx.order.findUniqueOrThrow({
         where: { id: data.orderId },
+        include: {
+          payments: {
+            select: {
+              amount: true,
+              status: true,
+              gateway: true,
+              receivedById: true,
+              createdAt: true,
+            },
+          },
+        },
+      });
+      if (isTerminalOrderStatus(current.status)) {
+        throw new Error("ORDER_CLOSED");
+      }
+      const held = heldByCheckouts(current.payments);
+      const available = outstandingBalance(current, current.payments) - held;
+      if (Number(data.amount) - available > PAYMENT_TOLERANCE) {
+        throw new Error(held > 0 ? "CHECKOUT_IN_PROGRESS" : "BALANCE_CHANGED");
+      }
+
+      const drawer = await findOpenDrawer(tx, session.tenantId);
+      const created = await tx.payment.create({
         data: {
-          paymentStatus: "PAID",
+          tenantId: session.tenantId,
+          orderId: data.orderId,
+          amount: data.amount,
+          method: data.method as any,
           status: "PAID",
-          completedAt: new Date(),
+          paidAt: new Date(),
+          transactionRef: `CASH-${Date.now()}`,
+          splitLabel: data.splitLabel,
+          tipAmount: data.tipAmount || 0,
+          receivedById: session.userId,
+          cashDrawerSessionId: drawer?.id,
         },
-        include: {
-          items: true,
-          table: true,
+      });
+      await recordOrderEvent(tx, {
+        tenantId: session.tenantId,
+        orderId: data.orderId,
+        type: "PAYMENT_RECORDED",
+        actorUserId: session.userId,
+        newValue: {
+          paymentId: created.id,
+          amount: Number(created.amount),
+          method: created.method,
+          status: created.status,
+          splitLabel: created.splitLabel,
+          tipAmount: Number(created.tipAmount),
         },
       });
+      const reconciled = await reconcileOrderPayment(
+        tx,
+        session.tenantId,
+        data.orderId,
+        { actorUserId: session.userId },
+      );
+      return { payment: created, result: reconciled };
+    });
 
-      // Free up table
-      if (order.tableId) {
-        const otherActive = await prisma.order.count({
-          where: {
-            tableId: order.tableId,
-            status: { notIn: ["PAID", "CANCELLED"] },
-            id: { not: order.id },
-          },
-        });
-        if (otherActive === 0) {
-          await prisma.table.update({
-            where: { id: order.tableId },
-            data: { status: "AVAILABLE" },
-          });
-        }
-      }
-
-      // Notify linked chat session and close session on payment confirmation.
-      const chatSessionId = extractChatSessionId(order.notes);
-      if (chatSessionId) {
-        await prisma.chatMessage.create({
-          data: {
-            sessionId: chatSessionId,
-            sender: "BOT",
-            content: `Payment confirmed for ${updatedOrder.orderNumber}. Smooth move, chef’s kiss service complete. ✅`,
-            metadata: JSON.stringify({
-              action: "ORDER_PAID",
-              orderNumber: updatedOrder.orderNumber,
-            }),
-          },
-        });
-        await prisma.chatSession.update({
-          where: { id: chatSessionId },
-          data: { state: "COMPLETED", cart: "[]" },
-        });
-      }
+    await announceOrderPayment(session.tenantId, result);
 
-      await triggerPusher(
-        tenantChannel(session.tenantId),
-        EVENTS.ORDER_STATUS_CHANGED,
-        { order: updatedOrder },
+    return apiSuccess({ ...payment, outstanding: result.outstanding }, 201);
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    if (error.message === "CHECKOUT_IN_PROGRESS")
+      return apiError(
+        "Another checkout is already collecting this balance. Wait for it to finish.",
+        409,
       );
+    if (error.message === "ORDER_CLOSED")
+      return apiError("This order is already closed", 409);
+    if (error.message === "BALANCE_CHANGED")
+      return apiError(
+        "The balance changed while recording this payment. Check the bill and try again.",
+        409,
+      );
+    if (error.name === "ZodError") return apiError("Validation failed", 400);
+    console.error("Payment error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
+
+const reviewClaimSchema = z.object({
+  paymentId: z.string().min(1),
+  action: z.enum(["CONFIRM", "REJECT"]),
+});
+
+// PATCH /api/payments — Confirm or reject a payment a chat guest reported
+export async function PATCH(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER", "STAFF");
+    const data = reviewClaimSchema.parse(await req.json());
+
+    // Gateway checkouts are settled by their provider, never by hand.
+    const payment = await prisma.payment.findFirst({
+      where: {
+        id: data.paymentId,
+        tenantId: session.tenantId,
+        status: "PENDING",
+        gateway: null,
+      },
+    });
+    if (!payment) return apiError("Pending payment not found", 404);
+
+    if (data.action === "REJECT") {
+      if (!(await failPendingPayment(payment.id))) {
+        return apiError("Payment was already processed", 409);
+      }
+      await recordOrderEvent(prisma, {
+        tenantId: session.tenantId,
+        orderId: payment.orderId,
+        type: "PAYMENT_RECORDED",
+        actorUserId: session.userId,
+        oldValue: { paymentId: payment.id, status: "PENDING" },
+        newValue: { paymentId: payment.id, status: "FAILED" },
+      });
+      return apiSuccess({ ...payment, status: "FAILED" });
     }
 
-    return apiSuccess(payment, 201);
+    const confirmation = await confirmPendingPayment(
+      { paymentId: payment.id },
+      { actorUserId: session.userId },
+    );
+    if (confirmation.outcome !== "CONFIRMED") {
+      return apiError("Payment was already processed", 409);
+    }
+    return apiSuccess({
+      ...confirmation.payment,
+      outstanding: confirmation.result.outstanding,
+    });
   } catch (error: any) {
     if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
     if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
     if (error.name === "ZodError") return apiError("Validation failed", 400);
-    console.error("Payment error:", error);
+    console.error("Payment review error:", error);
     return apiError("Internal server error", 500);
   }
 }
@@ -125,6 +265,18 @@ export async function GET(req: NextRequest) {
       include: { order: { select: { orderNumber: true, total: true } } },
     });
 
+    if (orderId) {
+      const order = await prisma.order.findFirst({
+        where: { id: orderId, tenantId: session.tenantId },
+        select: { total: true, status: true },
+      });
+      if (!order) return apiError("Order not found", 404);
+      return apiSuccess({
+        payments,
+        outstanding: outstandingBalance(order, payments),
+      });
+    }
+
     return apiSuccess({ payments });
   } catch (error: any) {
     if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
@@ -0,0 +1,220 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { PAYMENT_TOLERANCE } from "@/lib/billSplit";
+import { recordOrderEvent } from "@/lib/orderEvents";
+import { triggerPusher, EVENTS, tenantChannel } from "@/lib/pusher";
+import { parseTenantSettings } from "@/lib/orderTotals";
+import { resolveTenantGateway } from "@/lib/paymentGateways";
+import {
+  confirmPendingPayment,
+  extractChatSessionId,
+  failPendingPayment,
+} from "@/lib/paymentSettlement";
+import {
+  recordWebhookDelivery,
+  verifyWebhookSignature,
+  wasWebhookProcessed,
+  WEBHOOK_SIGNATURE_HEADER,
+} from "@/lib/paymentWebhooks";
+import { NextRequest } from "next/server";
+
+// POST /api/payments/webhook?tenant=<slug>[&gateway=<id>] — Provider notification
+export async function POST(req: NextRequest) {
+  const rawBody = await req.text();
+  const tenantSlug = req.nextUrl.searchParams.get("tenant");
+  const requestedGateway = req.nextUrl.searchParams.get("gateway");
+  let tenantId: string | null = null;
+  let gatewayId: string | null = requestedGateway;
+  let transactionRef: string | null = null;
+
+  // Providers retry on non-2xx, so rejections answer 4xx (retrying won't
+  // help) and only unexpected failures answer 5xx.
+  const reject = async (reason: string, status: number) => {
+    await recordWebhookDelivery({
+      tenantId,
+      gateway: gatewayId,
+      transactionRef,
+      outcome: "REJECTED",
+      reason,
+      payload: rawBody,
+    }).catch((error) => console.error("Webhook delivery log error:", error));
+    return apiError(reason, status);
+  };
+
+  try {
+    if (!tenantSlug) return await reject("Missing tenant", 400);
+    const tenant = await prisma.tenant.findUnique({
+      where: { slug: tenantSlug },
+      select: { id: true, settings: true },
+    });
+    if (!tenant) return await reject("Unknown tenant", 404);
+    tenantId = tenant.id;
+
+    const settings = parseTenantSettings(tenant.settings);
+    const secret = String(settings.paymentWebhookSecret || "");
+    if (!secret) return await reject("Webhook secret not configured", 403);
+    if (
+      !verifyWebhookSignature(
+        secret,
+        rawBody,
+        req.headers.get(WEBHOOK_SIGNATURE_HEADER),
+      )
+    ) {
+      return await reject("Invalid signature", 401);
+    }
+
+    const gateway = resolveTenantGateway(settings, requestedGateway);
+    if (!gateway) return await reject("Payment gateway unavailable", 400);
+    gatewayId = gateway.id;
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return await reject("Malformed JSON body", 400);
+    }
+    const event = gateway.parseWebhook(body);
+    if (!event) return await reject("Unrecognised payload", 400);
+    transactionRef = event.transactionRef;
+
+    const payment = await prisma.payment.findFirst({
+      where: { tenantId: tenant.id, transactionRef: event.transactionRef },
+      include: { order: { select: { notes: true } } },
+    });
+    if (!payment) return await reject("Payment not found", 404);
+
+    const expected = Number(payment.amount) + Number(payment.tipAmount || 0);
+    if (
+      event.amount !== undefined &&
+      Math.abs(event.amount - expected) > PAYMENT_TOLERANCE
+    ) {
+      return await reject(
+        `Amount mismatch: expected ${expected.toFixed(2)}, got ${event.amount.toFixed(2)}`,
+        400,
+      );
+    }
+
+    // A settled payment and a notification that contradicts it (PAID for a
+    // FAILED checkout, or the reverse) is not a replay: log it as a conflict
+    // on the order so staff can check with the provider.
+    const conflict = async (settledStatus: string) => {
+      const reason = `Provider reported ${event.status} for a ${settledStatus} payment`;
+      await recordWebhookDelivery({
+        tenantId,
+        gateway: gatewayId,
+        transactionRef,
+        outcome: "CONFLICT",
+        reason,
+        payload: rawBody,
+      });
+      await recordOrderEvent(prisma, {
+        tenantId: tenant.id,
+        orderId: payment.orderId,
+        type: "PAYMENT_RECORDED",
+        oldValue: { paymentId: payment.id, status: settledStatus },
+        newValue: {
+          paymentId: payment.id,
+          amount: Number(payment.amount),
+          method: payment.method,
+          status: "CONFLICT",
+          conflict: reason,
+          providerRef: event.providerRef || null,
+        },
+      });
+      const order = await prisma.order.findUnique({
+        where: { id: payment.orderId },
+        include: { items: true, table: true },
+      });
+      await triggerPusher(tenantChannel(tenant.id), EVENTS.ORDER_UPDATED, {
+        order,
+      });
+      return apiSuccess({ outcome: "CONFLICT", status: settledStatus });
+    };
+    const settledDifferently =
+      event.status !== "PENDING" &&
+      ["PAID", "FAILED"].includes(payment.status) &&
+      payment.status !== event.status;
+    if (settledDifferently) return await conflict(payment.status);
+
+    if (await wasWebhookProcessed(tenant.id, event.transactionRef)) {
+      await recordWebhookDelivery({
+        tenantId,
+        gateway: gatewayId,
+        transactionRef,
+        outcome: "DUPLICATE",
+        payload: rawBody,
+      });
+      return apiSuccess({ outcome: "DUPLICATE" });
+    }
+
+    if (event.status === "PENDING") {
+      return apiSuccess({ outcome: "PENDING" });
+    }
+
+    if (event.status === "FAILED") {
+      await failPendingPayment(payment.id);
+    } else {
+      const confirmation = await confirmPendingPayment(
+        { paymentId: payment.id },
+        {
+          providerRef: event.providerRef,
+          chatSessionId: extractChatSessionId(payment.order.notes),
+        },
+      );
+      if (confirmation.outcome === "ALREADY_PROCESSED") {
+        // Settled between the check above and the update; re-read it.
+        const current = await prisma.payment.findUnique({
+          where: { id: payment.id },
+          select: { status: true },
+        });
+        if (current && current.status !== "PAID") {
+          return await conflict(current.status);
+        }
+        await recordWebhookDelivery({
+          tenantId,
+          gateway: gatewayId,
+          transactionRef,
+          outcome: "DUPLICATE",
+          payload: rawBody,
+        });
+        return apiSuccess({ outcome: "DUPLICATE" });
+      }
+    }
+
+    await recordWebhookDelivery({
+      tenantId,
+      gateway: gatewayId,
+      transactionRef,
+      outcome: "PROCESSED",
+      reason: event.status === "FAILED" ? "Provider reported failure" : null,
+      payload: rawBody,
+    });
+    return apiSuccess({ outcome: "PROCESSED", status: event.status });
+  } catch (error) {
+    console.error("Payment webhook error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
+
+// GET /api/payments/webhook — Recent deliveries for inspection
+export async function GET(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const outcome = req.nextUrl.searchParams.get("outcome");
+
+    const where: any = { tenantId: session.tenantId };
+    if (outcome) where.outcome = outcome.toUpperCase();
+
+    const deliveries = await prisma.paymentWebhookDelivery.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      take: 100,
+    });
+
+    return apiSuccess({ deliveries });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    return apiError("Internal server error", 500);
+  }
+}
@@ -0,0 +1,86 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { serializeMenuSchedule } from "@/lib/menuSchedule";
+import {
+  presentPriceRule,
+  priceRuleFieldsSchema,
+  priceRuleSchema,
+  priceRuleTargetsExist,
+} from "@/lib/priceRules";
+import { NextRequest } from "next/server";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Orders keep the rule name they were priced with, so editing or deleting a
+// rule never rewrites past sales.
+
+function handleError(error: any, label: string) {
+  if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+  if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+  if (error.code === "P2002")
+    return apiError("A price rule with that name already exists", 409);
+  if (error.name === "ZodError") return apiError("Validation failed", 400);
+  console.error(`${label} error:`, error);
+  return apiError("Internal server error", 500);
+}
+
+// PATCH /api/price-rules/{id} — Edit, pause or reschedule a price rule
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { id } = await params;
+    const patch = priceRuleFieldsSchema.partial().parse(await req.json());
+
+    const existing = await prisma.priceRule.findFirst({
+      where: { id, tenantId: session.tenantId },
+    });
+    if (!existing) return apiError("Price rule not found", 404);
+
+    // Cross-field checks run on the rule as it will be saved.
+    const data = priceRuleSchema.parse({
+      ...presentPriceRule(existing),
+      value: Number(existing.value),
+      ...patch,
+    });
+    if (!(await priceRuleTargetsExist(prisma, session.tenantId, data))) {
+      return apiError("Some items or categories not found", 400);
+    }
+
+    const rule = await prisma.priceRule.update({
+      where: { id },
+      data: {
+        name: data.name,
+        valueType: data.valueType,
+        value: data.value,
+        itemIds: JSON.stringify(data.itemIds),
+        categoryIds: JSON.stringify(data.categoryIds),
+        schedule: serializeMenuSchedule(data.schedule) ?? null,
+        startsAt: data.startsAt ?? null,
+        endsAt: data.endsAt ?? null,
+        isActive: data.isActive ?? existing.isActive,
+      },
+    });
+
+    return apiSuccess(presentPriceRule(rule));
+  } catch (error: any) {
+    return handleError(error, "Price rule update");
+  }
+}
+
+// DELETE /api/price-rules/{id} — Remove a price rule
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { id } = await params;
+
+    const existing = await prisma.priceRule.findFirst({
+      where: { id, tenantId: session.tenantId },
+    });
+    if (!existing) return apiError("Price rule not found", 404);
+
+    await prisma.priceRule.delete({ where: { id } });
+    return apiSuccess({ deleted: id });
+  } catch (error: any) {
+    return handleError(error, "Price rule delete");
+  }
+}
@@ -0,0 +1,63 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { serializeMenuSchedule } from "@/lib/menuSchedule";
+import {
+  presentPriceRule,
+  priceRuleSchema,
+  priceRuleTargetsExist,
+} from "@/lib/priceRules";
+import { NextRequest } from "next/server";
+
+// GET /api/price-rules — List the tenant's price rules
+export async function GET() {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const rules = await prisma.priceRule.findMany({
+      where: { tenantId: session.tenantId },
+      orderBy: { createdAt: "desc" },
+    });
+    return apiSuccess({ priceRules: rules.map(presentPriceRule) });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    return apiError("Internal server error", 500);
+  }
+}
+
+// POST /api/price-rules — Create a happy hour or scheduled price rule
+export async function POST(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const data = priceRuleSchema.parse(await req.json());
+
+    if (!(await priceRuleTargetsExist(prisma, session.tenantId, data))) {
+      return apiError("Some items or categories not found", 400);
+    }
+
+    const rule = await prisma.priceRule.create({
+      data: {
+        tenantId: session.tenantId,
+        name: data.name,
+        valueType: data.valueType,
+        value: data.value,
+        itemIds: JSON.stringify(data.itemIds),
+        categoryIds: JSON.stringify(data.categoryIds),
+        schedule: serializeMenuSchedule(data.schedule) ?? null,
+        startsAt: data.startsAt ?? null,
+        endsAt: data.endsAt ?? null,
+        isActive: data.isActive ?? true,
+        createdById: session.userId,
+      },
+    });
+
+    return apiSuccess(presentPriceRule(rule), 201);
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    if (error.code === "P2002")
+      return apiError("A price rule with that name already exists", 409);
+    if (error.name === "ZodError") return apiError("Validation failed", 400);
+    console.error("Price rule create error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
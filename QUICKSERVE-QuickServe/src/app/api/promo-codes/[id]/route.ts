@@ -0,0 +1,42 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+// Code and value are fixed once created so redeemed orders stay explainable;
+// only availability can change.
+const updatePromoCodeSchema = z.object({
+  isActive: z.boolean().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  maxUses: z.number().int().positive().nullable().optional(),
+});
+
+// PATCH /api/promo-codes/{id} — Pause, extend or cap a promo code
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const { id } = await params;
+    const data = updatePromoCodeSchema.parse(await req.json());
+
+    const existing = await prisma.promoCode.findFirst({
+      where: { id, tenantId: session.tenantId },
+    });
+    if (!existing) return apiError("Promo code not found", 404);
+
+    const promoCode = await prisma.promoCode.update({
+      where: { id },
+      data,
+    });
+
+    return apiSuccess(promoCode);
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    if (error.name === "ZodError") return apiError("Validation failed", 400);
+    console.error("Promo code update error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
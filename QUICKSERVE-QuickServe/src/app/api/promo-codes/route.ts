@@ -0,0 +1,79 @@
+import { prisma } from "@/lib/db";
+import { requireRole, apiError, apiSuccess } from "@/lib/tenant";
+import { normalizePromoCode } from "@/lib/discounts";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+const promoCodeSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .min(3)
+      .max(40)
+      .regex(/^[A-Za-z0-9_-]+$/, "Letters, numbers, - and _ only"),
+    valueType: z.enum(["PERCENT", "FIXED"]),
+    value: z.number().positive().max(1000000),
+    startsAt: z.coerce.date().nullable().optional(),
+    endsAt: z.coerce.date().nullable().optional(),
+    maxUses: z.number().int().positive().nullable().optional(),
+    minSubtotal: z.number().min(0).nullable().optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((d) => d.valueType !== "PERCENT" || d.value <= 100, {
+    message: "Percentage cannot exceed 100",
+    path: ["value"],
+  })
+  .refine((d) => !d.startsAt || !d.endsAt || d.startsAt < d.endsAt, {
+    message: "Promo must end after it starts",
+    path: ["endsAt"],
+  });
+
+// GET /api/promo-codes — List the tenant's promo codes
+export async function GET() {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const promoCodes = await prisma.promoCode.findMany({
+      where: { tenantId: session.tenantId },
+      orderBy: { createdAt: "desc" },
+    });
+    return apiSuccess({ promoCodes });
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    return apiError("Internal server error", 500);
+  }
+}
+
+// POST /api/promo-codes — Create a promo code
+export async function POST(req: NextRequest) {
+  try {
+    const session = await requireRole("OWNER", "MANAGER");
+    const data = promoCodeSchema.parse(await req.json());
+
+    const promoCode = await prisma.promoCode.create({
+      data: {
+        tenantId: session.tenantId,
+        code: normalizePromoCode(data.code),
+        valueType: data.valueType,
+        value: data.value,
+        startsAt: data.startsAt ?? null,
+        endsAt: data.endsAt ?? null,
+        maxUses: data.maxUses ?? null,
+        minSubtotal: data.minSubtotal ?? null,
+        isActive: data.isActive ?? true,
+        createdById: session.userId,
+      },
+    });
+
+    return apiSuccess(promoCode, 201);
+  } catch (error: any) {
+    if (error.message === "UNAUTHORIZED") return apiError("Unauthorized", 401);
+    if (error.message === "FORBIDDEN") return apiError("Forbidden", 403);
+    if (error.code === "P2002")
+      return apiError("A promo code with that name already exists", 409);
+    if (error.name === "ZodError") return apiError("Validation failed", 400);
+    console.error("Promo code create error:", error);
+    return apiError("Internal server error", 500);
+  }
+}
@@ -0,0 +1,282 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSession } from "next-auth/react";
+import ZReportModal from "@/components/cashDrawer/ZReportModal";
+
+async function postJson(url: string, payload: Record<string, any>) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || "Cash drawer request failed");
+  }
+  return res.json();
+}
+
+export default function CashDrawerPanel({
+  restaurantName,
+}: {
+  restaurantName?: string;
+}) {
+  const queryClient = useQueryClient();
+  const { data: authSession } = useSession();
+  const isManager = ["OWNER", "MANAGER"].includes(
+    authSession?.user?.role || "",
+  );
+  const [floatInput, setFloatInput] = useState("");
+  const [movementType, setMovementType] = useState<"PAY_IN" | "PAY_OUT">(
+    "PAY_OUT",
+  );
+  const [movementAmount, setMovementAmount] = useState("");
+  const [movementReason, setMovementReason] = useState("");
+  const [countedInput, setCountedInput] = useState("");
+  const [report, setReport] = useState<any>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["cash-drawer"],
+    queryFn: async () => {
+      const res = await fetch("/api/cash-drawer");
+      if (!res.ok) throw new Error("Failed to fetch cash drawer");
+      return res.json();
+    },
+    refetchInterval: 15000,
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ["cash-drawer"] });
+
+  const openDrawer = useMutation({
+    mutationFn: () =>
+      postJson("/api/cash-drawer", { openingFloat: Number(floatInput) || 0 }),
+    onSuccess: () => {
+      setFloatInput("");
+      invalidate();
+    },
+  });
+
+  const recordMovement = useMutation({
+    mutationFn: (drawerId: string) =>
+      postJson(`/api/cash-drawer/${drawerId}/movements`, {
+        type: movementType,
+        amount: Number(movementAmount),
+        reason: movementReason,
+      }),
+    onSuccess: () => {
+      setMovementAmount("");
+      setMovementReason("");
+      invalidate();
+    },
+  });
+
+  const closeDrawer = useMutation({
+    mutationFn: (drawerId: string) =>
+      postJson(`/api/cash-drawer/${drawerId}/close`, {
+        countedCash: Number(countedInput),
+      }),
+    onSuccess: (closed) => {
+      setCountedInput("");
+      setReport(closed);
+      invalidate();
+    },
+  });
+
+  const viewReport = useMutation({
+    mutationFn: async (drawerId: string) => {
+      const res = await fetch(`/api/cash-drawer/${drawerId}/report`);
+      if (!res.ok) throw new Error("Failed to load Z report");
+      return res.json();
+    },
+    onSuccess: (loaded) => setReport(loaded),
+  });
+
+  const current = data?.current;
+  const recent: any[] = data?.recent || [];
+  const error =
+    openDrawer.error?.message ||
+    recordMovement.error?.message ||
+    closeDrawer.error?.message ||
+    viewReport.error?.message;
+
+  return (
+    <div className="bg-slate-900/70 border border-slate-700 rounded-[1.5rem] p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold uppercase tracking-wider text-sm">
+          Cash Drawer
+        </h3>
+        {current ? (
+          <span className="text-[10px] font-black uppercase tracking-widest text-emerald-300">
+            Open since {format(new Date(current.drawer.openedAt), "HH:mm")}
+          </span>
+        ) : null}
+      </div>
+
+      {error ? <p className="text-xs text-red-400">{error}</p> : null}
+
+      {isLoading ? (
+        <p className="text-sm text-slate-400">Loading drawer...</p>
+      ) : !current ? (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            className="input bg-slate-950 border-slate-700 sm:max-w-[12rem]"
+            type="number"
+            min={0}
+            placeholder="Opening float (Rs.)"
+            value={floatInput}
+            onChange={(e) => setFloatInput(e.target.value)}
+          />
+          <button
+            className="btn-primary"
+            disabled={openDrawer.isPending}
+            onClick={() => openDrawer.mutate()}
+          >
+            {openDrawer.isPending ? "Opening..." : "Open Drawer"}
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+            <div className="bg-slate-950 border border-slate-700 rounded-xl p-3">
+              <p className="text-[10px] text-slate-400 uppercase font-black">
+                Float
+              </p>
+              <p className="font-black">
+                Rs. {current.cash.openingFloat.toLocaleString()}
+              </p>
+            </div>
+            <div className="bg-slate-950 border border-slate-700 rounded-xl p-3">
+              <p className="text-[10px] text-slate-400 uppercase font-black">
+                Cash Sales
+              </p>
+              <p className="font-black">
+                Rs. {current.cash.sales.toLocaleString()}
+              </p>
+            </div>
+            <div className="bg-slate-950 border border-slate-700 rounded-xl p-3">
+              <p className="text-[10px] text-slate-400 uppercase font-black">
+                In / Out
+              </p>
+              <p className="font-black">
+                +{current.cash.payIns.toLocaleString()} / -
+                {current.cash.payOuts.toLocaleString()}
+              </p>
+            </div>
+            <div className="bg-slate-950 border border-slate-700 rounded-xl p-3">
+              <p className="text-[10px] text-slate-400 uppercase font-black">
+                Expected in Till
+              </p>
+              <p className="font-black text-emerald-400">
+                Rs. {current.cash.expected.toLocaleString()}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex flex-col md:flex-row gap-2">
+            <select
+              className="input bg-slate-950 border-slate-700 md:max-w-[8rem]"
+              value={movementType}
+              onChange={(e) =>
+                setMovementType(e.target.value as "PAY_IN" | "PAY_OUT")
+              }
+            >
+              <option value="PAY_OUT">Pay-out</option>
+              <option value="PAY_IN">Pay-in</option>
+            </select>
+            <input
+              className="input bg-slate-950 border-slate-700 md:max-w-[8rem]"
+              type="number"
+              min={0}
+              placeholder="Amount"
+              value={movementAmount}
+              onChange={(e) => setMovementAmount(e.target.value)}
+            />
+            <input
+              className="input bg-slate-950 border-slate-700"
+              placeholder="Reason (e.g. vegetables, change top-up)"
+              value={movementReason}
+              onChange={(e) => setMovementReason(e.target.value)}
+            />
+            <button
+              className="btn-ghost bg-slate-800 border-slate-700"
+              disabled={
+                recordMovement.isPending ||
+                !(Number(movementAmount) > 0) ||
+                movementReason.trim().length < 3
+              }
+              onClick={() => recordMovement.mutate(current.drawer.id)}
+            >
+              Record
+            </button>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              className="input bg-slate-950 border-slate-700 sm:max-w-[12rem]"
+              type="number"
+              min={0}
+              placeholder="Counted cash (Rs.)"
+              value={countedInput}
+              onChange={(e) => setCountedInput(e.target.value)}
+            />
+            <button
+              className="btn-accent"
+              disabled={closeDrawer.isPending || countedInput === ""}
+              onClick={() => closeDrawer.mutate(current.drawer.id)}
+            >
+              {closeDrawer.isPending ? "Closing..." : "Close & Z Report"}
+            </button>
+            <button
+              className="btn-ghost bg-slate-800 border-slate-700"
+              onClick={() => setReport(current)}
+            >
+              X Report
+            </button>
+          </div>
+        </>
+      )}
+
+      {isManager && recent.length > 0 ? (
+        <div className="space-y-1">
+          <p className="text-[10px] text-slate-400 uppercase font-black tracking-widest">
+            Recent Closes
+          </p>
+          {recent.map((drawer) => (
+            <button
+              key={drawer.id}
+              className="w-full flex justify-between text-xs bg-slate-950 border border-slate-700 rounded-lg px-3 py-2"
+              onClick={() => viewReport.mutate(drawer.id)}
+            >
+              <span>
+                {format(new Date(drawer.openedAt), "dd/MM HH:mm")} –{" "}
+                {format(new Date(drawer.closedAt), "HH:mm")}
+              </span>
+              <span
+                className={
+                  Number(drawer.variance) < 0
+                    ? "text-red-400"
+                    : "text-emerald-400"
+                }
+              >
+                {Number(drawer.variance) < 0 ? "Short" : "Over"} Rs.
+                {Math.abs(Number(drawer.variance || 0)).toFixed(2)}
+              </span>
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      {report ? (
+        <ZReportModal
+          report={report}
+          restaurantName={restaurantName}
+          onClose={() => setReport(null)}
+        />
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { useRef } from "react";
+import { format } from "date-fns";
+import { useReactToPrint } from "react-to-print";
+
+interface ZReportModalProps {
+  report: any;
+  restaurantName?: string;
+  onClose: () => void;
+}
+
+const money = (value: number | null | undefined) =>
+  `Rs. ${Number(value || 0).toFixed(2)}`;
+
+export default function ZReportModal({
+  report,
+  restaurantName,
+  onClose,
+}: ZReportModalProps) {
+  const componentRef = useRef<HTMLDivElement>(null);
+  const handlePrint = useReactToPrint({
+    contentRef: componentRef,
+    pageStyle: `
+      @page { size: 80mm auto; margin: 0; }
+      body { margin: 0; padding: 10px; font-family: monospace; }
+      @media print { .no-print { display: none; } }
+    `,
+  });
+
+  const { drawer, cash } = report;
+  const variance = cash.variance;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white text-black rounded-lg w-full max-w-sm max-h-[90vh] overflow-y-auto">
+        <div ref={componentRef} className="p-4 font-mono text-xs space-y-3">
+          <div className="text-center">
+            <p className="font-bold text-sm">
+              {restaurantName || "QuickServe"}
+            </p>
+            <p className="font-bold">
+              {drawer.status === "CLOSED" ? "Z REPORT" : "X REPORT (OPEN)"}
+            </p>
+            <p>
+              {format(new Date(report.window.from), "dd/MM/yyyy HH:mm")} –{" "}
+              {format(new Date(report.window.to), "dd/MM/yyyy HH:mm")}
+            </p>
+            <p>Orders paid: {report.orderCount}</p>
+          </div>
+
+          <div className="border-t border-dashed border-gray-400 pt-2">
+            <p className="font-bold">SALES BY METHOD</p>
+            {report.salesByMethod.length === 0 ? (
+              <p>No sales</p>
+            ) : (
+              report.salesByMethod.map((row: any) => (
+                <div key={row.method} className="flex justify-between">
+                  <span>
+                    {row.method} ×{row.count}
+                  </span>
+                  <span>{money(row.total)}</span>
+                </div>
+              ))
+            )}
+            <div className="flex justify-between font-bold">
+              <span>Gross</span>
+              <span>{money(report.grossSales)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Refunds</span>
+              <span>-{money(report.refunds.total)}</span>
+            </div>
+            <div className="flex justify-between font-bold">
+              <span>Net</span>
+              <span>{money(report.netSales)}</span>
+            </div>
+            {report.discounts.byKind.map((row: any) => (
+              <div key={row.kind} className="flex justify-between">
+                <span>
+                  {row.kind === "COMP"
+                    ? "Comps"
+                    : row.kind === "PROMO"
+                      ? "Promos"
+                      : "Discounts"}{" "}
+                  ×{row.count}
+                </span>
+                <span>{money(row.total)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between">
+              <span>Tips (not in sales)</span>
+              <span>{money(report.tips)}</span>
+            </div>
+          </div>
+
+          <div className="border-t border-dashed border-gray-400 pt-2">
+            <p className="font-bold">CASH DRAWER</p>
+            <div className="flex justify-between">
+              <span>Opening float</span>
+              <span>{money(cash.openingFloat)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Cash sales</span>
+              <span>{money(cash.sales)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Cash tips</span>
+              <span>{money(cash.tips)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Pay-ins</span>
+              <span>{money(cash.payIns)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Pay-outs</span>
+              <span>-{money(cash.payOuts)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Cash refunds</span>
+              <span>-{money(cash.refunds)}</span>
+            </div>
+            <div className="flex justify-between font-bold">
+              <span>Expected</span>
+              <span>{money(cash.expected)}</span>
+            </div>
+            {cash.counted !== null && (
+              <>
+                <div className="flex justify-between">
+                  <span>Counted</span>
+                  <span>{money(cash.counted)}</span>
+                </div>
+                <div className="flex justify-between font-bold">
+                  <span>{variance < 0 ? "Short" : "Over"}</span>
+                  <span>{money(Math.abs(variance))}</span>
+                </div>
+              </>
+            )}
+          </div>
+
+          {report.movements.length > 0 && (
+            <div className="border-t border-dashed border-gray-400 pt-2">
+              <p className="font-bold">PAY-INS / PAY-OUTS</p>
+              {report.movements.map((m: any) => (
+                <div key={m.id} className="flex justify-between gap-2">
+                  <span className="truncate">
+                    {format(new Date(m.createdAt), "HH:mm")}{" "}
+                    {m.type === "PAY_IN" ? "IN" : "OUT"} {m.reason}
+                  </span>
+                  <span>
+                    {m.type === "PAY_OUT" ? "-" : ""}
+                    {money(Number(m.amount))}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-3 bg-gray-100 flex gap-2 no-print border-t border-gray-300">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 text-sm font-bold text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handlePrint}
+            className="flex-1 px-4 py-2 text-sm font-bold text-white bg-black rounded hover:bg-gray-800 transition-colors flex items-center justify-center gap-2"
+          >
+            <span>🖨️</span> Print Report
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
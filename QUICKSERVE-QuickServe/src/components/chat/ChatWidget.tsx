@@ -13,6 +13,28 @@ import {
   QrCode,
   CheckCircle2,
 } from "lucide-react";
+import {
+  formatModifiers,
+  modifierSignature,
+  parseModifierGroups,
+  parseOrderItemModifiers,
+  type SelectedModifier,
+} from "@/lib/modifiers";
+import {
+  DIETARY_FILTERS,
+  dietaryLabels,
+  matchesDietaryFilters,
+  parseDietaryTags,
+  type DietaryFilterId,
+} from "@/lib/dietary";
+import { comboChoiceGroups } from "@/lib/combos";
+import {
+  localizedMenuText,
+  MENU_LOCALE_LABELS,
+  MENU_LOCALES,
+  type MenuLocale,
+} from "@/lib/menuTranslations";
+import ModifierPicker from "@/components/orders/ModifierPicker";
 
 type UiMessage = {
   id: string;
@@ -78,10 +100,15 @@ export default function ChatWidget({
   ]);
   const [menuPickerOpen, setMenuPickerOpen] = useState(true);
   const [selectedCategory, setSelectedCategory] = useState<string>("ALL");
+  const [dietaryFilters, setDietaryFilters] = useState<DietaryFilterId[]>([]);
+  const [menuLocale, setMenuLocale] = useState<MenuLocale>("en");
   const [interactiveCart, setInteractiveCart] = useState<any[]>([]);
+  const [modifierItem, setModifierItem] = useState<any | null>(null);
   const [editingOrder, setEditingOrder] = useState(false);
   const [orderCardVisible, setOrderCardVisible] = useState(false);
   const [showPaymentQr, setShowPaymentQr] = useState(false);
+  const [tipAmount, setTipAmount] = useState(0);
+  const [checkout, setCheckout] = useState<any>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
   const { data: menuData } = useQuery({
@@ -92,6 +119,7 @@ export default function ChatWidget({
       return res.json();
     },
     staleTime: 30000,
+    refetchInterval: 60000,
   });
 
   const { data: sessionData } = useQuery({
@@ -159,25 +187,52 @@ export default function ChatWidget({
     }
   }, [messages]);
 
+  // Guests only see what can be ordered at this hour.
+  const scheduledCategories = useMemo(
+    () =>
+      (menuData?.categories || []).filter((c: any) => c.availableNow !== false),
+    [menuData],
+  );
+
+  // Categories are filtered by their English name; only the label is
+  // translated.
   const categoryNames = useMemo(() => {
-    const cats = (menuData?.categories || []).map((c: any) => c.name);
-    return ["ALL", ...cats];
-  }, [menuData]);
+    const cats = scheduledCategories.map((c: any) => ({
+      key: c.name,
+      label: localizedMenuText(c, menuLocale).name,
+    }));
+    return [{ key: "ALL", label: "ALL" }, ...cats];
+  }, [scheduledCategories, menuLocale]);
 
   const menuItems = useMemo(() => {
-    const categories = menuData?.categories || [];
-    const items = categories.flatMap((c: any) =>
-      (c.items || []).map((item: any) => ({ ...item, categoryName: c.name })),
+    // Dietary filters only keep items positively tagged as matching.
+    const items = scheduledCategories.flatMap((c: any) =>
+      (c.items || [])
+        .filter((item: any) => item.availableNow !== false)
+        .map((item: any) => ({
+          ...item,
+          categoryName: c.name,
+          displayName: localizedMenuText(item, menuLocale).name,
+          dietaryTags: parseDietaryTags(item.dietary),
+        }))
+        .filter((item: any) =>
+          matchesDietaryFilters(item.dietaryTags, dietaryFilters),
+        ),
     );
     if (selectedCategory === "ALL") return items;
     return items.filter((item: any) => item.categoryName === selectedCategory);
-  }, [menuData, selectedCategory]);
+  }, [scheduledCategories, selectedCategory, dietaryFilters, menuLocale]);
+
+  const toggleDietaryFilter = (id: DietaryFilterId) =>
+    setDietaryFilters((prev) =>
+      prev.includes(id) ? prev.filter((f) => f !== id) : [...prev, id],
+    );
 
   const cartQtyMap = useMemo(
     () =>
       interactiveCart.reduce(
         (acc, item) => {
-          acc[item.id] = item.qty;
+          acc[item.id] = (acc[item.id] || 0) + item.qty;
           return acc;
         },
         {} as Record<string, number>,
@@ -222,6 +277,58 @@ export default function ChatWidget({
     },
   });
 
+  const initiatePayment = useMutation({
+    mutationFn: async (tip: number) => {
+      const res = await fetch("/api/payments/initiate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, tipAmount: tip }),
+      });
+      if (!res.ok) throw new Error("Failed to start payment");
+      return res.json();
+    },
+    onSuccess: (data) => setCheckout(data),
+    onError: () => setCheckout(null),
+  });
+
+  const verifyPayment = useMutation({
+    mutationFn: async (transactionRef: string) => {
+      const res = await fetch(
+        `/api/payments/callback?ref=${encodeURIComponent(transactionRef)}`,
+      );
+      if (!res.ok) throw new Error("Failed to verify payment");
+      return res.json();
+    },
+    onSuccess: (data) => {
+      if (data.status === "PAID") {
+        setShowPaymentQr(false);
+        setCheckout(null);
+        setTipAmount(0);
+        return;
+      }
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: crypto.randomUUID(),
+          role: "model",
+          text:
+            data.status === "FAILED"
+              ? "That payment didn’t go through. Please try scanning again. 🙏"
+              : "Payment not received yet. Give it a moment and tap again. ⏳",
+          ts: new Date().toISOString(),
+        },
+      ]);
+      if (data.status === "FAILED") initiatePayment.mutate(tipAmount);
+    },
+  });
+
+  // Each tip choice gets its own checkout so the QR always charges the
+  // amount shown; abandoned ones simply stay PENDING.
+  useEffect(() => {
+    if (!showPaymentQr || !sessionId) return;
+    initiatePayment.mutate(tipAmount);
+  }, [showPaymentQr, tipAmount, sessionId]);
+
   const pushUserMessage = (text: string) => {
     setMessages((prev) => [
       ...prev,
@@ -247,44 +354,73 @@ export default function ChatWidget({
     pushUserMessage(text);
   };
 
-  const addInteractiveItem = (item: any) => {
+  const selectInteractiveItem = (item: any) => {
+    if (
+      parseModifierGroups(item.variants).length > 0 ||
+      comboChoiceGroups(item.comboSlots).length > 0
+    ) {
+      setModifierItem(item);
+      return;
+    }
+    addInteractiveItem(item, []);
+  };
+
+  const addInteractiveItem = (
+    item: any,
+    modifiers: SelectedModifier[],
+    unitPrice = Number(item.price),
+  ) => {
+    const key = `${item.id}|${modifierSignature(modifiers)}`;
     setInteractiveCart((prev) => {
-      const existing = prev.find((i) => i.id === item.id);
+      const existing = prev.find((i) => i.key === key);
       if (existing) {
-        return prev.map((i) =>
-          i.id === item.id ? { ...i, qty: i.qty + 1 } : i,
-        );
+        return prev.map((i) => (i.key === key ? { ...i, qty: i.qty + 1 } : i));
       }
       return [
         ...prev,
-        { id: item.id, name: item.name, price: Number(item.price), qty: 1 },
+        {
+          key,
+          id: item.id,
+          name: item.name,
+          price: unitPrice,
+          qty: 1,
+          modifiers,
+        },
       ];
     });
   };
 
-  const removeInteractiveItem = (itemId: string) => {
-    setInteractiveCart((prev) => prev.filter((i) => i.id !== itemId));
+  const removeInteractiveItem = (key: string) => {
+    setInteractiveCart((prev) => prev.filter((i) => i.key !== key));
   };
 
-  const updateQty = (itemId: string, nextQty: number) => {
+  const updateQty = (key: string, nextQty: number) => {
     if (nextQty <= 0) {
-      removeInteractiveItem(itemId);
+      removeInteractiveItem(key);
       return;
     }
     setInteractiveCart((prev) =>
-      prev.map((i) => (i.id === itemId ? { ...i, qty: nextQty } : i)),
+      prev.map((i) => (i.key === key ? { ...i, qty: nextQty } : i)),
     );
   };
 
+  // Chosen options travel by name, e.g. "Momo (Steamed, Extra Sauce) x2".
+  const describeLine = (line: any) =>
+    line.modifiers?.length
+      ? `${line.name} (${line.modifiers
+          .map((m: SelectedModifier) => m.optionName)
+          .join(", ")}) x${line.qty}`
+      : `${line.name} x${line.qty}`;
+
   const submitInteractive = () => {
     if (interactiveCart.length === 0 || sessionState === "COMPLETED") return;
     const commands = interactiveCart
-      .map((i) => `add ${i.name} x${i.qty}`)
+      .map((i) => `add ${describeLine(i)}`)
       .join(", ");
     const tail =
       linkedOrder || editingOrder ? "and update order" : "and place order";
     const friendly = `${editingOrder ? "Edit" : "Confirm"} order: ${interactiveCart
-      .map((i) => `${i.name} x${i.qty}`)
+      .map(describeLine)
       .join(", ")}`;
     setMenuPickerOpen(false);
     pushUserMessage(friendly);
@@ -293,12 +429,17 @@ export default function ChatWidget({
 
   const startEditOrder = () => {
     if (!linkedOrder) return;
-    const seeded = (linkedOrder.items || []).map((item: any) => ({
-      id: item.menuItemId,
-      name: item.itemName,
-      qty: item.quantity,
-      price: Number(item.unitPrice),
-    }));
+    const seeded = (linkedOrder.items || []).map((item: any) => {
+      const modifiers = parseOrderItemModifiers(item.modifiers);
+      return {
+        key: `${item.menuItemId}|${modifierSignature(modifiers)}`,
+        id: item.menuItemId,
+        name: item.itemName,
+        qty: item.quantity,
+        price: Number(item.unitPrice),
+        modifiers,
+      };
+    });
     setInteractiveCart(seeded);
     setEditingOrder(true);
     setMenuPickerOpen(true);
@@ -311,8 +452,16 @@ export default function ChatWidget({
 
   const confirmPayment = () => {
     if (!linkedOrder || sendMessage.isPending) return;
+    if (checkout?.transactionRef) {
+      verifyPayment.mutate(checkout.transactionRef);
+      return;
+    }
+    // No gateway configured: the guest reports it in chat and staff confirm.
     setShowPaymentQr(false);
-    pushUserMessage("Payment done");
+    pushUserMessage(
+      tipAmount > 0 ? `Payment done, tip Rs.${tipAmount}` : "Payment done",
+    );
+    setTipAmount(0);
   };
 
   const restartSession = () => {
@@ -326,9 +475,11 @@ export default function ChatWidget({
       },
     ]);
     setInteractiveCart([]);
+    setModifierItem(null);
     setEditingOrder(false);
     setOrderCardVisible(false);
     setShowPaymentQr(false);
+    setCheckout(null);
     setMenuPickerOpen(true);
   };
 
@@ -337,9 +488,18 @@ export default function ChatWidget({
     0,
   );
 
-  const paymentQrValue = linkedOrder
-    ? `quickserve://pay?order=${encodeURIComponent(linkedOrder.orderNumber)}&amount=${Number(linkedOrder.total).toFixed(2)}`
-    : "";
+  const tipOptions = linkedOrder
+    ? [0, 5, 10].map((percent) => ({
+        percent,
+        amount: Math.round((Number(linkedOrder.total) * percent) / 100),
+      }))
+    : [];
+
+  const paymentQrValue = checkout
+    ? checkout.qrPayload || checkout.redirectUrl || ""
+    : linkedOrder
+      ? `quickserve://pay?order=${encodeURIComponent(linkedOrder.orderNumber)}&amount=${(Number(linkedOrder.total) + tipAmount).toFixed(2)}${tipAmount > 0 ? `&tip=${tipAmount.toFixed(2)}` : ""}`
+      : "";
 
   const canPay =
     linkedOrder && ["READY", "OUT_FOR_DELIVERY"].includes(linkedOrder.status);
@@ -429,27 +589,68 @@ export default function ChatWidget({
                   exit={{ opacity: 0, y: 8 }}
                   className="rounded-2xl border border-slate-700 bg-slate-950 p-3 space-y-3"
                 >
+                  <div className="flex gap-1">
+                    {MENU_LOCALES.map((locale) => (
+                      <button
+                        key={locale}
+                        type="button"
+                        onClick={() => setMenuLocale(locale)}
+                        className={`px-2 py-1 rounded-lg text-[10px] font-semibold border whitespace-nowrap ${
+                          menuLocale === locale
+                            ? "bg-primary/20 border-primary text-primary"
+                            : "bg-slate-900 border-slate-700 text-slate-400"
+                        }`}
+                      >
+                        {MENU_LOCALE_LABELS[locale]}
+                      </button>
+                    ))}
+                  </div>
+
                   <div className="flex gap-1 overflow-x-auto custom-scrollbar pb-1">
                     {categoryNames.map((category) => (
                       <button
-                        key={category}
-                        onClick={() => setSelectedCategory(category)}
+                        key={category.key}
+                        onClick={() => setSelectedCategory(category.key)}
                         className={`px-2 py-1 rounded-lg text-[10px] font-black uppercase tracking-wider border whitespace-nowrap ${
-                          selectedCategory === category
+                          selectedCategory === category.key
                             ? "bg-primary/20 border-primary text-primary"
                             : "bg-slate-900 border-slate-700 text-slate-400"
                         }`}
                       >
-                        {category}
+                        {category.label}
                       </button>
                     ))}
                   </div>
 
+                  <div className="flex gap-1 overflow-x-auto custom-scrollbar pb-1">
+                    {DIETARY_FILTERS.map((filter) => (
+                      <button
+                        key={filter.id}
+                        type="button"
+                        onClick={() => toggleDietaryFilter(filter.id)}
+                        className={`px-2 py-1 rounded-lg text-[10px] font-semibold border whitespace-nowrap ${
+                          dietaryFilters.includes(filter.id)
+                            ? "bg-emerald-500/15 border-emerald-500/60 text-emerald-300"
+                            : "bg-slate-900 border-slate-700 text-slate-400"
+                        }`}
+                      >
+                        {filter.label}
+                      </button>
+                    ))}
+                  </div>
+
+                  {menuItems.length === 0 && dietaryFilters.length > 0 ? (
+                    <p className="text-[11px] text-slate-400">
+                      No items are marked with all of these. Ask our staff if
+                      you are unsure about an allergen.
+                    </p>
+                  ) : null}
+
                   <div className="max-h-44 overflow-y-auto custom-scrollbar grid grid-cols-1 sm:grid-cols-2 gap-2">
                     {menuItems.slice(0, 30).map((item: any) => (
                       <button
                         key={item.id}
-                        onClick={() => addInteractiveItem(item)}
+                        onClick={() => selectInteractiveItem(item)}
                         className={`text-left rounded-xl border px-3 py-2 transition-colors ${
                           cartQtyMap[item.id]
                             ? "bg-slate-900 border-primary/60"
@@ -458,12 +659,32 @@ export default function ChatWidget({
                       >
                         <div className="flex justify-between items-start gap-2">
                           <span className="text-xs font-semibold text-slate-200">
-                            {item.name}
+                            {item.displayName}
+                            {item.displayName !== item.name ? (
+                              <span className="block text-[10px] font-normal text-slate-500">
+                                {item.name}
+                              </span>
+                            ) : null}
                           </span>
                           <span className="text-[11px] font-black text-primary">
+                            {item.regularPrice ? (
+                              <span className="mr-1 font-semibold text-slate-500 line-through">
+                                Rs.{Number(item.regularPrice)}
+                              </span>
+                            ) : null}
                             Rs.{Number(item.price)}
                           </span>
                         </div>
+                        {item.priceRule ? (
+                          <p className="text-[10px] text-emerald-300 mt-1 font-black">
+                            {item.priceRule}
+                          </p>
+                        ) : null}
+                        {dietaryLabels(item.dietaryTags).length > 0 ? (
+                          <p className="text-[10px] text-slate-400 mt-1">
+                            {dietaryLabels(item.dietaryTags).join(" · ")}
+                          </p>
+                        ) : null}
                         {cartQtyMap[item.id] ? (
                           <p className="text-[10px] text-primary mt-1 font-black">
                             Selected x{cartQtyMap[item.id]}
@@ -473,6 +694,17 @@ export default function ChatWidget({
                     ))}
                   </div>
 
+                  {modifierItem ? (
+                    <ModifierPicker
+                      item={modifierItem}
+                      onCancel={() => setModifierItem(null)}
+                      onConfirm={(modifiers, unitPrice) => {
+                        addInteractiveItem(modifierItem, modifiers, unitPrice);
+                        setModifierItem(null);
+                      }}
+                    />
+                  ) : null}
+
                   {interactiveCart.length > 0 && (
                     <div className="rounded-xl border border-slate-700 bg-slate-900 p-3 space-y-2">
                       <p className="text-[10px] uppercase tracking-[0.14em] text-slate-400 font-black">
@@ -480,14 +712,21 @@ export default function ChatWidget({
                       </p>
                       {interactiveCart.map((item) => (
                         <div
-                          key={item.id}
+                          key={item.key}
                           className="flex items-center justify-between gap-2 text-xs"
                         >
-                          <span className="text-slate-200">{item.name}</span>
+                          <span className="text-slate-200">
+                            {item.name}
+                            {item.modifiers?.length ? (
+                              <span className="block text-[10px] text-slate-400">
+                                {formatModifiers(item.modifiers)}
+                              </span>
+                            ) : null}
+                          </span>
                           <div className="flex items-center gap-2">
                             <button
                               type="button"
-                              onClick={() => updateQty(item.id, item.qty - 1)}
+                              onClick={() => updateQty(item.key, item.qty - 1)}
                               className="w-6 h-6 rounded-md bg-slate-800"
                             >
                               -
@@ -497,7 +736,7 @@ export default function ChatWidget({
                             </span>
                             <button
                               type="button"
-                              onClick={() => updateQty(item.id, item.qty + 1)}
+                              onClick={() => updateQty(item.key, item.qty + 1)}
                               className="w-6 h-6 rounded-md bg-slate-800"
                             >
                               +
@@ -601,6 +840,13 @@ export default function ChatWidget({
                       >
                         <span className="text-slate-200">
                           {item.itemName} x{item.quantity}
+                          {parseOrderItemModifiers(item.modifiers).length ? (
+                            <span className="block text-[11px] text-slate-400">
+                              {formatModifiers(
+                                parseOrderItemModifiers(item.modifiers),
+                              )}
+                            </span>
+                          ) : null}
                         </span>
                         <span className="text-slate-400 font-mono">
                           Rs.
@@ -701,15 +947,51 @@ export default function ChatWidget({
               <p className="text-xs text-slate-400 mt-1">
                 {linkedOrder.orderNumber} • Rs.
                 {Number(linkedOrder.total).toFixed(2)}
+                {tipAmount > 0 ? ` + Rs.${tipAmount} tip` : ""}
               </p>
+              <div className="grid grid-cols-3 gap-2 mt-3">
+                {tipOptions.map((option) => (
+                  <button
+                    key={option.percent}
+                    type="button"
+                    onClick={() => setTipAmount(option.amount)}
+                    className={`px-2 py-1.5 rounded-lg border text-[11px] font-black ${
+                      tipAmount === option.amount
+                        ? "bg-primary/20 border-primary text-primary"
+                        : "bg-slate-950 border-slate-700 text-slate-300"
+                    }`}
+                  >
+                    {option.percent === 0
+                      ? "No tip"
+                      : `${option.percent}% • Rs.${option.amount}`}
+                  </button>
+                ))}
+              </div>
               <div className="bg-white rounded-xl p-3 my-4 flex justify-center">
-                <QRCodeSVG value={paymentQrValue} size={220} includeMargin />
+                {initiatePayment.isPending ? (
+                  <Loader2 className="w-8 h-8 text-slate-500 animate-spin my-24" />
+                ) : (
+                  <QRCodeSVG value={paymentQrValue} size={220} includeMargin />
+                )}
               </div>
+              {checkout?.redirectUrl && !checkout?.qrPayload && (
+                <a
+                  href={checkout.redirectUrl}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="block text-center text-xs font-bold text-primary mb-3"
+                >
+                  Open {checkout.gateway} checkout
+                </a>
+              )}
               <div className="grid grid-cols-2 gap-2">
                 <button
                   type="button"
                   className="btn-ghost text-xs"
-                  onClick={() => setShowPaymentQr(false)}
+                  onClick={() => {
+                    setShowPaymentQr(false);
+                    setCheckout(null);
+                  }}
                 >
                   Close
                 </button>
@@ -717,8 +999,9 @@ export default function ChatWidget({
                   type="button"
                   className="btn-primary text-xs"
                   onClick={confirmPayment}
+                  disabled={verifyPayment.isPending}
                 >
-                  I have paid
+                  {verifyPayment.isPending ? "Checking..." : "I have paid"}
                 </button>
               </div>
             </motion.div>
@@ -10,7 +10,12 @@ import { AnimatePresence, motion } from "framer-motion";
 import NewOrderModal from "@/components/orders/NewOrderModal";
 import BillModal from "@/components/orders/BillModal";
 import LiveQrScanner from "@/components/scanner/LiveQrScanner";
+import CashDrawerPanel from "@/components/cashDrawer/CashDrawerPanel";
+import MenuReviewQueue from "@/components/menu/MenuReviewQueue";
 import { extractPrimaryTableLabel } from "@/lib/tableGroups";
+import { outstandingBalance } from "@/lib/billSplit";
+import { formatModifiers, parseOrderItemModifiers } from "@/lib/modifiers";
+import { kitchenComponentLines } from "@/lib/combos";
 
 const ACTIVE_OVERVIEW_STATUSES = [
   "CONFIRMED",
@@ -37,6 +42,12 @@ async function fetchTables() {
   return res.json();
 }
 
+async function fetchInventory() {
+  const res = await fetch("/api/menu/inventory");
+  if (!res.ok) throw new Error("Failed to fetch inventory");
+  return res.json();
+}
+
 async function fetchHistory() {
   const res = await fetch("/api/orders?history=true&limit=20&page=1");
   if (!res.ok) throw new Error("Failed to fetch history");
@@ -64,8 +75,11 @@ const BADGE_STYLES: Record<string, string> = {
 const PAYMENT_STYLES: Record<string, string> = {
   PAID: "bg-emerald-500/20 text-emerald-300 border border-emerald-500/40",
   PENDING: "bg-slate-500/20 text-slate-300 border border-slate-500/40",
+  PARTIALLY_PAID: "bg-sky-500/20 text-sky-300 border border-sky-500/40",
   FAILED: "bg-red-500/20 text-red-300 border border-red-500/40",
   REFUNDED: "bg-amber-500/20 text-amber-300 border border-amber-500/40",
+  PARTIALLY_REFUNDED:
+    "bg-amber-500/20 text-amber-300 border border-amber-500/40",
 };
 
 type ViewMode = "ACTIVE" | "MARKET";
@@ -109,6 +123,7 @@ export default function CommandCenter({
   const [scanValue, setScanValue] = useState("");
   const [scanFeedback, setScanFeedback] = useState("");
   const [billOrder, setBillOrder] = useState<any | null>(null);
+  const [editingOrder, setEditingOrder] = useState<any | null>(null);
   const [qrPayload, setQrPayload] = useState<{
     title: string;
     value: string;
@@ -130,6 +145,11 @@ export default function CommandCenter({
     queryFn: fetchTables,
     refetchInterval: 20000,
   });
+  const { data: inventoryData } = useQuery({
+    queryKey: ["inventory", "command-center"],
+    queryFn: fetchInventory,
+    refetchInterval: 30000,
+  });
   const { data: historyData, isLoading: historyLoading } = useQuery({
     queryKey: ["orders", "history", "quick-modal"],
     queryFn: fetchHistory,
@@ -138,6 +158,7 @@ export default function CommandCenter({
 
   const orders = ordersData?.orders || [];
   const tables = tablesData?.tables || [];
+  const lowStock: any[] = inventoryData?.lowStock || [];
   const activeCoreOrders = useMemo(
     () =>
       orders.filter((order: any) =>
@@ -188,7 +209,10 @@ export default function CommandCenter({
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(payload),
       });
-      if (!res.ok) throw new Error("Failed to update order status");
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to update order status");
+      }
       return res.json();
     },
     onSuccess: () => {
@@ -207,7 +231,7 @@ export default function CommandCenter({
         body: JSON.stringify({
           orderId: order.id,
           method: "CASH",
-          amount: Number(order.total),
+          amount: outstandingBalance(order, order.payments),
         }),
       });
       if (!res.ok) {
@@ -234,13 +258,32 @@ export default function CommandCenter({
     });
   };
 
-  const openPaymentQr = (order: any) => {
-    const payload = `quickserve://pay?order=${encodeURIComponent(order.orderNumber)}&amount=${Number(order.total).toFixed(2)}`;
-    setQrPayload({
-      title: `Payment QR - ${order.orderNumber}`,
-      value: payload,
-    });
-  };
+  // The QR starts a gateway checkout; the provider's webhook settles the
+  // order, so staff no longer mark QR payments as paid by hand.
+  const openPaymentQr = useMutation({
+    mutationFn: async (order: any) => {
+      const res = await fetch("/api/payments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orderId: order.id,
+          method: "QR",
+          amount: outstandingBalance(order, order.payments),
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to start QR payment");
+      }
+      return res.json();
+    },
+    onSuccess: (data, order) => {
+      setQrPayload({
+        title: `Payment QR - ${order.orderNumber} (${data.gateway})`,
+        value: data.checkout.qrPayload || data.checkout.redirectUrl || "",
+      });
+    },
+  });
 
   const normalizeScannedValue = (value: string) => {
     const raw = String(value || "").trim();
@@ -315,6 +358,10 @@ export default function CommandCenter({
     (t: any) => t.status === "AVAILABLE",
   ).length;
   const actionBusy = updateStatus.isPending || payCash.isPending;
+  const actionError =
+    updateStatus.error?.message ||
+    payCash.error?.message ||
+    openPaymentQr.error?.message;
 
   return (
     <div className="space-y-4">
@@ -476,6 +523,31 @@ export default function CommandCenter({
                 </button>
               ))}
             </div>
+            {actionError ? (
+              <div className="mt-3 text-xs rounded-lg border border-red-500/40 bg-red-500/10 p-3 text-red-300">
+                {actionError}
+              </div>
+            ) : null}
+            {lowStock.length > 0 ? (
+              <div className="mt-3 flex flex-wrap gap-x-3 gap-y-1 text-xs rounded-lg border border-amber-500/40 bg-amber-500/10 p-3 text-amber-200">
+                <span className="font-black uppercase tracking-widest">
+                  Low stock
+                </span>
+                {lowStock.map((item) => (
+                  <span
+                    key={item.id}
+                    className={
+                      item.stockCount === 0 ? "font-bold text-red-300" : ""
+                    }
+                  >
+                    {item.name}:{" "}
+                    {item.stockCount === 0
+                      ? "sold out"
+                      : `${item.stockCount} left`}
+                  </span>
+                ))}
+              </div>
+            ) : null}
           </section>
 
           {ordersLoading ? (
@@ -553,6 +625,24 @@ export default function CommandCenter({
                             <span className="text-primary">
                               x{item.quantity}
                             </span>
+                            {item.modifiers && item.modifiers !== "[]" ? (
+                              <span className="block text-xs font-normal text-slate-400">
+                                {formatModifiers(
+                                  parseOrderItemModifiers(item.modifiers),
+                                )}
+                              </span>
+                            ) : null}
+                            {kitchenComponentLines(item).map((component) => (
+                              <span
+                                key={component.key}
+                                className="block text-xs font-normal text-slate-300"
+                              >
+                                ↳ {component.name}{" "}
+                                <span className="text-primary">
+                                  x{component.quantity}
+                                </span>
+                              </span>
+                            ))}
                           </span>
                           <span className="font-mono text-slate-400 whitespace-nowrap">
                             Rs.{" "}
@@ -657,6 +747,13 @@ export default function CommandCenter({
                             >
                               Bill
                             </button>
+                            <button
+                              className="btn-ghost bg-slate-800 border-slate-700"
+                              disabled={actionBusy}
+                              onClick={() => setEditingOrder(order)}
+                            >
+                              Edit Items
+                            </button>
                             <button
                               className="btn-ghost bg-slate-800 border-slate-700"
                               onClick={() => openOrderQr(order)}
@@ -665,7 +762,8 @@ export default function CommandCenter({
                             </button>
                             <button
                               className="btn-ghost bg-slate-800 border-slate-700"
-                              onClick={() => openPaymentQr(order)}
+                              disabled={openPaymentQr.isPending}
+                              onClick={() => openPaymentQr.mutate(order)}
                             >
                               Payment QR
                             </button>
@@ -700,7 +798,7 @@ export default function CommandCenter({
         </>
       ) : (
         <section className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-6 gap-4">
             <div className="stat-card bg-slate-900 border-slate-700">
               <span className="stat-label text-slate-400">
                 Total Revenue Today
@@ -709,6 +807,18 @@ export default function CommandCenter({
                 Rs. {(analytics?.totalRevenue ?? 0).toLocaleString()}
               </span>
             </div>
+            <div className="stat-card bg-slate-900 border-slate-700">
+              <span className="stat-label text-slate-400">Refunds</span>
+              <span className="stat-value text-amber-400">
+                Rs. {(analytics?.refundTotal ?? 0).toLocaleString()}
+              </span>
+            </div>
+            <div className="stat-card bg-slate-900 border-slate-700">
+              <span className="stat-label text-slate-400">Discounts</span>
+              <span className="stat-value text-amber-400">
+                Rs. {(analytics?.discountTotal ?? 0).toLocaleString()}
+              </span>
+            </div>
             <div className="stat-card bg-slate-900 border-slate-700">
               <span className="stat-label text-slate-400">Pending Revenue</span>
               <span className="stat-value text-amber-400">
@@ -729,6 +839,10 @@ export default function CommandCenter({
             </div>
           </div>
 
+          <CashDrawerPanel />
+
+          <MenuReviewQueue />
+
           <div className="bg-slate-900/70 border border-slate-700 rounded-[1.5rem] p-4">
             <h3 className="font-bold mb-3 uppercase tracking-wider text-sm">
               Popular Items
@@ -751,6 +865,36 @@ export default function CommandCenter({
               </div>
             )}
           </div>
+
+          <div className="bg-slate-900/70 border border-slate-700 rounded-[1.5rem] p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-bold uppercase tracking-wider text-sm">
+                Tips by Staff
+              </h3>
+              <span className="text-xs text-slate-400">
+                Rs. {(analytics?.tips?.total ?? 0).toLocaleString()} • not
+                counted in revenue
+              </span>
+            </div>
+            {!analytics?.tips?.byStaff?.length ? (
+              <p className="text-sm text-slate-400">No tips recorded yet.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-3">
+                {analytics.tips.byStaff.map((staff: any) => (
+                  <div
+                    key={staff.userId || "unassigned"}
+                    className="bg-slate-950 border border-slate-700 rounded-xl p-3"
+                  >
+                    <p className="font-semibold">{staff.name}</p>
+                    <p className="text-xs text-slate-400 mt-1">
+                      Rs. {staff.total.toLocaleString()} from {staff.count}{" "}
+                      payment(s)
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </section>
       )}
 
@@ -765,6 +909,14 @@ export default function CommandCenter({
         />
       )}
 
+      {!isKitchenMode && editingOrder && (
+        <NewOrderModal
+          isOpen={!!editingOrder}
+          onClose={() => setEditingOrder(null)}
+          editOrder={editingOrder}
+        />
+      )}
+
       {!isKitchenMode && billOrder && (
         <BillModal
           isOpen={!!billOrder}
@@ -835,15 +987,23 @@ export default function CommandCenter({
                         })}
                       </p>
                     </div>
-                    <div className="text-right">
-                      <p className="font-mono font-bold">
-                        Rs. {Number(order.total).toFixed(2)}
-                      </p>
-                      <span
-                        className={`badge ${BADGE_STYLES[order.status] || "badge"}`}
+                    <div className="flex items-center gap-3">
+                      <div className="text-right">
+                        <p className="font-mono font-bold">
+                          Rs. {Number(order.total).toFixed(2)}
+                        </p>
+                        <span
+                          className={`badge ${BADGE_STYLES[order.status] || "badge"}`}
+                        >
+                          {order.status}
+                        </span>
+                      </div>
+                      <button
+                        className="btn-ghost bg-slate-800 border-slate-700"
+                        onClick={() => setBillOrder(order)}
                       >
-                        {order.status}
-                      </span>
+                        Bill
+                      </button>
                     </div>
                   </div>
                 ))}
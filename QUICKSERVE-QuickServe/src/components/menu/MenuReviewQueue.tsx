@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSession } from "next-auth/react";
+
+type ReviewDraft = {
+  name: string;
+  category: string;
+  price: string;
+  description: string;
+};
+
+async function postDecision(id: string, payload: Record<string, any>) {
+  const res = await fetch(`/api/menu-review/${id}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || "Review request failed");
+  }
+  return res.json();
+}
+
+function confidenceClass(confidence: number) {
+  if (confidence >= 0.75) return "text-emerald-300";
+  if (confidence >= 0.4) return "text-amber-300";
+  return "text-red-400";
+}
+
+// Scanned items the importer was unsure about. Nothing here is on the menu
+// until a manager approves it, optionally correcting the misread fields.
+export default function MenuReviewQueue() {
+  const queryClient = useQueryClient();
+  const { data: authSession } = useSession();
+  const isManager = ["OWNER", "MANAGER"].includes(
+    authSession?.user?.role || "",
+  );
+  const [drafts, setDrafts] = useState<Record<string, ReviewDraft>>({});
+
+  const { data } = useQuery({
+    queryKey: ["menu-review"],
+    queryFn: async () => {
+      const res = await fetch("/api/menu-review");
+      if (!res.ok) throw new Error("Failed to fetch review queue");
+      return res.json();
+    },
+    enabled: isManager,
+    refetchInterval: 30000,
+  });
+
+  const decide = useMutation({
+    mutationFn: ({ id, payload }: { id: string; payload: any }) =>
+      postDecision(id, payload),
+    onSuccess: (_result, { id }) => {
+      setDrafts(({ [id]: _done, ...rest }) => rest);
+      queryClient.invalidateQueries({ queryKey: ["menu-review"] });
+      queryClient.invalidateQueries({ queryKey: ["menu"] });
+    },
+  });
+
+  const items: any[] = data?.items || [];
+  if (!isManager || items.length === 0) return null;
+
+  const draftFor = (item: any): ReviewDraft =>
+    drafts[item.id] || {
+      name: item.name,
+      category: item.category,
+      price: String(Number(item.price)),
+      description: item.description || "",
+    };
+  const updateDraft = (item: any, patch: Partial<ReviewDraft>) =>
+    setDrafts((prev) => ({
+      ...prev,
+      [item.id]: { ...draftFor(item), ...patch },
+    }));
+
+  return (
+    <div className="bg-slate-900/70 border border-amber-500/40 rounded-[1.5rem] p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold uppercase tracking-wider text-sm">
+          Menu Review Queue
+        </h3>
+        <span className="text-[10px] font-black uppercase tracking-widest text-amber-300">
+          {items.length} waiting
+        </span>
+      </div>
+
+      {decide.error ? (
+        <p className="text-xs text-red-400">{decide.error.message}</p>
+      ) : null}
+
+      <div className="space-y-2">
+        {items.map((item) => {
+          const draft = draftFor(item);
+          const price = Number(draft.price);
+          return (
+            <div
+              key={item.id}
+              className="bg-slate-950 border border-slate-700 rounded-xl p-3 space-y-2"
+            >
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span
+                  className={`font-black ${confidenceClass(item.confidence)}`}
+                >
+                  {Math.round(item.confidence * 100)}%
+                </span>
+                {item.flags.map((flag: any) => (
+                  <span
+                    key={flag.code}
+                    className="px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-200 border border-amber-500/30"
+                    title={flag.message}
+                  >
+                    {flag.message}
+                  </span>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-[2fr_1.5fr_1fr] gap-2">
+                <input
+                  className="input bg-slate-900 border-slate-700"
+                  value={draft.name}
+                  onChange={(e) => updateDraft(item, { name: e.target.value })}
+                />
+                <input
+                  className="input bg-slate-900 border-slate-700"
+                  value={draft.category}
+                  onChange={(e) =>
+                    updateDraft(item, { category: e.target.value })
+                  }
+                />
+                <input
+                  className="input bg-slate-900 border-slate-700"
+                  type="number"
+                  min={0}
+                  value={draft.price}
+                  onChange={(e) => updateDraft(item, { price: e.target.value })}
+                />
+              </div>
+              <input
+                className="input bg-slate-900 border-slate-700"
+                placeholder="Description"
+                value={draft.description}
+                onChange={(e) =>
+                  updateDraft(item, { description: e.target.value })
+                }
+              />
+
+              <div className="flex justify-end gap-2">
+                <button
+                  className="btn-ghost bg-slate-800 border-slate-700"
+                  disabled={decide.isPending}
+                  onClick={() =>
+                    decide.mutate({
+                      id: item.id,
+                      payload: { action: "REJECT" },
+                    })
+                  }
+                >
+                  Reject
+                </button>
+                <button
+                  className="btn-primary"
+                  disabled={
+                    decide.isPending ||
+                    !draft.name.trim() ||
+                    !draft.category.trim() ||
+                    draft.price === "" ||
+                    !(price >= 0)
+                  }
+                  onClick={() =>
+                    decide.mutate({
+                      id: item.id,
+                      payload: {
+                        action: "APPROVE",
+                        name: draft.name.trim(),
+                        category: draft.category.trim(),
+                        price,
+                        description: draft.description.trim() || null,
+                      },
+                    })
+                  }
+                >
+                  Approve
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
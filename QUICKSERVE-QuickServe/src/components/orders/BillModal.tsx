@@ -1,8 +1,18 @@
 "use client";
 
-import { useRef } from "react";
+import { useRef, useState } from "react";
 import { format } from "date-fns";
 import { useReactToPrint } from "react-to-print";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSession } from "next-auth/react";
+import OrderTimeline from "@/components/orders/OrderTimeline";
+import { formatModifiers, parseOrderItemModifiers } from "@/lib/modifiers";
+import {
+  PAYMENT_TOLERANCE,
+  splitByItems,
+  splitEvenly,
+  type BillSplit,
+} from "@/lib/billSplit";
 
 interface BillModalProps {
   isOpen: boolean;
@@ -10,8 +20,69 @@ interface BillModalProps {
   order: any;
 }
 
-export default function BillModal({ isOpen, onClose, order }: BillModalProps) {
+type SplitMode = "FULL" | "ITEMS" | "EVEN";
+type DiscountMode = "DISCOUNT" | "COMP" | "PROMO";
+
+const DISCOUNT_LABELS: Record<string, string> = {
+  DISCOUNT: "Discount",
+  COMP: "Comp",
+  PROMO: "Promo",
+};
+
+// Promo rows carry "Promo <CODE>" as their reason already.
+function describeDiscount(discount: any, items: any[]): string {
+  const item = discount.orderItemId
+    ? items.find((i) => i.id === discount.orderItemId)
+    : null;
+  const parts = [
+    discount.kind === "PROMO"
+      ? discount.reason || "Promo"
+      : DISCOUNT_LABELS[discount.kind] || discount.kind,
+    discount.valueType === "PERCENT" ? `${Number(discount.value)}%` : "",
+    item ? `(${item.itemName})` : "",
+    discount.kind !== "PROMO" && discount.reason ? `– ${discount.reason}` : "",
+  ];
+  return parts.filter(Boolean).join(" ");
+}
+
+const lineModifiers = (item: any) =>
+  formatModifiers(parseOrderItemModifiers(item.modifiers));
+
+export default function BillModal({
+  isOpen,
+  onClose,
+  order: orderProp,
+}: BillModalProps) {
   const componentRef = useRef<HTMLDivElement>(null);
+  const queryClient = useQueryClient();
+  const { data: session } = useSession();
+  // Discount edits return the recalculated order; prefer it over the prop
+  // until the parent list refreshes.
+  const [latestOrder, setLatestOrder] = useState<any>(null);
+  const order =
+    latestOrder && latestOrder.id === orderProp?.id
+      ? { ...orderProp, ...latestOrder }
+      : orderProp;
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [splitMode, setSplitMode] = useState<SplitMode>("FULL");
+  const [itemSelection, setItemSelection] = useState<Record<string, number>>(
+    {},
+  );
+  const [payers, setPayers] = useState(2);
+  const [shareIndex, setShareIndex] = useState(0);
+  const [tipInput, setTipInput] = useState("");
+  const [refundPaymentId, setRefundPaymentId] = useState("");
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundItems, setRefundItems] = useState<Record<string, number>>({});
+  const [refundReason, setRefundReason] = useState("");
+  const [discountMode, setDiscountMode] = useState<DiscountMode>("DISCOUNT");
+  const [discountValueType, setDiscountValueType] = useState<
+    "PERCENT" | "FIXED"
+  >("PERCENT");
+  const [discountValue, setDiscountValue] = useState("");
+  const [discountItemId, setDiscountItemId] = useState("");
+  const [discountReason, setDiscountReason] = useState("");
+  const [promoCode, setPromoCode] = useState("");
 
   // BUG FIX: react-to-print v3 replaced the `content` callback prop with
   // `contentRef` (a plain React ref). Using the old `content: () => ref.current`
@@ -25,22 +96,182 @@ export default function BillModal({ isOpen, onClose, order }: BillModalProps) {
     `,
   });
 
+  const { data: paymentsData } = useQuery({
+    queryKey: ["payments", order?.id],
+    queryFn: async () => {
+      const res = await fetch(`/api/payments?orderId=${order.id}`);
+      if (!res.ok) throw new Error("Failed to fetch payments");
+      return res.json();
+    },
+    enabled: isOpen && !!order?.id,
+  });
+
+  const collectCash = useMutation({
+    mutationFn: async (payload: {
+      amount: number;
+      splitLabel?: string;
+      tipAmount?: number;
+    }) => {
+      const res = await fetch("/api/payments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orderId: order.id,
+          method: "CASH",
+          ...payload,
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to record payment");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["payments", order.id] });
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["analytics"] });
+      queryClient.invalidateQueries({ queryKey: ["tables"] });
+      setItemSelection({});
+      setTipInput("");
+    },
+  });
+
+  const reviewClaim = useMutation({
+    mutationFn: async (payload: {
+      paymentId: string;
+      action: "CONFIRM" | "REJECT";
+    }) => {
+      const res = await fetch("/api/payments", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to update payment");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["payments", order.id] });
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["analytics"] });
+      queryClient.invalidateQueries({ queryKey: ["tables"] });
+    },
+  });
+
+  const issueRefund = useMutation({
+    mutationFn: async (payload: Record<string, any>) => {
+      const res = await fetch("/api/payments/refund", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to issue refund");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["payments", order.id] });
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["analytics"] });
+      setRefundAmount("");
+      setRefundItems({});
+      setRefundReason("");
+    },
+  });
+
+  const changeDiscounts = useMutation({
+    mutationFn: async ({
+      method,
+      payload,
+    }: {
+      method: "POST" | "DELETE";
+      payload: Record<string, any>;
+    }) => {
+      const res = await fetch(`/api/orders/${order.id}/discounts`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to update discounts");
+      }
+      return res.json();
+    },
+    onSuccess: (updated) => {
+      setLatestOrder(updated);
+      queryClient.invalidateQueries({ queryKey: ["payments", order.id] });
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["analytics"] });
+      setDiscountValue("");
+      setDiscountReason("");
+      setPromoCode("");
+    },
+  });
+
   if (!isOpen || !order) return null;
 
   // Derive actual charge percentages from the order amounts so the bill
   // always reflects the tenant's real settings rather than hardcoded values.
+  // Charges are levied after discounts, so derive them from the taxable base.
+  const taxableBase = Number(order.subtotal) - Number(order.discountTotal || 0);
   const svcPercent =
-    Number(order.subtotal) > 0
-      ? Math.round((Number(order.serviceCharge) / Number(order.subtotal)) * 100)
+    taxableBase > 0
+      ? Math.round((Number(order.serviceCharge) / taxableBase) * 100)
       : 0;
   const taxPercent =
-    Number(order.subtotal) > 0
-      ? Math.round((Number(order.tax) / Number(order.subtotal)) * 100)
-      : 0;
+    taxableBase > 0 ? Math.round((Number(order.tax) / taxableBase) * 100) : 0;
+  const discounts: any[] = order.discounts || [];
+  const isManager = ["OWNER", "MANAGER"].includes(session?.user?.role || "");
+  const canDiscount = !["PAID", "CANCELLED"].includes(order.status);
+
+  const payments: any[] = paymentsData?.payments || [];
+  const paidPayments = payments.filter((p) => p.status === "PAID");
+  const outstanding = Number(paymentsData?.outstanding ?? order.total);
+  const isSettled = outstanding < PAYMENT_TOLERANCE;
+  const canCollect =
+    !isSettled && !["PAID", "CANCELLED"].includes(order.status);
+  const refunds = payments.filter((p) => p.status === "REFUNDED");
+  // Payments a chat guest said they made, waiting for staff to check them.
+  const claims = payments.filter((p) => p.status === "PENDING" && !p.gateway);
+  const canRefund =
+    isManager && paidPayments.length > 0 && order.paymentStatus !== "REFUNDED";
+  const selectedRefundPaymentId = refundPaymentId || paidPayments[0]?.id || "";
+  // Tips are printed separately so they are never read as part of the bill.
+  const tipTotal = paidPayments.reduce(
+    (sum, p) => sum + Number(p.tipAmount || 0),
+    0,
+  );
+  const tipAmount = Math.max(0, Number(tipInput) || 0);
+
+  const evenShares = splitEvenly(order, payers);
+  const split: BillSplit | null =
+    splitMode === "ITEMS"
+      ? splitByItems(order, itemSelection, "Split by items")
+      : splitMode === "EVEN"
+        ? evenShares[Math.min(shareIndex, evenShares.length - 1)]
+        : null;
+  // The last payer may be a paisa or two off after rounding; never ask for
+  // more than is still owed.
+  const amountDue = Math.min(split ? split.total : outstanding, outstanding);
+
+  const toggleItem = (item: any) => {
+    setItemSelection((prev) => {
+      const next = { ...prev };
+      if (next[item.id]) delete next[item.id];
+      else next[item.id] = item.quantity;
+      return next;
+    });
+  };
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
-      <div className="bg-white text-black w-full max-w-[320px] rounded-lg shadow-2xl overflow-hidden animate-slideIn">
+      <div className="bg-white text-black w-full max-w-[320px] max-h-[95vh] overflow-y-auto rounded-lg shadow-2xl animate-slideIn">
         {/* Printable Area - Thermal Printer optimal width is ~80mm */}
         <div
           ref={componentRef}
@@ -65,6 +296,12 @@ export default function BillModal({ isOpen, onClose, order }: BillModalProps) {
               <span>Table:</span>
               <span>{order.table?.label || "Takeaway"}</span>
             </div>
+            {split ? (
+              <div className="flex justify-between font-bold">
+                <span>Split:</span>
+                <span>{split.label}</span>
+              </div>
+            ) : null}
           </div>
 
           <div className="border-t border-b border-black py-2 mb-4">
@@ -73,40 +310,107 @@ export default function BillModal({ isOpen, onClose, order }: BillModalProps) {
               <span className="col-span-2 text-center">Qt</span>
               <span className="col-span-4 text-right">Amt</span>
             </div>
-            {order.items.map((item: any, i: number) => (
-              <div key={i} className="grid grid-cols-12 py-1">
-                <span className="col-span-6 truncate pr-1">
-                  {item.itemName}
-                </span>
-                <span className="col-span-2 text-center">{item.quantity}</span>
-                <span className="col-span-4 text-right">
-                  {(Number(item.unitPrice) * item.quantity).toFixed(0)}
-                </span>
-              </div>
-            ))}
+            {splitMode === "EVEN" ? (
+              <p className="py-1 text-xs">
+                {`Equal share of Rs. ${Number(order.total).toFixed(2)} between ${payers} payers`}
+              </p>
+            ) : (
+              (split ? split.lines : order.items).map(
+                (item: any, i: number) => (
+                  <div key={i} className="grid grid-cols-12 py-1">
+                    <span className="col-span-6 truncate pr-1">
+                      {item.itemName}
+                      {lineModifiers(item) ? (
+                        <span className="block truncate text-[10px]">
+                          {lineModifiers(item)}
+                        </span>
+                      ) : null}
+                    </span>
+                    <span className="col-span-2 text-center">
+                      {item.quantity}
+                    </span>
+                    <span className="col-span-4 text-right">
+                      {(Number(item.unitPrice) * item.quantity).toFixed(0)}
+                    </span>
+                  </div>
+                ),
+              )
+            )}
           </div>
 
           <div className="space-y-1 text-right text-xs">
             <div className="flex justify-between">
               <span>Subtotal:</span>
-              <span>{Number(order.subtotal).toFixed(2)}</span>
+              <span>
+                {Number(split?.subtotal ?? order.subtotal).toFixed(2)}
+              </span>
             </div>
+            {split
+              ? split.discount > 0 && (
+                  <div className="flex justify-between">
+                    <span>Discounts:</span>
+                    <span>-{split.discount.toFixed(2)}</span>
+                  </div>
+                )
+              : discounts.map((d) => (
+                  <div key={d.id} className="flex justify-between">
+                    <span className="truncate pr-2">
+                      {describeDiscount(d, order.items)}:
+                    </span>
+                    <span>-{Number(d.amount).toFixed(2)}</span>
+                  </div>
+                ))}
             {Number(order.serviceCharge) > 0 && (
               <div className="flex justify-between">
                 <span>SVC ({svcPercent}%):</span>
-                <span>{Number(order.serviceCharge).toFixed(2)}</span>
+                <span>
+                  {Number(split?.serviceCharge ?? order.serviceCharge).toFixed(
+                    2,
+                  )}
+                </span>
               </div>
             )}
             {Number(order.tax) > 0 && (
               <div className="flex justify-between">
                 <span>VAT ({taxPercent}%):</span>
-                <span>{Number(order.tax).toFixed(2)}</span>
+                <span>{Number(split?.tax ?? order.tax).toFixed(2)}</span>
               </div>
             )}
             <div className="flex justify-between text-base font-bold border-t-2 border-dashed border-black pt-2 mt-2">
               <span>TOTAL:</span>
-              <span>Rs. {Number(order.total).toFixed(2)}</span>
+              <span>Rs. {Number(split?.total ?? order.total).toFixed(2)}</span>
             </div>
+            {!split && paidPayments.length > 0 ? (
+              <>
+                {paidPayments.map((p) => (
+                  <div key={p.id} className="flex justify-between">
+                    <span>
+                      Paid {p.method}
+                      {p.splitLabel ? ` (${p.splitLabel})` : ""}:
+                    </span>
+                    <span>-{Number(p.amount).toFixed(2)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between font-bold">
+                  <span>BALANCE:</span>
+                  <span>Rs. {outstanding.toFixed(2)}</span>
+                </div>
+              </>
+            ) : null}
+            {!split && refunds.length > 0
+              ? refunds.map((r) => (
+                  <div key={r.id} className="flex justify-between">
+                    <span>Refund:</span>
+                    <span>{Number(r.amount).toFixed(2)}</span>
+                  </div>
+                ))
+              : null}
+            {!split && tipTotal > 0 ? (
+              <div className="flex justify-between border-t border-dashed border-black pt-2 mt-2">
+                <span>Tip / Gratuity (not incl.):</span>
+                <span>{tipTotal.toFixed(2)}</span>
+              </div>
+            ) : null}
           </div>
 
           <div className="text-center mt-6 text-xs border-t border-black pt-2">
@@ -115,6 +419,398 @@ export default function BillModal({ isOpen, onClose, order }: BillModalProps) {
           </div>
         </div>
 
+        {claims.length > 0 ? (
+          <div className="px-4 py-3 border-t border-gray-300 no-print space-y-2 text-xs">
+            <p className="font-bold uppercase tracking-wide text-gray-700">
+              Reported by guest
+            </p>
+            {claims.map((p) => (
+              <div key={p.id} className="flex items-center gap-2">
+                <span className="flex-1">
+                  {p.method} Rs.{Number(p.amount).toFixed(2)}
+                  {Number(p.tipAmount) > 0
+                    ? ` + tip ${Number(p.tipAmount).toFixed(2)}`
+                    : ""}
+                </span>
+                <button
+                  onClick={() =>
+                    reviewClaim.mutate({ paymentId: p.id, action: "CONFIRM" })
+                  }
+                  disabled={reviewClaim.isPending}
+                  className="text-green-700 font-bold"
+                >
+                  Received
+                </button>
+                <button
+                  onClick={() =>
+                    reviewClaim.mutate({ paymentId: p.id, action: "REJECT" })
+                  }
+                  disabled={reviewClaim.isPending}
+                  className="text-red-600 font-bold"
+                >
+                  Not received
+                </button>
+              </div>
+            ))}
+            {reviewClaim.error ? (
+              <p className="text-red-600">{reviewClaim.error.message}</p>
+            ) : null}
+          </div>
+        ) : null}
+
+        {/* Split controls - kept outside the printable area */}
+        {order.id && canCollect ? (
+          <div className="px-4 py-3 border-t border-gray-300 no-print space-y-2 text-xs">
+            <div className="grid grid-cols-3 gap-1">
+              {(["FULL", "ITEMS", "EVEN"] as SplitMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setSplitMode(mode)}
+                  className={`px-2 py-1 rounded border font-bold ${
+                    splitMode === mode
+                      ? "bg-black text-white border-black"
+                      : "bg-white text-gray-700 border-gray-300"
+                  }`}
+                >
+                  {mode === "FULL"
+                    ? "Full"
+                    : mode === "ITEMS"
+                      ? "By Items"
+                      : "Evenly"}
+                </button>
+              ))}
+            </div>
+
+            {splitMode === "ITEMS" ? (
+              <div className="space-y-1">
+                {order.items.map((item: any) => (
+                  <label key={item.id} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={!!itemSelection[item.id]}
+                      onChange={() => toggleItem(item)}
+                    />
+                    <span className="flex-1 truncate">
+                      {item.itemName} x{item.quantity}
+                      {lineModifiers(item) ? ` (${lineModifiers(item)})` : ""}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            ) : null}
+
+            {splitMode === "EVEN" ? (
+              <div className="flex items-center gap-2">
+                <span>Payers</span>
+                <input
+                  type="number"
+                  min={2}
+                  max={20}
+                  value={payers}
+                  onChange={(e) => {
+                    setPayers(
+                      Math.min(20, Math.max(2, Number(e.target.value))),
+                    );
+                    setShareIndex(0);
+                  }}
+                  className="w-14 border border-gray-300 rounded px-1"
+                />
+                <select
+                  value={shareIndex}
+                  onChange={(e) => setShareIndex(Number(e.target.value))}
+                  className="flex-1 border border-gray-300 rounded px-1"
+                >
+                  {evenShares.map((share, index) => (
+                    <option key={share.label} value={index}>
+                      {share.label} • Rs.{share.total.toFixed(2)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : null}
+
+            <div className="flex justify-between font-bold">
+              <span>Outstanding</span>
+              <span>Rs. {outstanding.toFixed(2)}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <span>Tip</span>
+              <input
+                type="number"
+                min={0}
+                value={tipInput}
+                onChange={(e) => setTipInput(e.target.value)}
+                placeholder="0"
+                className="flex-1 border border-gray-300 rounded px-1"
+              />
+            </div>
+            {collectCash.error ? (
+              <p className="text-red-600">{collectCash.error.message}</p>
+            ) : null}
+            <button
+              onClick={() =>
+                collectCash.mutate({
+                  amount: amountDue,
+                  splitLabel: split?.label,
+                  tipAmount: tipAmount > 0 ? tipAmount : undefined,
+                })
+              }
+              disabled={collectCash.isPending || amountDue < PAYMENT_TOLERANCE}
+              className="w-full px-4 py-2 font-bold text-white bg-emerald-700 rounded hover:bg-emerald-800 transition-colors"
+            >
+              {collectCash.isPending
+                ? "Recording..."
+                : `Collect Cash Rs. ${amountDue.toFixed(2)}${tipAmount > 0 ? ` + Tip ${tipAmount.toFixed(2)}` : ""}`}
+            </button>
+          </div>
+        ) : null}
+
+        {/* Discounts, comps and promo codes for open orders */}
+        {order.id && canDiscount ? (
+          <div className="px-4 py-3 border-t border-gray-300 no-print space-y-2 text-xs">
+            <p className="font-bold uppercase tracking-wide text-gray-700">
+              Discounts
+            </p>
+            <div className="grid grid-cols-3 gap-1">
+              {(["DISCOUNT", "COMP", "PROMO"] as DiscountMode[])
+                .filter((mode) => mode !== "COMP" || isManager)
+                .map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setDiscountMode(mode)}
+                    className={`px-2 py-1 rounded border font-bold ${
+                      discountMode === mode
+                        ? "bg-black text-white border-black"
+                        : "bg-white text-gray-700 border-gray-300"
+                    }`}
+                  >
+                    {DISCOUNT_LABELS[mode]}
+                  </button>
+                ))}
+            </div>
+            {discountMode === "PROMO" ? (
+              <input
+                value={promoCode}
+                onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                placeholder="Promo code"
+                className="w-full border border-gray-300 rounded px-1 py-1"
+              />
+            ) : (
+              <>
+                <select
+                  value={discountItemId}
+                  onChange={(e) => setDiscountItemId(e.target.value)}
+                  className="w-full border border-gray-300 rounded px-1 py-1"
+                >
+                  <option value="">Whole order</option>
+                  {order.items.map((item: any) => (
+                    <option key={item.id} value={item.id}>
+                      {item.itemName} x{item.quantity}
+                      {lineModifiers(item) ? ` (${lineModifiers(item)})` : ""}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex gap-1">
+                  <select
+                    value={discountValueType}
+                    onChange={(e) =>
+                      setDiscountValueType(
+                        e.target.value as "PERCENT" | "FIXED",
+                      )
+                    }
+                    className="border border-gray-300 rounded px-1"
+                  >
+                    <option value="PERCENT">%</option>
+                    <option value="FIXED">Rs.</option>
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    value={discountValue}
+                    onChange={(e) => setDiscountValue(e.target.value)}
+                    placeholder={discountMode === "COMP" ? "100" : "10"}
+                    className="flex-1 border border-gray-300 rounded px-1"
+                  />
+                </div>
+                <input
+                  value={discountReason}
+                  onChange={(e) => setDiscountReason(e.target.value)}
+                  placeholder={
+                    discountMode === "COMP"
+                      ? "Comp reason (required)"
+                      : "Reason (optional)"
+                  }
+                  className="w-full border border-gray-300 rounded px-1 py-1"
+                />
+              </>
+            )}
+            {changeDiscounts.error ? (
+              <p className="text-red-600">{changeDiscounts.error.message}</p>
+            ) : null}
+            <button
+              onClick={() =>
+                changeDiscounts.mutate({
+                  method: "POST",
+                  payload:
+                    discountMode === "PROMO"
+                      ? { kind: "PROMO", code: promoCode }
+                      : {
+                          kind: discountMode,
+                          valueType: discountValueType,
+                          ...(Number(discountValue) > 0
+                            ? { value: Number(discountValue) }
+                            : {}),
+                          ...(discountItemId
+                            ? { orderItemId: discountItemId }
+                            : {}),
+                          ...(discountReason.trim()
+                            ? { reason: discountReason.trim() }
+                            : {}),
+                        },
+                })
+              }
+              disabled={
+                changeDiscounts.isPending ||
+                (discountMode === "PROMO" && !promoCode.trim()) ||
+                (discountMode === "DISCOUNT" && !(Number(discountValue) > 0)) ||
+                (discountMode === "COMP" && discountReason.trim().length < 3)
+              }
+              className="w-full px-4 py-2 font-bold text-white bg-indigo-700 rounded hover:bg-indigo-800 transition-colors"
+            >
+              {changeDiscounts.isPending
+                ? "Applying..."
+                : `Apply ${DISCOUNT_LABELS[discountMode]}`}
+            </button>
+            {isManager && discounts.length > 0 ? (
+              <div className="space-y-1">
+                {discounts.map((d) => (
+                  <div key={d.id} className="flex items-center justify-between">
+                    <span className="truncate">
+                      {DISCOUNT_LABELS[d.kind] || d.kind} -
+                      {Number(d.amount).toFixed(2)}
+                    </span>
+                    <button
+                      onClick={() =>
+                        changeDiscounts.mutate({
+                          method: "DELETE",
+                          payload: { discountId: d.id },
+                        })
+                      }
+                      disabled={changeDiscounts.isPending}
+                      className="text-red-600 font-bold"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+
+        {/* Manager-only refunds */}
+        {canRefund ? (
+          <div className="px-4 py-3 border-t border-gray-300 no-print space-y-2 text-xs">
+            <p className="font-bold uppercase tracking-wide text-gray-700">
+              Refund
+            </p>
+            <select
+              value={selectedRefundPaymentId}
+              onChange={(e) => setRefundPaymentId(e.target.value)}
+              className="w-full border border-gray-300 rounded px-1 py-1"
+            >
+              {paidPayments.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.method} Rs.{Number(p.amount).toFixed(2)}
+                  {p.splitLabel ? ` (${p.splitLabel})` : ""}
+                </option>
+              ))}
+            </select>
+            <div className="space-y-1">
+              {order.items.map((item: any) => (
+                <label key={item.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={!!refundItems[item.id]}
+                    onChange={() =>
+                      setRefundItems((prev) => {
+                        const next = { ...prev };
+                        if (next[item.id]) delete next[item.id];
+                        else next[item.id] = item.quantity;
+                        return next;
+                      })
+                    }
+                  />
+                  <span className="flex-1 truncate">
+                    {item.itemName} x{item.quantity}
+                    {lineModifiers(item) ? ` (${lineModifiers(item)})` : ""}
+                  </span>
+                </label>
+              ))}
+            </div>
+            <input
+              type="number"
+              min={0}
+              value={refundAmount}
+              onChange={(e) => setRefundAmount(e.target.value)}
+              disabled={Object.keys(refundItems).length > 0}
+              placeholder="Amount (blank = full refund)"
+              className="w-full border border-gray-300 rounded px-1 py-1"
+            />
+            <input
+              type="text"
+              value={refundReason}
+              onChange={(e) => setRefundReason(e.target.value)}
+              placeholder="Reason (required)"
+              className="w-full border border-gray-300 rounded px-1 py-1"
+            />
+            {issueRefund.error ? (
+              <p className="text-red-600">{issueRefund.error.message}</p>
+            ) : null}
+            <button
+              onClick={() =>
+                issueRefund.mutate({
+                  paymentId: selectedRefundPaymentId,
+                  reason: refundReason.trim(),
+                  ...(Object.keys(refundItems).length > 0
+                    ? {
+                        items: Object.entries(refundItems).map(
+                          ([orderItemId, quantity]) => ({
+                            orderItemId,
+                            quantity,
+                          }),
+                        ),
+                      }
+                    : Number(refundAmount) > 0
+                      ? { amount: Number(refundAmount) }
+                      : {}),
+                })
+              }
+              disabled={issueRefund.isPending || refundReason.trim().length < 3}
+              className="w-full px-4 py-2 font-bold text-white bg-amber-700 rounded hover:bg-amber-800 transition-colors"
+            >
+              {issueRefund.isPending ? "Refunding..." : "Issue Refund"}
+            </button>
+          </div>
+        ) : null}
+
+        {/* Audit trail - kept outside the printable area */}
+        {order.id ? (
+          <div className="px-4 py-2 border-t border-gray-300 no-print">
+            <button
+              onClick={() => setShowTimeline((v) => !v)}
+              className="text-xs font-bold uppercase tracking-wide text-gray-700"
+            >
+              {showTimeline ? "Hide" : "Show"} Timeline
+            </button>
+            {showTimeline ? (
+              <div className="mt-2">
+                <OrderTimeline orderId={order.id} />
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+
         {/* Action Buttons */}
         <div className="p-3 bg-gray-100 flex gap-2 no-print border-t border-gray-300">
           <button
@@ -127,7 +823,7 @@ export default function BillModal({ isOpen, onClose, order }: BillModalProps) {
             onClick={handlePrint}
             className="flex-1 px-4 py-2 text-sm font-bold text-white bg-black rounded hover:bg-gray-800 transition-colors flex items-center justify-center gap-2"
           >
-            <span>🖨️</span> Print Bill
+            <span>🖨️</span> {split ? "Print Split" : "Print Bill"}
           </button>
         </div>
       </div>
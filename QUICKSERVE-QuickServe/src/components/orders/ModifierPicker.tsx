@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import {
+  parseModifierGroups,
+  resolveModifierSelection,
+  unitPriceWithModifiers,
+  type SelectedModifier,
+} from "@/lib/modifiers";
+import { comboChoiceGroups } from "@/lib/combos";
+
+interface ModifierPickerProps {
+  item: any;
+  onConfirm: (modifiers: SelectedModifier[], unitPrice: number) => void;
+  onCancel: () => void;
+}
+
+export default function ModifierPicker({
+  item,
+  onConfirm,
+  onCancel,
+}: ModifierPickerProps) {
+  // A combo's choice slots ("Drink") are picked here alongside modifiers.
+  const groups = [
+    ...comboChoiceGroups(item.comboSlots),
+    ...parseModifierGroups(item.variants),
+  ];
+  // Single-choice groups start on their first option so the common case is
+  // one tap; multi-choice add-ons start empty.
+  const [chosen, setChosen] = useState<Record<string, string[]>>(() =>
+    Object.fromEntries(
+      groups.map((g) => [
+        g.id,
+        g.required && g.maxSelect === 1 ? [g.options[0].id] : [],
+      ]),
+    ),
+  );
+
+  const toggle = (groupId: string, optionId: string, single: boolean) => {
+    setChosen((prev) => {
+      const current = prev[groupId] || [];
+      if (single) return { ...prev, [groupId]: [optionId] };
+      return {
+        ...prev,
+        [groupId]: current.includes(optionId)
+          ? current.filter((id) => id !== optionId)
+          : [...current, optionId],
+      };
+    });
+  };
+
+  const resolved = resolveModifierSelection(
+    groups,
+    Object.entries(chosen).map(([groupId, optionIds]) => ({
+      groupId,
+      optionIds,
+    })),
+  );
+  const unitPrice = resolved.ok
+    ? unitPriceWithModifiers(item.price, resolved.modifiers)
+    : Number(item.price);
+
+  return (
+    <div className="rounded-xl border border-slate-700 bg-slate-950 p-3 space-y-3">
+      <div className="flex justify-between items-start gap-2">
+        <span className="font-bold text-sm text-slate-200">{item.name}</span>
+        <span className="text-xs font-black text-primary">Rs.{unitPrice}</span>
+      </div>
+
+      {groups.map((group) => {
+        const single = group.maxSelect === 1;
+        return (
+          <div key={group.id} className="space-y-1.5">
+            <p className="text-[10px] font-black uppercase tracking-[0.14em] text-slate-400">
+              {group.name}
+              {group.required ? " *" : ""}
+              {!single ? ` (up to ${group.maxSelect})` : ""}
+            </p>
+            <div className="flex flex-wrap gap-1.5">
+              {group.options.map((option) => {
+                const selected = (chosen[group.id] || []).includes(option.id);
+                return (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => toggle(group.id, option.id, single)}
+                    className={`px-2 py-1 rounded-lg text-xs border ${
+                      selected
+                        ? "bg-primary/20 border-primary text-primary"
+                        : "bg-slate-900 border-slate-700 text-slate-300"
+                    }`}
+                  >
+                    {option.name}
+                    {option.priceDelta ? ` +${option.priceDelta}` : ""}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+
+      {!resolved.ok ? (
+        <p className="text-xs text-red-300">{resolved.error}</p>
+      ) : null}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="btn-ghost flex-1 text-xs py-2"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          disabled={!resolved.ok}
+          onClick={() =>
+            resolved.ok && onConfirm(resolved.modifiers, unitPrice)
+          }
+          className="btn-primary flex-1 text-xs py-2"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -4,17 +4,42 @@ import { useState, useEffect, useMemo } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useSession } from "next-auth/react";
 import { normalizeTableLabel } from "@/lib/tableGroups";
+import {
+  formatModifiers,
+  modifierSignature,
+  parseModifierGroups,
+  parseOrderItemModifiers,
+  type SelectedModifier,
+} from "@/lib/modifiers";
+import { comboChoiceGroups, splitComboChoices } from "@/lib/combos";
+import ModifierPicker from "@/components/orders/ModifierPicker";
 
 interface NewOrderModalProps {
   isOpen: boolean;
   onClose: () => void;
   initialTableId?: string | null;
+  // When set, the modal edits lines on this open order instead of creating one.
+  editOrder?: any | null;
+}
+
+// The API takes option ids per group; cart lines keep the full snapshot.
+// Combo choices picked in the same picker are sent separately.
+function selectionsFor(picked: SelectedModifier[] = []) {
+  const byGroup = new Map<string, string[]>();
+  for (const m of splitComboChoices(picked).modifiers) {
+    byGroup.set(m.groupId, [...(byGroup.get(m.groupId) || []), m.optionId]);
+  }
+  return Array.from(byGroup.entries()).map(([groupId, optionIds]) => ({
+    groupId,
+    optionIds,
+  }));
 }
 
 export default function NewOrderModal({
   isOpen,
   onClose,
   initialTableId = null,
+  editOrder = null,
 }: NewOrderModalProps) {
   const { data: session } = useSession();
   const queryClient = useQueryClient();
@@ -23,6 +48,9 @@ export default function NewOrderModal({
   const [cart, setCart] = useState<any[]>([]);
   const [notes, setNotes] = useState("");
   const [menuSearch, setMenuSearch] = useState("");
+  const [voidReason, setVoidReason] = useState("");
+  const [modifierItem, setModifierItem] = useState<any | null>(null);
+  const isEditMode = !!editOrder;
 
   // Fetch tables and menu
   const { data: tablesData } = useQuery({
@@ -35,6 +63,7 @@ export default function NewOrderModal({
     queryFn: async () =>
       (await fetch(`/api/menu?slug=${session?.user?.tenantSlug}`)).json(),
     enabled: !!session?.user?.tenantSlug,
+    refetchInterval: 60000,
   });
 
   const tables = tablesData?.tables || [];
@@ -127,42 +156,159 @@ export default function NewOrderModal({
             menuItemId: item.id,
             quantity: item.qty,
             instructions: item.instructions || "",
+            modifiers: selectionsFor(item.modifiers),
+            combo: splitComboChoices(item.modifiers).combo,
           })),
           type: selectedTableId ? "DINE_IN" : "TAKEAWAY",
           notes,
         }),
       });
-      if (!res.ok) throw new Error("Failed to create order");
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to create order");
+      }
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["orders"] });
       onClose();
-      // Reset form
-      setCart([]);
-      setSelectedBase("");
-      setSelectedGroup("");
-      setNotes("");
-      setMenuSearch("");
+      resetForm();
+    },
+  });
+
+  const resetForm = () => {
+    setCart([]);
+    setSelectedBase("");
+    setSelectedGroup("");
+    setNotes("");
+    setMenuSearch("");
+    setVoidReason("");
+    setModifierItem(null);
+  };
+
+  const voidedLines = isEditMode
+    ? (editOrder.items || []).filter(
+        (original: any) => !cart.some((c) => c.orderItemId === original.id),
+      )
+    : [];
+
+  const saveEdits = useMutation({
+    mutationFn: async () => {
+      const endpoint = `/api/orders/${editOrder.id}/items`;
+      const send = async (method: string, payload: Record<string, any>) => {
+        const res = await fetch(endpoint, {
+          method,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        });
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}));
+          throw new Error(body.error || "Failed to update order");
+        }
+        return res.json();
+      };
+
+      // Adds and quantity changes first so voiding never empties the order.
+      for (const line of cart) {
+        if (!line.orderItemId) {
+          await send("POST", {
+            menuItemId: line.id,
+            quantity: line.qty,
+            instructions: line.instructions || undefined,
+            modifiers: selectionsFor(line.modifiers),
+            combo: splitComboChoices(line.modifiers).combo,
+          });
+        } else if (line.qty !== line.originalQty) {
+          await send("PATCH", {
+            orderItemId: line.orderItemId,
+            quantity: line.qty,
+          });
+        }
+      }
+      for (const original of voidedLines) {
+        await send("DELETE", {
+          orderItemId: original.id,
+          reason: voidReason.trim(),
+        });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      onClose();
+      resetForm();
     },
   });
 
-  const addToCart = (item: any) => {
+  // Items with modifier groups or combo choices go through the picker before
+  // reaching the cart.
+  const selectMenuItem = (item: any) => {
+    if (
+      parseModifierGroups(item.variants).length > 0 ||
+      comboChoiceGroups(item.comboSlots).length > 0
+    ) {
+      setModifierItem(item);
+      return;
+    }
+    addToCart(item, []);
+  };
+
+  // Lines merge only when the item and its chosen modifiers match.
+  const addToCart = (
+    item: any,
+    modifiers: SelectedModifier[],
+    unitPrice = Number(item.price),
+  ) => {
+    const signature = modifierSignature(modifiers);
     setCart((prev) => {
-      const existing = prev.find((i) => i.id === item.id);
+      const existing = prev.find(
+        (i) =>
+          i.id === item.id &&
+          modifierSignature(i.modifiers || []) === signature,
+      );
       if (existing) {
         return prev.map((i) =>
-          i.id === item.id ? { ...i, qty: i.qty + 1 } : i,
+          i.key === existing.key ? { ...i, qty: i.qty + 1 } : i,
         );
       }
-      return [...prev, { ...item, qty: 1 }];
+      return [
+        ...prev,
+        {
+          ...item,
+          key: `${item.id}|${signature}`,
+          price: unitPrice,
+          qty: 1,
+          modifiers,
+        },
+      ];
     });
   };
 
-  const removeFromCart = (itemId: string) => {
-    setCart((prev) => prev.filter((i) => i.id !== itemId));
+  const changeQty = (key: string, delta: number) => {
+    setCart((prev) =>
+      prev
+        .map((i) => (i.key === key ? { ...i, qty: i.qty + delta } : i))
+        .filter((i) => i.qty > 0),
+    );
   };
 
+  useEffect(() => {
+    if (!isOpen || !editOrder) return;
+    setCart(
+      (editOrder.items || []).map((item: any) => ({
+        id: item.menuItemId,
+        key: item.id,
+        orderItemId: item.id,
+        name: item.itemName,
+        price: Number(item.unitPrice),
+        qty: item.quantity,
+        originalQty: item.quantity,
+        instructions: item.instructions || "",
+        modifiers: parseOrderItemModifiers(item.modifiers),
+      })),
+    );
+    setVoidReason("");
+  }, [isOpen, editOrder?.id]);
+
   useEffect(() => {
     if (!isOpen) return;
     if (!initialTableId) {
@@ -205,10 +351,12 @@ export default function NewOrderModal({
         <div className="p-4 md:p-5 border-b border-slate-700 flex justify-between items-center bg-slate-900/90 sticky top-0 z-10">
           <div>
             <h2 className="text-xl md:text-2xl font-black uppercase tracking-tight">
-              New Order
+              {isEditMode ? `Edit ${editOrder.orderNumber}` : "New Order"}
             </h2>
             <p className="text-[10px] md:text-xs uppercase tracking-[0.2em] text-slate-400 font-bold mt-1">
-              Main-Flow Order Composer
+              {isEditMode
+                ? `${editOrder.table?.label || "Takeaway"} • Add, change or void lines`
+                : "Main-Flow Order Composer"}
             </p>
           </div>
           <button
@@ -223,7 +371,7 @@ export default function NewOrderModal({
           {/* Left: Menu Selection */}
           <div className="flex-1 overflow-y-auto p-4 md:p-5 lg:border-r border-slate-700 custom-scrollbar">
             <div className="space-y-5">
-              <div>
+              <div className={isEditMode ? "hidden" : undefined}>
                 <label className="label">Select Table (Optional)</label>
                 <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 xl:grid-cols-5 gap-2">
                   <button
@@ -339,11 +487,14 @@ export default function NewOrderModal({
                         {items.map((item: any) => (
                           <button
                             key={item.id}
-                            onClick={() => addToCart(item)}
+                            onClick={() => selectMenuItem(item)}
+                            disabled={item.availableNow === false}
                             className={`text-left p-3 rounded-xl border transition-colors group relative ${
-                              cartQtyMap[item.id]
-                                ? "border-primary/50 ring-1 ring-primary/30 bg-slate-900"
-                                : "border-slate-700 hover:border-primary/60 bg-slate-950 hover:bg-slate-900"
+                              item.availableNow === false
+                                ? "border-slate-800 bg-slate-950 opacity-50 cursor-not-allowed"
+                                : cartQtyMap[item.id]
+                                  ? "border-primary/50 ring-1 ring-primary/30 bg-slate-900"
+                                  : "border-slate-700 hover:border-primary/60 bg-slate-950 hover:bg-slate-900"
                             }`}
                           >
                             <div className="flex justify-between items-start gap-2">
@@ -351,14 +502,32 @@ export default function NewOrderModal({
                                 {item.name}
                               </span>
                               <span className="text-xs font-black bg-slate-800 border border-slate-700 px-2 py-0.5 rounded-md">
+                                {item.regularPrice ? (
+                                  <span className="mr-1 font-semibold text-slate-500 line-through">
+                                    Rs.{Number(item.regularPrice)}
+                                  </span>
+                                ) : null}
                                 Rs.{Number(item.price)}
                               </span>
                             </div>
+                            {item.priceRule ? (
+                              <p className="mt-1 text-[10px] font-black uppercase tracking-[0.14em] text-emerald-300">
+                                {item.priceRule}
+                              </p>
+                            ) : null}
                             {item.description ? (
                               <p className="text-xs text-slate-400 mt-1 line-clamp-2">
                                 {item.description}
                               </p>
                             ) : null}
+                            {item.availableNow === false ? (
+                              <p className="mt-2 text-[10px] font-black uppercase tracking-[0.14em] text-amber-300">
+                                Served{" "}
+                                {cat.availableNow === false
+                                  ? cat.scheduleText
+                                  : item.scheduleText}
+                              </p>
+                            ) : null}
                             {cartQtyMap[item.id] ? (
                               <p className="mt-2 text-[10px] font-black uppercase tracking-[0.14em] text-primary">
                                 In cart x{cartQtyMap[item.id]}
@@ -388,38 +557,33 @@ export default function NewOrderModal({
               ) : (
                 cart.map((item) => (
                   <div
-                    key={item.id}
+                    key={item.key}
                     className="flex justify-between items-center text-sm bg-slate-950 border border-slate-700 rounded-xl p-2.5"
                   >
                     <div className="flex items-center gap-2">
                       <div className="flex items-center border border-slate-700 rounded-lg">
                         <button
                           className="px-2 py-1 hover:bg-slate-800 rounded-l-lg"
-                          onClick={() => {
-                            if (item.qty > 1) {
-                              setCart((prev) =>
-                                prev.map((i) =>
-                                  i.id === item.id
-                                    ? { ...i, qty: i.qty - 1 }
-                                    : i,
-                                ),
-                              );
-                            } else {
-                              removeFromCart(item.id);
-                            }
-                          }}
+                          onClick={() => changeQty(item.key, -1)}
                         >
                           −
                         </button>
                         <span className="px-2 font-bold">{item.qty}</span>
                         <button
                           className="px-2 py-1 hover:bg-slate-800 rounded-r-lg"
-                          onClick={() => addToCart(item)}
+                          onClick={() => changeQty(item.key, 1)}
                         >
                           +
                         </button>
                       </div>
-                      <span className="font-medium">{item.name}</span>
+                      <div>
+                        <span className="font-medium">{item.name}</span>
+                        {item.modifiers?.length ? (
+                          <p className="text-[11px] text-slate-400">
+                            {formatModifiers(item.modifiers)}
+                          </p>
+                        ) : null}
+                      </div>
                     </div>
                     <span className="font-mono font-semibold">
                       Rs.{Number(item.price) * item.qty}
@@ -437,7 +601,7 @@ export default function NewOrderModal({
                   </p>
                   {cart.map((item) => (
                     <div
-                      key={`summary-${item.id}`}
+                      key={`summary-${item.key}`}
                       className="flex items-center justify-between text-xs"
                     >
                       <span className="text-slate-200">
@@ -450,34 +614,91 @@ export default function NewOrderModal({
                   ))}
                 </div>
               )}
-              <input
-                type="text"
-                placeholder="Order notes (optional)..."
-                className="input text-sm bg-slate-950 border-slate-700"
-                value={notes}
-                onChange={(e) => setNotes(e.target.value)}
-              />
+              {isEditMode ? (
+                voidedLines.length > 0 ? (
+                  <div className="space-y-1.5">
+                    <p className="text-[10px] font-black uppercase tracking-[0.16em] text-red-300">
+                      Voiding:{" "}
+                      {voidedLines
+                        .map(
+                          (line: any) => `${line.itemName} x${line.quantity}`,
+                        )
+                        .join(", ")}
+                    </p>
+                    <input
+                      type="text"
+                      placeholder="Void reason (required)..."
+                      className="input text-sm bg-slate-950 border-red-500/50"
+                      value={voidReason}
+                      onChange={(e) => setVoidReason(e.target.value)}
+                    />
+                  </div>
+                ) : null
+              ) : (
+                <input
+                  type="text"
+                  placeholder="Order notes (optional)..."
+                  className="input text-sm bg-slate-950 border-slate-700"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+              )}
 
               <div className="flex justify-between font-black text-lg">
                 <span>Total</span>
                 <span className="font-mono">Rs. {total}</span>
               </div>
 
-              <button
-                onClick={() => createOrder.mutate()}
-                disabled={
-                  cart.length === 0 ||
-                  createOrder.isPending ||
-                  (selectedBase.length > 0 && !selectedTableId)
-                }
-                className="btn-primary w-full py-3 text-sm md:text-base"
-              >
-                {createOrder.isPending ? "Placing Order..." : "Place Order"}
-              </button>
+              {saveEdits.error || createOrder.error ? (
+                <p className="text-xs text-red-300">
+                  {(saveEdits.error || createOrder.error)?.message}
+                </p>
+              ) : null}
+
+              {isEditMode ? (
+                <button
+                  onClick={() => saveEdits.mutate()}
+                  disabled={
+                    cart.length === 0 ||
+                    saveEdits.isPending ||
+                    (voidedLines.length > 0 && voidReason.trim().length < 3)
+                  }
+                  className="btn-primary w-full py-3 text-sm md:text-base"
+                >
+                  {saveEdits.isPending ? "Saving..." : "Save Changes"}
+                </button>
+              ) : (
+                <button
+                  onClick={() => createOrder.mutate()}
+                  disabled={
+                    cart.length === 0 ||
+                    createOrder.isPending ||
+                    (selectedBase.length > 0 && !selectedTableId)
+                  }
+                  className="btn-primary w-full py-3 text-sm md:text-base"
+                >
+                  {createOrder.isPending ? "Placing Order..." : "Place Order"}
+                </button>
+              )}
             </div>
           </div>
         </div>
       </div>
+
+      {modifierItem ? (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+          <div className="w-full max-w-sm">
+            <ModifierPicker
+              item={modifierItem}
+              onCancel={() => setModifierItem(null)}
+              onConfirm={(modifiers, unitPrice) => {
+                addToCart(modifierItem, modifiers, unitPrice);
+                setModifierItem(null);
+              }}
+            />
+          </div>
+        </div>
+      ) : null}
     </div>
   );
 }
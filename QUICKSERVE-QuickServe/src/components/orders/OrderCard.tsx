@@ -2,6 +2,8 @@
 
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { formatDistanceToNow } from "date-fns";
+import { formatModifiers, parseOrderItemModifiers } from "@/lib/modifiers";
+import { kitchenComponentLines } from "@/lib/combos";
 
 type OrderCardProps = {
   order: any;
@@ -23,7 +25,10 @@ export default function OrderCard({
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ orderId: order.id, status: newStatus }),
       });
-      if (!res.ok) throw new Error("Failed to update status");
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to update status");
+      }
       return res.json();
     },
     onSuccess: () => {
@@ -101,6 +106,21 @@ export default function OrderCard({
             <span className="text-slate-100 font-semibold leading-snug">
               • {item.itemName}{" "}
               <span className="text-primary">x{item.quantity}</span>
+              {item.modifiers && item.modifiers !== "[]" ? (
+                <span className="block text-xs font-normal text-slate-400">
+                  {formatModifiers(parseOrderItemModifiers(item.modifiers))}
+                </span>
+              ) : null}
+              {/* Combos are cooked as their components. */}
+              {kitchenComponentLines(item).map((component) => (
+                <span
+                  key={component.key}
+                  className="block text-xs font-normal text-slate-300"
+                >
+                  ↳ {component.name}{" "}
+                  <span className="text-primary">x{component.quantity}</span>
+                </span>
+              ))}
             </span>
             <span className="font-mono text-slate-400 whitespace-nowrap">
               Rs. {(Number(item.unitPrice) * item.quantity).toFixed(0)}
@@ -161,6 +181,11 @@ export default function OrderCard({
             </>
           )}
         </div>
+        {updateStatus.error ? (
+          <p className="mt-2 text-xs text-red-400">
+            {updateStatus.error.message}
+          </p>
+        ) : null}
       </div>
     </div>
   );
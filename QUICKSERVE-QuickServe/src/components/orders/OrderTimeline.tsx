@@ -0,0 +1,89 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+
+type OrderTimelineProps = {
+  orderId: string;
+};
+
+const EVENT_LABELS: Record<string, string> = {
+  ORDER_CREATED: "Order created",
+  STATUS_CHANGED: "Status changed",
+  ITEMS_CHANGED: "Items changed",
+  PAYMENT_RECORDED: "Payment recorded",
+  PAYMENT_REFUNDED: "Refund issued",
+  DISCOUNT_APPLIED: "Discount applied",
+  DISCOUNT_REMOVED: "Discount removed",
+};
+
+function describeEvent(event: any): string {
+  const oldValue = event.oldValue || {};
+  const newValue = event.newValue || {};
+  switch (event.type) {
+    case "STATUS_CHANGED":
+      return `${oldValue.status || "?"} → ${newValue.status || "?"}`;
+    case "ITEMS_CHANGED":
+      return `Total Rs.${Number(oldValue.total || 0).toFixed(0)} → Rs.${Number(newValue.total || 0).toFixed(0)}`;
+    case "PAYMENT_RECORDED":
+      return `${newValue.method || ""} Rs.${Number(newValue.amount || 0).toFixed(2)} (${newValue.status || ""})${newValue.conflict ? ` • ${newValue.conflict}` : ""}${newValue.overpaid ? ` • Rs.${Number(newValue.overpaid).toFixed(2)} overpaid, refund due` : ""}`;
+    case "PAYMENT_REFUNDED":
+      return `Rs.${Number(newValue.amount || 0).toFixed(2)} • ${newValue.reason || ""}`;
+    case "DISCOUNT_APPLIED":
+      return `${newValue.kind || ""} -Rs.${Number(newValue.amount || 0).toFixed(2)}${newValue.reason ? ` • ${newValue.reason}` : ""}`;
+    case "DISCOUNT_REMOVED":
+      return `${oldValue.kind || ""} -Rs.${Number(oldValue.amount || 0).toFixed(2)} removed`;
+    case "ORDER_CREATED":
+      return `${(newValue.items || []).length} item(s) • Rs.${Number(newValue.total || 0).toFixed(0)}`;
+    default:
+      return "";
+  }
+}
+
+function describeActor(actor: any): string {
+  if (actor?.kind === "USER") return actor.name || "Staff";
+  if (actor?.kind === "CHAT") return "Chat guest";
+  return "System";
+}
+
+export default function OrderTimeline({ orderId }: OrderTimelineProps) {
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["orders", "history", orderId],
+    queryFn: async () => {
+      const res = await fetch(`/api/orders/${orderId}/history`);
+      if (!res.ok) throw new Error("Failed to fetch order history");
+      return res.json();
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-gray-500">Loading timeline...</p>;
+  }
+  if (isError) {
+    return <p className="text-xs text-red-600">Could not load timeline.</p>;
+  }
+
+  const events = data?.events || [];
+  if (events.length === 0) {
+    return <p className="text-xs text-gray-500">No recorded events yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-2 max-h-48 overflow-y-auto">
+      {events.map((event: any) => (
+        <li key={event.id} className="border-l-2 border-gray-400 pl-2 text-xs">
+          <div className="flex justify-between gap-2">
+            <span className="font-bold">
+              {EVENT_LABELS[event.type] || event.type}
+            </span>
+            <span className="text-gray-500">
+              {format(new Date(event.createdAt), "dd/MM HH:mm")}
+            </span>
+          </div>
+          <p className="text-gray-700">{describeEvent(event)}</p>
+          <p className="text-gray-500">by {describeActor(event.actor)}</p>
+        </li>
+      ))}
+    </ol>
+  );
+}
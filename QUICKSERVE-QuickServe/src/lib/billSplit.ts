@@ -0,0 +1,223 @@
+// Pure bill-splitting helpers shared by /api/payments and BillModal.
+// Amounts are worked in paisa so shares always add back up to the total.
+
+export type SplitLine = {
+  itemId: string;
+  itemName: string;
+  unitPrice: number;
+  quantity: number;
+  total: number;
+  modifiers?: string | null;
+};
+
+export type BillSplit = {
+  label: string;
+  lines: SplitLine[];
+  subtotal: number;
+  discount: number;
+  serviceCharge: number;
+  tax: number;
+  total: number;
+};
+
+// Anything below one paisa counts as settled.
+export const PAYMENT_TOLERANCE = 0.01;
+
+const toPaisa = (amount: number) => Math.round(Number(amount) * 100);
+const fromPaisa = (paisa: number) => paisa / 100;
+
+export function sumPaidPayments(
+  payments: { amount: any; status: string }[] | undefined,
+): number {
+  const paisa = (payments || [])
+    .filter((p) => p.status === "PAID")
+    .reduce((sum, p) => sum + toPaisa(Number(p.amount)), 0);
+  return fromPaisa(paisa);
+}
+
+// Refund rows are stored as negative REFUNDED payments.
+export function sumRefunds(
+  payments: { amount: any; status: string }[] | undefined,
+): number {
+  const paisa = (payments || [])
+    .filter((p) => p.status === "REFUNDED")
+    .reduce((sum, p) => sum + Math.abs(toPaisa(Number(p.amount))), 0);
+  return fromPaisa(paisa);
+}
+
+// What the order has actually collected. While it is open a refund hands the
+// money back and is owed again; once it is settled a refund never reopens
+// the bill, so only the payments count.
+export function collectedAmount(
+  order: { status: string },
+  payments: { amount: any; status: string }[] | undefined,
+): number {
+  const paid = toPaisa(sumPaidPayments(payments));
+  if (order.status === "PAID") return fromPaisa(paid);
+  return fromPaisa(Math.max(0, paid - toPaisa(sumRefunds(payments))));
+}
+
+export function outstandingBalance(
+  order: { total: any; status: string },
+  payments: { amount: any; status: string }[] | undefined,
+): number {
+  const remaining =
+    toPaisa(Number(order.total)) - toPaisa(collectedAmount(order, payments));
+  return fromPaisa(Math.max(0, remaining));
+}
+
+// Order.paymentStatus as derived from its payments. Payment and refund paths
+// both use this, so neither overwrites what the other wrote.
+export function derivePaymentStatus(
+  order: { total: any; status: string },
+  payments: { amount: any; status: string }[] | undefined,
+): "PENDING" | "PARTIALLY_PAID" | "PAID" | "PARTIALLY_REFUNDED" | "REFUNDED" {
+  const paid = toPaisa(sumPaidPayments(payments));
+  const refunded = toPaisa(sumRefunds(payments));
+  if (refunded > 0 && paid - refunded < 1) return "REFUNDED";
+  if (refunded > 0 && order.status === "PAID") return "PARTIALLY_REFUNDED";
+  if (outstandingBalance(order, payments) < PAYMENT_TOLERANCE) return "PAID";
+  return collectedAmount(order, payments) > 0 ? "PARTIALLY_PAID" : "PENDING";
+}
+
+// Line quantities already refunded, read from the refund rows' refundItems
+// (JSON [{orderItemId, quantity}]).
+export function refundedQuantities(
+  payments: { status: string; refundItems?: string | null }[] | undefined,
+): Record<string, number> {
+  const refunded: Record<string, number> = {};
+  for (const payment of payments || []) {
+    if (payment.status !== "REFUNDED" || !payment.refundItems) continue;
+    let lines: unknown;
+    try {
+      lines = JSON.parse(payment.refundItems);
+    } catch {
+      continue;
+    }
+    if (!Array.isArray(lines)) continue;
+    for (const line of lines) {
+      const quantity = Math.floor(Number(line?.quantity) || 0);
+      if (!line?.orderItemId || quantity <= 0) continue;
+      refunded[line.orderItemId] = (refunded[line.orderItemId] || 0) + quantity;
+    }
+  }
+  return refunded;
+}
+
+export function splitEvenly(
+  order: {
+    subtotal: any;
+    discountTotal?: any;
+    serviceCharge: any;
+    tax: any;
+    total: any;
+  },
+  payers: number,
+): BillSplit[] {
+  const count = Math.max(1, Math.floor(payers));
+  const share = (amount: any, index: number) => {
+    const paisa = toPaisa(Number(amount));
+    const base = Math.floor(paisa / count);
+    // Spread the leftover paisa over the first payers.
+    return fromPaisa(base + (index < paisa - base * count ? 1 : 0));
+  };
+  return Array.from({ length: count }, (_, index) => {
+    const subtotal = share(order.subtotal, index);
+    const discount = share(order.discountTotal || 0, index);
+    const serviceCharge = share(order.serviceCharge, index);
+    const tax = share(order.tax, index);
+    return {
+      label: `Share ${index + 1}/${count}`,
+      lines: [],
+      subtotal,
+      discount,
+      serviceCharge,
+      tax,
+      total: fromPaisa(
+        toPaisa(subtotal) -
+          toPaisa(discount) +
+          toPaisa(serviceCharge) +
+          toPaisa(tax),
+      ),
+    };
+  });
+}
+
+export function splitByItems(
+  order: {
+    subtotal: any;
+    discountTotal?: any;
+    serviceCharge: any;
+    tax: any;
+    items: {
+      id: string;
+      itemName: string;
+      unitPrice: any;
+      quantity: number;
+      modifiers?: string | null;
+    }[];
+    discounts?: { orderItemId?: string | null; amount: any }[];
+  },
+  selection: Record<string, number>,
+  label = "Items",
+): BillSplit {
+  const lines: SplitLine[] = order.items
+    .filter((item) => (selection[item.id] || 0) > 0)
+    .map((item) => {
+      const quantity = Math.min(item.quantity, selection[item.id]);
+      return {
+        itemId: item.id,
+        itemName: item.itemName,
+        unitPrice: Number(item.unitPrice),
+        quantity,
+        total: fromPaisa(toPaisa(Number(item.unitPrice)) * quantity),
+        modifiers: item.modifiers,
+      };
+    });
+
+  const subtotalPaisa = lines.reduce((sum, l) => sum + toPaisa(l.total), 0);
+  const orderSubtotalPaisa = toPaisa(Number(order.subtotal));
+  const ratio = orderSubtotalPaisa > 0 ? subtotalPaisa / orderSubtotalPaisa : 0;
+
+  // Line discounts follow their own line (pro rata by quantity); order-level
+  // discounts are shared like the subtotal.
+  const discounts = order.discounts || [];
+  let lineDiscountPaisa = 0;
+  for (const line of lines) {
+    const item = order.items.find((i) => i.id === line.itemId)!;
+    const itemDiscount = discounts
+      .filter((d) => d.orderItemId === line.itemId)
+      .reduce((sum, d) => sum + toPaisa(Number(d.amount)), 0);
+    lineDiscountPaisa += (itemDiscount * line.quantity) / item.quantity;
+  }
+  const orderDiscountPaisa = discounts
+    .filter((d) => !d.orderItemId)
+    .reduce((sum, d) => sum + toPaisa(Number(d.amount)), 0);
+  const discountPaisa = Math.round(
+    lineDiscountPaisa + orderDiscountPaisa * ratio,
+  );
+
+  // Service charge and tax are levied on the discounted amount.
+  const orderTaxablePaisa =
+    orderSubtotalPaisa - toPaisa(Number(order.discountTotal || 0));
+  const taxableRatio =
+    orderTaxablePaisa > 0
+      ? (subtotalPaisa - discountPaisa) / orderTaxablePaisa
+      : 0;
+  const serviceChargePaisa = Math.round(
+    toPaisa(Number(order.serviceCharge)) * taxableRatio,
+  );
+  const taxPaisa = Math.round(toPaisa(Number(order.tax)) * taxableRatio);
+
+  return {
+    label,
+    lines,
+    subtotal: fromPaisa(subtotalPaisa),
+    discount: fromPaisa(discountPaisa),
+    serviceCharge: fromPaisa(serviceChargePaisa),
+    tax: fromPaisa(taxPaisa),
+    total: fromPaisa(
+      subtotalPaisa - discountPaisa + serviceChargePaisa + taxPaisa,
+    ),
+  };
+}
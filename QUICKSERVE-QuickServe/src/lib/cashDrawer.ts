@@ -0,0 +1,163 @@
+import { prisma } from "@/lib/db";
+
+type DrawerClient = Pick<
+  typeof prisma,
+  "cashDrawerSession" | "cashDrawerMovement" | "payment" | "orderDiscount"
+>;
+
+export type DrawerMovementType = "PAY_IN" | "PAY_OUT";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// At most one drawer is OPEN per tenant; CASH payments attach to it.
+export function findOpenDrawer(client: DrawerClient, tenantId: string) {
+  return client.cashDrawerSession.findFirst({
+    where: { tenantId, status: "OPEN" },
+    orderBy: { openedAt: "desc" },
+  });
+}
+
+// Builds the Z report for a drawer session. Sales are taken from every
+// payment in the session window (all methods); the cash section only counts
+// what physically went through this drawer.
+export async function buildZReport(
+  client: DrawerClient,
+  tenantId: string,
+  drawerId: string,
+) {
+  const drawer = await client.cashDrawerSession.findFirst({
+    where: { id: drawerId, tenantId },
+  });
+  if (!drawer) return null;
+
+  const windowEnd = drawer.closedAt || new Date();
+  const [payments, movements, drawerPayments] = await Promise.all([
+    client.payment.findMany({
+      where: {
+        tenantId,
+        status: { in: ["PAID", "REFUNDED"] },
+        paidAt: { gte: drawer.openedAt, lte: windowEnd },
+      },
+      select: {
+        amount: true,
+        method: true,
+        status: true,
+        tipAmount: true,
+        orderId: true,
+      },
+    }),
+    client.cashDrawerMovement.findMany({
+      where: { sessionId: drawer.id },
+      orderBy: { createdAt: "asc" },
+    }),
+    client.payment.findMany({
+      where: {
+        cashDrawerSessionId: drawer.id,
+        status: { in: ["PAID", "REFUNDED"] },
+      },
+      select: { amount: true, status: true, tipAmount: true },
+    }),
+  ]);
+
+  const salesByMethod = new Map<string, { count: number; total: number }>();
+  const refundsByMethod = new Map<string, { count: number; total: number }>();
+  let tips = 0;
+  for (const payment of payments) {
+    const amount = Number(payment.amount);
+    const target = payment.status === "PAID" ? salesByMethod : refundsByMethod;
+    const entry = target.get(payment.method) || { count: 0, total: 0 };
+    entry.count += 1;
+    entry.total += Math.abs(amount);
+    target.set(payment.method, entry);
+    if (payment.status === "PAID") tips += Number(payment.tipAmount || 0);
+  }
+  const toRows = (map: Map<string, { count: number; total: number }>) =>
+    Array.from(map.entries())
+      .map(([method, entry]) => ({
+        method,
+        count: entry.count,
+        total: round2(entry.total),
+      }))
+      .sort((a, b) => b.total - a.total);
+
+  const cashSales = drawerPayments
+    .filter((p) => p.status === "PAID")
+    .reduce((sum, p) => sum + Number(p.amount), 0);
+  const cashRefunds = drawerPayments
+    .filter((p) => p.status === "REFUNDED")
+    .reduce((sum, p) => sum + Math.abs(Number(p.amount)), 0);
+  // Cash tips are handed over with the bill, so they sit in the till too.
+  const cashTips = drawerPayments
+    .filter((p) => p.status === "PAID")
+    .reduce((sum, p) => sum + Number(p.tipAmount || 0), 0);
+  const payIns = movements
+    .filter((m) => m.type === "PAY_IN")
+    .reduce((sum, m) => sum + Number(m.amount), 0);
+  const payOuts = movements
+    .filter((m) => m.type === "PAY_OUT")
+    .reduce((sum, m) => sum + Number(m.amount), 0);
+  const expected = round2(
+    Number(drawer.openingFloat) +
+      cashSales +
+      cashTips +
+      payIns -
+      payOuts -
+      cashRefunds,
+  );
+  const counted =
+    drawer.countedCash === null || drawer.countedCash === undefined
+      ? null
+      : Number(drawer.countedCash);
+
+  // Discounts given on orders settled during the session.
+  const discountGroups = await client.orderDiscount.groupBy({
+    by: ["kind"],
+    where: {
+      tenantId,
+      order: { completedAt: { gte: drawer.openedAt, lte: windowEnd } },
+    },
+    _sum: { amount: true },
+    _count: true,
+  });
+  const discountRows = discountGroups
+    .map((d) => ({
+      kind: d.kind,
+      count: d._count,
+      total: round2(Number(d._sum.amount || 0)),
+    }))
+    .sort((a, b) => b.total - a.total);
+
+  const sales = toRows(salesByMethod);
+  const refunds = toRows(refundsByMethod);
+  const grossSales = round2(sales.reduce((sum, row) => sum + row.total, 0));
+  const refundTotal = round2(refunds.reduce((sum, row) => sum + row.total, 0));
+
+  return {
+    drawer,
+    window: { from: drawer.openedAt, to: windowEnd },
+    orderCount: new Set(payments.map((p) => p.orderId)).size,
+    salesByMethod: sales,
+    grossSales,
+    refunds: { byMethod: refunds, total: refundTotal },
+    netSales: round2(grossSales - refundTotal),
+    discounts: {
+      byKind: discountRows,
+      total: round2(discountRows.reduce((sum, row) => sum + row.total, 0)),
+    },
+    tips: round2(tips),
+    movements,
+    cash: {
+      openingFloat: Number(drawer.openingFloat),
+      sales: round2(cashSales),
+      refunds: round2(cashRefunds),
+      tips: round2(cashTips),
+      payIns: round2(payIns),
+      payOuts: round2(payOuts),
+      expected,
+      counted,
+      variance: counted === null ? null : round2(counted - expected),
+    },
+  };
+}
+
+export type ZReport = NonNullable<Awaited<ReturnType<typeof buildZReport>>>;
@@ -0,0 +1,351 @@
+// Type-only, so order screens can use the formatters below.
+import type { prisma } from "@/lib/db";
+import type { ModifierGroup, SelectedModifier } from "@/lib/modifiers";
+import { matchesMenuName } from "@/lib/menuTranslations";
+import { z } from "zod";
+
+type ComboClient = Pick<typeof prisma, "menuItem">;
+
+type ComponentItem = { id: string; name: string; translations?: unknown };
+
+// One slot of a combo or set menu (e.g. "Main", "Drink"), stored on
+// MenuItem.combo. A slot with a single option is a fixed component; one with
+// several is a choice. The combo's own price is what the guest pays, and an
+// option's priceDelta covers upgrades ("Lassi instead of Coke +50").
+export type ComboSlotOption = { menuItemId: string; priceDelta: number };
+
+export type ComboSlot = {
+  id: string;
+  name: string;
+  // Portions of the chosen item per combo.
+  quantity: number;
+  options: ComboSlotOption[];
+};
+
+// What an order line remembers about each component, so the kitchen sees
+// what to cook and later menu edits never rewrite what was sold.
+export type ComboComponent = {
+  slotId: string;
+  slotName: string;
+  menuItemId: string;
+  name: string;
+  quantity: number;
+  priceDelta: number;
+};
+
+export const comboSlotSchema = z.object({
+  id: z.string().trim().min(1).max(40),
+  name: z.string().trim().min(1).max(60),
+  quantity: z.number().int().min(1).max(20).default(1),
+  options: z
+    .array(
+      z.object({
+        menuItemId: z.string().min(1),
+        priceDelta: z.number().min(-100000).max(100000).default(0),
+      }),
+    )
+    .min(1)
+    .max(30),
+});
+
+export const comboSelectionSchema = z.object({
+  slotId: z.string().min(1),
+  menuItemId: z.string().min(1),
+});
+
+export type ComboSelection = z.infer<typeof comboSelectionSchema>;
+
+export type ComboResolution =
+  | { ok: true; components: ComboComponent[]; priceDelta: number }
+  | { ok: false; error: string };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function parseJsonArray(raw: unknown): any[] {
+  if (Array.isArray(raw)) return raw;
+  if (typeof raw !== "string" || !raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// MenuItem.combo is a JSON string; an empty or malformed value means the
+// item is an ordinary dish.
+export function parseComboSlots(raw: unknown): ComboSlot[] {
+  return parseJsonArray(raw)
+    .filter((s) => s && typeof s === "object" && s.id && s.name)
+    .map((s) => ({
+      id: String(s.id),
+      name: String(s.name),
+      quantity: Math.max(1, Math.floor(Number(s.quantity) || 1)),
+      options: parseJsonArray(s.options)
+        .filter((o) => o && typeof o === "object" && o.menuItemId)
+        .map((o) => ({
+          menuItemId: String(o.menuItemId),
+          priceDelta: round2(Number(o.priceDelta) || 0),
+        })),
+    }))
+    .filter((s) => s.options.length > 0);
+}
+
+export function parseComboComponents(raw: unknown): ComboComponent[] {
+  return parseJsonArray(raw).filter(
+    (c) => c && typeof c === "object" && c.menuItemId,
+  );
+}
+
+export function isCombo(item: { combo?: unknown }) {
+  return parseComboSlots(item.combo).length > 0;
+}
+
+// Every component a combo definition points at must be a dish of the same
+// tenant: not the combo itself and not another combo.
+export async function findInvalidComboComponents(
+  client: ComboClient,
+  tenantId: string,
+  slots: { options: { menuItemId: string }[] }[],
+  comboItemId?: string,
+) {
+  const ids = Array.from(
+    new Set(slots.flatMap((s) => s.options.map((o) => o.menuItemId))),
+  );
+  const items = await client.menuItem.findMany({
+    where: { tenantId, id: { in: ids }, archivedAt: null },
+    select: { id: true, combo: true },
+  });
+  const valid = new Set(
+    items
+      .filter((item) => item.id !== comboItemId && !isCombo(item))
+      .map((item) => item.id),
+  );
+  return ids.filter((id) => !valid.has(id));
+}
+
+// Combos that list this item as a component; such an item cannot become a
+// combo itself.
+export async function combosUsingItem(
+  client: ComboClient,
+  tenantId: string,
+  menuItemId: string,
+) {
+  const candidates = await client.menuItem.findMany({
+    where: { tenantId, archivedAt: null, combo: { contains: menuItemId } },
+    select: { id: true, name: true, combo: true },
+  });
+  return candidates.filter((item) =>
+    parseComboSlots(item.combo).some((slot) =>
+      slot.options.some((o) => o.menuItemId === menuItemId),
+    ),
+  );
+}
+
+// The dishes that can currently fill the slots of these combos. Components
+// that are switched off, sold out or archived are left out, so a combo needing
+// one cannot be ordered with it.
+export async function loadComboComponentItems(
+  client: ComboClient,
+  tenantId: string,
+  combos: { combo?: unknown }[],
+) {
+  const ids = Array.from(
+    new Set(
+      combos.flatMap((c) =>
+        parseComboSlots(c.combo).flatMap((s) =>
+          s.options.map((o) => o.menuItemId),
+        ),
+      ),
+    ),
+  );
+  if (ids.length === 0) return new Map<string, ComponentItem>();
+  const items = await client.menuItem.findMany({
+    where: { tenantId, id: { in: ids }, isAvailable: true, archivedAt: null },
+    select: { id: true, name: true, translations: true },
+  });
+  return new Map<string, ComponentItem>(items.map((item) => [item.id, item]));
+}
+
+// Validates the guest's choices against the slots and prices the upgrades.
+// Fixed slots fill themselves; a choice slot left open is an error, as is an
+// item that is not one of the slot's options.
+export function resolveComboSelection(
+  slots: ComboSlot[],
+  selections: ComboSelection[] = [],
+  available: Map<string, { id: string; name: string }>,
+): ComboResolution {
+  const components: ComboComponent[] = [];
+  for (const slot of slots) {
+    const selection = selections.find((s) => s.slotId === slot.id);
+    const option = selection
+      ? slot.options.find((o) => o.menuItemId === selection.menuItemId)
+      : slot.options.length === 1
+        ? slot.options[0]
+        : undefined;
+    if (!option) {
+      return {
+        ok: false,
+        error: selection
+          ? `Unknown ${slot.name} choice`
+          : `Choose a ${slot.name}`,
+      };
+    }
+    const item = available.get(option.menuItemId);
+    if (!item) {
+      return { ok: false, error: `That ${slot.name} is not available` };
+    }
+    components.push({
+      slotId: slot.id,
+      slotName: slot.name,
+      menuItemId: item.id,
+      name: item.name,
+      quantity: slot.quantity,
+      priceDelta: option.priceDelta,
+    });
+  }
+  if (selections.some((s) => !slots.some((slot) => slot.id === s.slotId))) {
+    return { ok: false, error: "Unknown combo slot" };
+  }
+  return {
+    ok: true,
+    components,
+    priceDelta: round2(components.reduce((sum, c) => sum + c.priceDelta, 0)),
+  };
+}
+
+// Chat guests name their choices ("momo set with a coke"), in any of the
+// languages the menu is translated into.
+export function resolveComboByName(
+  slots: ComboSlot[],
+  names: string[],
+  available: Map<string, ComponentItem>,
+): ComboResolution {
+  const selections = slots.flatMap((slot) => {
+    const option = slot.options.find((o) => {
+      const item = available.get(o.menuItemId);
+      return !!item && names.some((name) => matchesMenuName(item, name));
+    });
+    return option ? [{ slotId: slot.id, menuItemId: option.menuItemId }] : [];
+  });
+  return resolveComboSelection(slots, selections, available);
+}
+
+// Two lines of the same combo only merge when the same components were picked.
+export function comboSignature(components: ComboComponent[]): string {
+  return components
+    .map((c) => `${c.slotId}:${c.menuItemId}`)
+    .sort()
+    .join("|");
+}
+
+// "Chicken Momo + Coke", with portions when a slot holds more than one.
+export function formatComboComponents(components: ComboComponent[]): string {
+  return components
+    .map((c) => (c.quantity > 1 ? `${c.quantity}x ${c.name}` : c.name))
+    .join(" + ");
+}
+
+// Kitchen screens cook components, not combos: one line per component with
+// its portions for the whole order line.
+export function kitchenComponentLines(item: {
+  quantity: number;
+  comboComponents?: unknown;
+}) {
+  return parseComboComponents(item.comboComponents).map((c) => ({
+    key: `${c.slotId}:${c.menuItemId}`,
+    name: c.name,
+    quantity: c.quantity * item.quantity,
+  }));
+}
+
+// Guests and staff pick from the slots; this lists each slot with the dishes
+// that can fill it right now.
+export function describeComboSlots(
+  slots: ComboSlot[],
+  available: Map<string, { id: string; name: string }>,
+) {
+  return slots
+    .map((slot) => {
+      const options = slot.options
+        .filter((o) => available.has(o.menuItemId))
+        .map((o) => {
+          const name = available.get(o.menuItemId)!.name;
+          return o.priceDelta ? `${name} +${o.priceDelta}` : name;
+        });
+      const portions = slot.quantity > 1 ? `${slot.quantity}x ` : "";
+      return `${slot.name}: ${portions}${options.join(" / ")}`;
+    })
+    .join("; ");
+}
+
+// A combo slot as menus show it: option names resolved, unavailable dishes
+// left out.
+export type MenuComboSlot = {
+  id: string;
+  name: string;
+  quantity: number;
+  options: { menuItemId: string; name: string; priceDelta: number }[];
+};
+
+export function annotateCombos<C extends { items: { combo?: unknown }[] }>(
+  categories: C[],
+  available: Map<string, { id: string; name: string }>,
+) {
+  return categories.map((category) => ({
+    ...category,
+    items: category.items.map((item) => {
+      const slots = parseComboSlots(item.combo);
+      if (slots.length === 0) return item;
+      const comboSlots: MenuComboSlot[] = slots.map((slot) => ({
+        id: slot.id,
+        name: slot.name,
+        quantity: slot.quantity,
+        options: slot.options
+          .filter((o) => available.has(o.menuItemId))
+          .map((o) => ({
+            menuItemId: o.menuItemId,
+            name: available.get(o.menuItemId)!.name,
+            priceDelta: o.priceDelta,
+          })),
+      }));
+      return { ...item, comboSlots };
+    }),
+  }));
+}
+
+// Order screens reuse the modifier picker for combo choices: each choice slot
+// becomes a required pick-one group whose option ids are menu item ids.
+const COMBO_GROUP_PREFIX = "combo:";
+
+export function comboChoiceGroups(
+  comboSlots: MenuComboSlot[] = [],
+): ModifierGroup[] {
+  return comboSlots
+    .filter((slot) => slot.options.length > 1)
+    .map((slot) => ({
+      id: `${COMBO_GROUP_PREFIX}${slot.id}`,
+      name: slot.name,
+      required: true,
+      minSelect: 1,
+      maxSelect: 1,
+      options: slot.options.map((o) => ({
+        id: o.menuItemId,
+        name: o.name,
+        priceDelta: o.priceDelta,
+      })),
+    }));
+}
+
+// Splits what the picker returned back into modifiers and combo choices.
+export function splitComboChoices(picked: SelectedModifier[] = []) {
+  return {
+    modifiers: picked.filter((m) => !m.groupId.startsWith(COMBO_GROUP_PREFIX)),
+    combo: picked
+      .filter((m) => m.groupId.startsWith(COMBO_GROUP_PREFIX))
+      .map((m) => ({
+        slotId: m.groupId.slice(COMBO_GROUP_PREFIX.length),
+        menuItemId: m.optionId,
+      })),
+  };
+}
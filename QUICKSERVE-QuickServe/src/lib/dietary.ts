@@ -0,0 +1,528 @@
+import { z } from "zod";
+import {
+  localizedMenuText,
+  menuNameAliases,
+  mentionsMenuName,
+  normalizeMenuText,
+  type MenuLocale,
+} from "@/lib/menuTranslations";
+
+// What is known about a dish, stored as JSON on MenuItem.dietary. Every field
+// is optional on purpose: a missing key means nobody has said, which is never
+// the same as "free of".
+export type DietaryTags = {
+  vegetarian?: boolean;
+  vegan?: boolean;
+  containsGluten?: boolean;
+  containsNuts?: boolean;
+  containsDairy?: boolean;
+  // 0 = not spicy … 3 = hot.
+  spiceLevel?: number;
+};
+
+const BOOLEAN_TAGS = [
+  "vegetarian",
+  "vegan",
+  "containsGluten",
+  "containsNuts",
+  "containsDairy",
+] as const;
+
+const SPICE_LABELS = ["Not spicy", "Mild", "Medium", "Hot"];
+
+export const dietaryTagsSchema = z
+  .object({
+    vegetarian: z.boolean().optional(),
+    vegan: z.boolean().optional(),
+    containsGluten: z.boolean().optional(),
+    containsNuts: z.boolean().optional(),
+    containsDairy: z.boolean().optional(),
+    spiceLevel: z.number().int().min(0).max(3).optional(),
+  })
+  .refine((t) => !(t.vegan && t.vegetarian === false), {
+    message: "A vegan item is also vegetarian",
+    path: ["vegetarian"],
+  })
+  .refine((t) => !(t.vegan && t.containsDairy), {
+    message: "A vegan item cannot contain dairy",
+    path: ["containsDairy"],
+  });
+
+// Lenient reader for the stored column and for scanner output. Contradictory
+// vegan/vegetarian claims are dropped rather than guessed at.
+export function parseDietaryTags(raw: unknown): DietaryTags {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return {};
+    }
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const source = value as Record<string, unknown>;
+
+  const tags: DietaryTags = {};
+  for (const key of BOOLEAN_TAGS) {
+    if (typeof source[key] === "boolean") tags[key] = source[key];
+  }
+  const spice = Number(source.spiceLevel);
+  if (
+    source.spiceLevel !== null &&
+    source.spiceLevel !== undefined &&
+    Number.isInteger(spice) &&
+    spice >= 0 &&
+    spice <= 3
+  ) {
+    tags.spiceLevel = spice;
+  }
+  if (tags.vegan && (tags.vegetarian === false || tags.containsDairy)) {
+    delete tags.vegan;
+  }
+  if (tags.vegan) tags.vegetarian = true;
+  return tags;
+}
+
+// What gets written to the dietary column: undefined leaves it untouched.
+export function serializeDietaryTags(
+  tags: DietaryTags | null | undefined,
+): string | null | undefined {
+  if (tags === undefined) return undefined;
+  const parsed = parseDietaryTags(tags);
+  return Object.keys(parsed).length > 0 ? JSON.stringify(parsed) : null;
+}
+
+// Tags read off a scan only fill in or correct what they mention.
+export function mergeDietaryTags(
+  existing: unknown,
+  incoming: DietaryTags,
+): string | null {
+  return (
+    serializeDietaryTags({ ...parseDietaryTags(existing), ...incoming }) ?? null
+  );
+}
+
+export type DietaryFilterId =
+  "VEGETARIAN" | "VEGAN" | "GLUTEN_FREE" | "NUT_FREE" | "DAIRY_FREE" | "MILD";
+
+// An item passes a filter only when it is positively marked; untagged items
+// are left out rather than assumed safe.
+export const DIETARY_FILTERS: {
+  id: DietaryFilterId;
+  label: string;
+  matches: (tags: DietaryTags) => boolean;
+}[] = [
+  { id: "VEGETARIAN", label: "Vegetarian", matches: (t) => !!t.vegetarian },
+  { id: "VEGAN", label: "Vegan", matches: (t) => !!t.vegan },
+  {
+    id: "GLUTEN_FREE",
+    label: "Gluten-free",
+    matches: (t) => t.containsGluten === false,
+  },
+  {
+    id: "NUT_FREE",
+    label: "Nut-free",
+    matches: (t) => t.containsNuts === false,
+  },
+  {
+    id: "DAIRY_FREE",
+    label: "Dairy-free",
+    matches: (t) => t.containsDairy === false,
+  },
+  {
+    id: "MILD",
+    label: "Not spicy",
+    matches: (t) => t.spiceLevel !== undefined && t.spiceLevel <= 1,
+  },
+];
+
+export function matchesDietaryFilters(
+  tags: DietaryTags,
+  filterIds: DietaryFilterId[],
+) {
+  return filterIds.every(
+    (id) => DIETARY_FILTERS.find((f) => f.id === id)?.matches(tags) ?? true,
+  );
+}
+
+// Short badges, e.g. ["Vegan", "Contains nuts", "Medium"].
+export function dietaryLabels(tags: DietaryTags): string[] {
+  const labels: string[] = [];
+  if (tags.vegan) labels.push("Vegan");
+  else if (tags.vegetarian) labels.push("Vegetarian");
+  else if (tags.vegetarian === false) labels.push("Non-veg");
+  const allergens: [boolean | undefined, string][] = [
+    [tags.containsGluten, "gluten"],
+    [tags.containsNuts, "nuts"],
+    [tags.containsDairy, "dairy"],
+  ];
+  for (const [contains, name] of allergens) {
+    if (contains === true) labels.push(`Contains ${name}`);
+    if (contains === false) labels.push(`No ${name}`);
+  }
+  if (tags.spiceLevel !== undefined) labels.push(SPICE_LABELS[tags.spiceLevel]);
+  return labels;
+}
+
+// Markers printed after dish names on many menus: "Paneer Tikka (V)",
+// "Pad Thai (GF, N)", "Veg Momo [VG]".
+const MARKER_GROUP = /\s*[([]((?:\s*(?:VG|VE|V|GF|DF|N|NF)\s*[,/]?)+)[)\]]/gi;
+const MARKER_TAGS: Record<string, DietaryTags> = {
+  V: { vegetarian: true },
+  VG: { vegan: true },
+  VE: { vegan: true },
+  GF: { containsGluten: false },
+  DF: { containsDairy: false },
+  N: { containsNuts: true },
+  NF: { containsNuts: false },
+};
+
+export function extractDietaryMarkers(name: string): {
+  name: string;
+  dietary?: DietaryTags;
+} {
+  let tags: DietaryTags = {};
+  const cleaned = name.replace(MARKER_GROUP, (_match, group: string) => {
+    for (const code of group.split(/[\s,/]+/).filter(Boolean)) {
+      tags = { ...tags, ...MARKER_TAGS[code.toUpperCase()] };
+    }
+    return "";
+  });
+  if (Object.keys(tags).length === 0) return { name };
+  return { name: cleaned.trim(), dietary: parseDietaryTags(tags) };
+}
+
+type DietaryTopic =
+  "VEGETARIAN" | "VEGAN" | "GLUTEN" | "NUTS" | "DAIRY" | "SPICE";
+
+// English words plus the Nepali and Hindi ones guests type in Devanagari,
+// in the folded spelling of normalizeMenuText. Devanagari has no \b, and
+// postpositions attach to the word ("मासुको"), so those only need to start a
+// word: "नट्स" matches, "मिनट" does not.
+const devanagari = (words: string) =>
+  new RegExp(`(?<![\\p{L}\\p{M}])(${words})`, "u");
+
+const TOPICS: { topic: DietaryTopic; pattern: RegExp; local: RegExp }[] = [
+  {
+    topic: "VEGAN",
+    pattern: /\bvegan\b/i,
+    local: devanagari("भिगन|वीगन|वेगन"),
+  },
+  {
+    topic: "VEGETARIAN",
+    pattern: /\b(vegetarian|veggie|veg|non-veg|meat)\b/i,
+    local: devanagari("शाकाहारी|भेजिटेरियन|वेज|नन-भेज|नॉन-वेज|मासु|मांस"),
+  },
+  {
+    topic: "GLUTEN",
+    pattern: /\b(gluten|wheat|coeliac|celiac)\b/i,
+    local: devanagari("ग्लुटेन|गहुं|गेहूं"),
+  },
+  {
+    topic: "NUTS",
+    pattern: /\b(nuts?|peanuts?|cashews?|almonds?|walnuts?)\b/i,
+    local: devanagari("नट्स|बदाम|बादाम|काजु|काजू|मूंगफली|ओखर|अखरोट"),
+  },
+  {
+    topic: "DAIRY",
+    pattern: /\b(dairy|milk|lactose|cheese|butter|cream)\b/i,
+    local: devanagari("दूध|दुध|डेरी|डेयरी|घ्यू|घी|मक्खन|दही"),
+  },
+  {
+    topic: "SPICE",
+    pattern: /\b(spicy|spice|chill?i(es)?|mild)\b/i,
+    local: devanagari("पिरो|तीखा|तीखो|मसालेदार|खुर्सानी|मिर्च"),
+  },
+];
+
+const QUESTION =
+  /\?|\b(is|are|does|do|has|have|any|anything|which|what|show|list|contains?|safe|free|allergic|allerg(y|ies)|options?)\b/i;
+const LOCAL_QUESTION = devanagari("छ|छन्|कुन|केही|क्या|कौन|कोई|है|हैं");
+
+const ALLERGEN_TOPICS = new Set<DietaryTopic>(["GLUTEN", "NUTS", "DAIRY"]);
+
+const TOPIC_FILTERS: Record<DietaryTopic, DietaryFilterId> = {
+  VEGAN: "VEGAN",
+  VEGETARIAN: "VEGETARIAN",
+  GLUTEN: "GLUTEN_FREE",
+  NUTS: "NUT_FREE",
+  DAIRY: "DAIRY_FREE",
+  SPICE: "MILD",
+};
+
+type ListLabel = DietaryFilterId | "SPICY";
+
+// Replies are written in the language the guest asked in, like the rest of
+// the chat; dish names come from the menu translations.
+const REPLIES: Record<
+  MenuLocale,
+  {
+    nouns: Record<DietaryTopic, string>;
+    labels: Record<ListLabel, string>;
+    spice: string[];
+    unknown: (name: string, noun: string) => string;
+    contains: (name: string, noun: string) => string;
+    marked: (name: string, label: string) => string;
+    notMarked: (name: string, label: string) => string;
+    spiceLevel: (name: string, level: string) => string;
+    list: (labels: string, names: string, more: boolean) => string;
+    none: (labels: string) => string;
+    and: string;
+    staffNote: string;
+    askStaff: string;
+  }
+> = {
+  en: {
+    nouns: {
+      VEGAN: "vegan",
+      VEGETARIAN: "vegetarian",
+      GLUTEN: "gluten",
+      NUTS: "nut",
+      DAIRY: "dairy",
+      SPICE: "spice",
+    },
+    labels: {
+      VEGETARIAN: "vegetarian",
+      VEGAN: "vegan",
+      GLUTEN_FREE: "gluten-free",
+      NUT_FREE: "nut-free",
+      DAIRY_FREE: "dairy-free",
+      MILD: "not spicy",
+      SPICY: "spicy",
+    },
+    spice: SPICE_LABELS.map((label) => label.toLowerCase()),
+    unknown: (name, noun) =>
+      `I don't have confirmed ${noun} information for ${name}.`,
+    contains: (name, noun) =>
+      `${name} contains ${noun === "nut" ? "nuts" : noun}.`,
+    marked: (name, label) =>
+      label.endsWith("-free")
+        ? `${name} is marked ${label}.`
+        : `${name} is ${label}.`,
+    notMarked: (name, label) => `${name} is not ${label}.`,
+    spiceLevel: (name, level) => `${name}: ${level}.`,
+    list: (labels, names, more) =>
+      `Marked ${labels} on our menu: ${names}${more ? ", and more" : ""}.`,
+    none: (labels) => `I don't have any items marked ${labels} right now.`,
+    and: " and ",
+    staffNote:
+      "If you have an allergy, please confirm with our staff before ordering. 🙏",
+    askStaff: "Our staff can check that for you. 🙏",
+  },
+  ne: {
+    nouns: {
+      VEGAN: "भिगन",
+      VEGETARIAN: "शाकाहारी",
+      GLUTEN: "ग्लुटेन",
+      NUTS: "नट्स",
+      DAIRY: "दुग्ध पदार्थ",
+      SPICE: "पिरो",
+    },
+    labels: {
+      VEGETARIAN: "शाकाहारी",
+      VEGAN: "भिगन",
+      GLUTEN_FREE: "ग्लुटेन-रहित",
+      NUT_FREE: "नट्स-रहित",
+      DAIRY_FREE: "दुग्ध-रहित",
+      MILD: "नपिरो",
+      SPICY: "पिरो",
+    },
+    spice: ["पिरो छैन", "अलिकति पिरो", "मध्यम पिरो", "धेरै पिरो"],
+    unknown: (name, noun) =>
+      `${name} को ${noun} सम्बन्धी पक्का जानकारी मसँग छैन।`,
+    contains: (name, noun) => `${name} मा ${noun} छ।`,
+    marked: (name, label) => `${name} ${label} हो।`,
+    notMarked: (name, label) => `${name} ${label} होइन।`,
+    spiceLevel: (name, level) => `${name}: ${level}।`,
+    list: (labels, names, more) =>
+      `हाम्रो मेनुमा ${labels} भनी चिन्ह लगाइएका: ${names}${more ? ", र अरू" : ""}।`,
+    none: (labels) => `अहिले ${labels} भनी चिन्ह लगाइएको कुनै आइटम छैन।`,
+    and: " र ",
+    staffNote:
+      "एलर्जी छ भने, कृपया अर्डर गर्नुअघि हाम्रो स्टाफसँग पक्का गर्नुहोस्। 🙏",
+    askStaff: "हाम्रो स्टाफले यो जाँच गरिदिन सक्छ। 🙏",
+  },
+  hi: {
+    nouns: {
+      VEGAN: "वीगन",
+      VEGETARIAN: "शाकाहारी",
+      GLUTEN: "ग्लूटेन",
+      NUTS: "नट्स",
+      DAIRY: "डेयरी",
+      SPICE: "तीखेपन",
+    },
+    labels: {
+      VEGETARIAN: "शाकाहारी",
+      VEGAN: "वीगन",
+      GLUTEN_FREE: "ग्लूटेन-फ्री",
+      NUT_FREE: "नट-फ्री",
+      DAIRY_FREE: "डेयरी-फ्री",
+      MILD: "कम तीखा",
+      SPICY: "तीखा",
+    },
+    spice: ["तीखा नहीं", "हल्का तीखा", "मध्यम तीखा", "बहुत तीखा"],
+    unknown: (name, noun) =>
+      `${name} के ${noun} की पक्की जानकारी मेरे पास नहीं है।`,
+    contains: (name, noun) => `${name} में ${noun} है।`,
+    marked: (name, label) => `${name} ${label} है।`,
+    notMarked: (name, label) => `${name} ${label} नहीं है।`,
+    spiceLevel: (name, level) => `${name}: ${level}।`,
+    list: (labels, names, more) =>
+      `हमारे मेन्यू में ${labels} मार्क किए गए: ${names}${more ? ", और भी" : ""}।`,
+    none: (labels) => `अभी ${labels} मार्क किया गया कोई आइटम नहीं है।`,
+    and: " और ",
+    staffNote:
+      "अगर आपको एलर्जी है, तो ऑर्डर से पहले हमारे स्टाफ से पक्का कर लें। 🙏",
+    askStaff: "हमारा स्टाफ यह जांच सकता है। 🙏",
+  },
+};
+
+// The answer for one dish, or null when its tags say nothing about the topic.
+function answerForItem(
+  name: string,
+  tags: DietaryTags,
+  topic: DietaryTopic,
+  locale: MenuLocale,
+): string | null {
+  const replies = REPLIES[locale];
+  const label = replies.labels[TOPIC_FILTERS[topic]];
+  const allergen = (contains: boolean | undefined) =>
+    contains === true
+      ? replies.contains(name, replies.nouns[topic])
+      : contains === false
+        ? replies.marked(name, label)
+        : null;
+  switch (topic) {
+    case "VEGAN":
+      if (tags.vegan) return replies.marked(name, label);
+      return tags.vegetarian === false || tags.vegan === false
+        ? replies.notMarked(name, label)
+        : null;
+    case "VEGETARIAN":
+      if (tags.vegetarian === undefined) return null;
+      return tags.vegetarian
+        ? replies.marked(name, label)
+        : replies.notMarked(name, label);
+    case "GLUTEN":
+      return allergen(tags.containsGluten);
+    case "NUTS":
+      return allergen(tags.containsNuts);
+    case "DAIRY":
+      return allergen(tags.containsDairy);
+    case "SPICE":
+      return tags.spiceLevel === undefined
+        ? null
+        : replies.spiceLevel(name, replies.spice[tags.spiceLevel]);
+  }
+}
+
+// "Anything spicy?" wants the hot dishes; every other topic asks for what is
+// free of it.
+function listFilter(topic: DietaryTopic, text: string) {
+  if (
+    topic === "SPICE" &&
+    !/mild|not spicy|less spicy|no spice|कम पिरो|नपिरो|पिरो नभएको|कम तीखा|बिना मिर्च/i.test(
+      text,
+    )
+  ) {
+    return {
+      label: "SPICY" as ListLabel,
+      matches: (t: DietaryTags) => (t.spiceLevel ?? 0) >= 2,
+    };
+  }
+  const filter = DIETARY_FILTERS.find((f) => f.id === TOPIC_FILTERS[topic])!;
+  return { label: filter.id as ListLabel, matches: filter.matches };
+}
+
+// Answers "is the veg momo vegan?" or "चिकन मोमो मा nuts छ?" straight from
+// the menu data, so allergen safety is never left to the language model.
+// Dishes are found by their English or translated names. Returns null when
+// the message is not a dietary question.
+export function answerDietaryQuestion(
+  message: string,
+  items: {
+    name: string;
+    translations?: unknown;
+    dietary?: unknown;
+    availableNow?: boolean;
+  }[],
+  locale: MenuLocale = "en",
+): string | null {
+  const replies = REPLIES[locale];
+  let text = normalizeMenuText(message);
+  const aliasesOf = (item: (typeof items)[number]) =>
+    menuNameAliases(item)
+      .map(normalizeMenuText)
+      .filter((alias) => alias.length > 0);
+  const longestAlias = (item: (typeof items)[number]) =>
+    Math.max(
+      0,
+      ...aliasesOf(item)
+        .filter((alias) => text.includes(alias))
+        .map((alias) => alias.length),
+    );
+  const mentioned = items
+    .filter((item) => mentionsMenuName(item, text))
+    .sort((a, b) => longestAlias(b) - longestAlias(a))
+    .filter(
+      (item, index, list) =>
+        !list
+          .slice(0, index)
+          .some((longer) =>
+            aliasesOf(longer).some(
+              (alias) => text.includes(alias) && mentionsMenuName(item, alias),
+            ),
+          ),
+    );
+  // Dish names like "Veg Momo" must not read as a question about "veg".
+  for (const item of mentioned) {
+    for (const alias of aliasesOf(item)) text = text.split(alias).join(" ");
+  }
+
+  const topics = TOPICS.filter(
+    (t) => t.pattern.test(text) || t.local.test(text),
+  ).map((t) => t.topic);
+  if (topics.length === 0) return null;
+  if (!QUESTION.test(text) && !LOCAL_QUESTION.test(text)) return null;
+  const needsStaffNote = topics.some((topic) => ALLERGEN_TOPICS.has(topic));
+
+  if (mentioned.length > 0) {
+    let anyUnknown = false;
+    const lines = mentioned.flatMap((item) => {
+      const name = localizedMenuText(item, locale).name;
+      const tags = parseDietaryTags(item.dietary);
+      return topics.map((topic) => {
+        const answer = answerForItem(name, tags, topic, locale);
+        if (answer) return answer;
+        anyUnknown = true;
+        return replies.unknown(name, replies.nouns[topic]);
+      });
+    });
+    if (needsStaffNote) lines.push(replies.staffNote);
+    else if (anyUnknown) lines.push(replies.askStaff);
+    return lines.join("\n");
+  }
+
+  const filters = topics.map((topic) => listFilter(topic, text));
+  const labels = filters.map((f) => replies.labels[f.label]).join(replies.and);
+  const matches = items.filter((item) => {
+    if (item.availableNow === false) return false;
+    const tags = parseDietaryTags(item.dietary);
+    return filters.every((f) => f.matches(tags));
+  });
+  const lines =
+    matches.length > 0
+      ? [
+          replies.list(
+            labels,
+            matches
+              .slice(0, 15)
+              .map((item) => localizedMenuText(item, locale).name)
+              .join(", "),
+            matches.length > 15,
+          ),
+        ]
+      : [replies.none(labels)];
+  if (needsStaffNote) lines.push(replies.staffNote);
+  return lines.join("\n");
+}
@@ -0,0 +1,186 @@
+import { prisma } from "@/lib/db";
+import { recalculateOrderTotals } from "@/lib/orderTotals";
+import { recordOrderEvent } from "@/lib/orderEvents";
+import { collectedAmount, PAYMENT_TOLERANCE } from "@/lib/billSplit";
+
+type Tx = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+// DISCOUNT is an ad-hoc reduction, COMP a manager-approved giveaway and PROMO
+// a redeemed tenant promo code. Each is either a percentage or a fixed amount.
+export type DiscountKind = "DISCOUNT" | "COMP" | "PROMO";
+export type DiscountValueType = "PERCENT" | "FIXED";
+
+// Staff may take up to this share off a line, or off the order as a whole,
+// without a manager. Beyond it a discount is a comp in all but name.
+export const STAFF_DISCOUNT_LIMIT_PERCENT = 20;
+
+export const PROMO_ERROR_MESSAGES: Record<string, string> = {
+  PROMO_NOT_FOUND: "Promo code not found",
+  PROMO_INACTIVE: "Promo code is not active",
+  PROMO_NOT_STARTED: "Promo code is not valid yet",
+  PROMO_EXPIRED: "Promo code has expired",
+  PROMO_EXHAUSTED: "Promo code usage limit reached",
+  PROMO_MIN_SUBTOTAL: "Order does not meet the promo minimum",
+  PROMO_ALREADY_APPLIED: "A promo code is already applied to this order",
+};
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// Throws one of the PROMO_* codes above when the promo can't be used.
+export async function findRedeemablePromo(
+  client: Pick<typeof prisma, "promoCode">,
+  tenantId: string,
+  code: string,
+  subtotal: number,
+  now = new Date(),
+) {
+  const promo = await client.promoCode.findFirst({
+    where: { tenantId, code: normalizePromoCode(code) },
+  });
+  if (!promo) throw new Error("PROMO_NOT_FOUND");
+  if (!promo.isActive) throw new Error("PROMO_INACTIVE");
+  if (promo.startsAt && promo.startsAt > now) {
+    throw new Error("PROMO_NOT_STARTED");
+  }
+  if (promo.endsAt && promo.endsAt < now) throw new Error("PROMO_EXPIRED");
+  if (promo.maxUses !== null && promo.usedCount >= promo.maxUses) {
+    throw new Error("PROMO_EXHAUSTED");
+  }
+  if (promo.minSubtotal !== null && subtotal < Number(promo.minSubtotal)) {
+    throw new Error("PROMO_MIN_SUBTOTAL");
+  }
+  return promo;
+}
+
+export type ApplyDiscountInput = {
+  tenantId: string;
+  orderId: string;
+  kind: DiscountKind;
+  valueType: DiscountValueType;
+  value: number;
+  orderItemId?: string | null;
+  reason?: string | null;
+  promoCode?: { id: string; code: string; maxUses: number | null } | null;
+  appliedById?: string | null;
+  approvedById?: string | null;
+  chatSessionId?: string | null;
+};
+
+// Unapproved discounts are capped per line and across the whole order, so
+// several small ones cannot add up to a comp either.
+function assertWithinStaffLimit(
+  order: {
+    subtotal: any;
+    items: { id: string; total: any }[];
+    discounts: {
+      kind: string;
+      amount: any;
+      orderItemId: string | null;
+      approvedById: string | null;
+    }[];
+  },
+  orderItemId: string | null,
+) {
+  const unapproved = order.discounts.filter(
+    (d) => d.kind === "DISCOUNT" && !d.approvedById,
+  );
+  const exceeds = (discounts: typeof unapproved, base: number) =>
+    discounts.reduce((sum, d) => sum + Number(d.amount), 0) -
+      (base * STAFF_DISCOUNT_LIMIT_PERCENT) / 100 >
+    PAYMENT_TOLERANCE;
+
+  const line = orderItemId
+    ? order.items.find((item) => item.id === orderItemId)
+    : null;
+  if (
+    (line &&
+      exceeds(
+        unapproved.filter((d) => d.orderItemId === orderItemId),
+        Number(line.total),
+      )) ||
+    exceeds(unapproved, Number(order.subtotal))
+  ) {
+    throw new Error("DISCOUNT_NEEDS_APPROVAL");
+  }
+}
+
+// Adds a discount row, re-derives the order totals and logs the change. Must
+// run inside the caller's transaction so a failed check rolls everything back.
+export async function applyOrderDiscount(tx: Tx, input: ApplyDiscountInput) {
+  const before = await tx.order.findFirstOrThrow({
+    where: { id: input.orderId, tenantId: input.tenantId },
+    include: {
+      payments: { select: { amount: true, status: true } },
+      discounts: { select: { kind: true } },
+    },
+  });
+
+  if (input.promoCode) {
+    if (before.discounts.some((d) => d.kind === "PROMO")) {
+      throw new Error("PROMO_ALREADY_APPLIED");
+    }
+    // Guarded increment so concurrent redemptions can't overshoot maxUses.
+    const { count } = await tx.promoCode.updateMany({
+      where: {
+        id: input.promoCode.id,
+        ...(input.promoCode.maxUses !== null
+          ? { usedCount: { lt: input.promoCode.maxUses } }
+          : {}),
+      },
+      data: { usedCount: { increment: 1 } },
+    });
+    if (count === 0) throw new Error("PROMO_EXHAUSTED");
+  }
+
+  const discount = await tx.orderDiscount.create({
+    data: {
+      tenantId: input.tenantId,
+      orderId: input.orderId,
+      orderItemId: input.orderItemId || null,
+      kind: input.kind,
+      valueType: input.valueType,
+      value: input.value,
+      amount: 0,
+      reason: input.reason || null,
+      promoCodeId: input.promoCode?.id || null,
+      appliedById: input.appliedById || null,
+      approvedById: input.approvedById || null,
+    },
+  });
+
+  const order = await recalculateOrderTotals(tx, input.orderId, input.tenantId);
+  if (
+    Number(order.total) + PAYMENT_TOLERANCE <
+    collectedAmount(before, before.payments)
+  ) {
+    throw new Error("DISCOUNT_BELOW_PAID");
+  }
+  if (input.kind === "DISCOUNT" && !input.approvedById) {
+    assertWithinStaffLimit(order, input.orderItemId || null);
+  }
+  const applied = order.discounts.find((d: any) => d.id === discount.id);
+
+  await recordOrderEvent(tx, {
+    tenantId: input.tenantId,
+    orderId: input.orderId,
+    type: "DISCOUNT_APPLIED",
+    actorUserId: input.appliedById,
+    chatSessionId: input.chatSessionId,
+    oldValue: { total: Number(before.total) },
+    newValue: {
+      discountId: discount.id,
+      kind: input.kind,
+      valueType: input.valueType,
+      value: input.value,
+      amount: Number(applied?.amount || 0),
+      orderItemId: input.orderItemId || null,
+      reason: input.reason || null,
+      promoCode: input.promoCode?.code || null,
+      total: Number(order.total),
+    },
+  });
+
+  return order;
+}
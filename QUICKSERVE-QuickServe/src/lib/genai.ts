@@ -0,0 +1,13 @@
+import { GoogleGenAI } from "@google/genai";
+
+export const GEMINI_MODEL = process.env.GEMINI_MODEL || "gemini-2.5-flash";
+
+let client: GoogleGenAI | null = null;
+
+// Shared Gemini client; null when no key is configured so callers can use
+// their offline fallback instead of making a request that is bound to fail.
+export function getGenAI(): GoogleGenAI | null {
+  if (!process.env.GEMINI_API_KEY) return null;
+  client ??= new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+  return client;
+}
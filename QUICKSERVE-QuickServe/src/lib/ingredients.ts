@@ -0,0 +1,256 @@
+import { prisma } from "@/lib/db";
+import { parseOrderItemModifiers } from "@/lib/modifiers";
+import { parseComboComponents } from "@/lib/combos";
+import { z } from "zod";
+
+type IngredientClient = Pick<
+  typeof prisma,
+  "ingredient" | "recipeLine" | "ingredientMovement"
+>;
+
+// Every change to Ingredient.stockOnHand is written to the movement ledger.
+// SALE and RETURN come from order lines; the others are entered by staff.
+export type IngredientMovementType =
+  "SALE" | "RETURN" | "DELIVERY" | "ADJUSTMENT" | "COUNT";
+
+export const ingredientSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  // Recipes and counts are entered in this unit (g, ml, pcs, ...).
+  unit: z.string().trim().min(1).max(12),
+  reorderPoint: z.number().min(0).max(1000000).nullable().optional(),
+  reorderQuantity: z.number().positive().max(1000000).nullable().optional(),
+  costPerUnit: z.number().min(0).max(1000000).nullable().optional(),
+});
+
+// A line without modifierOptionId is the base recipe; a line with one is only
+// used when that option (e.g. "extra cheese") is chosen.
+export const recipeLineSchema = z.object({
+  ingredientId: z.string().min(1),
+  modifierOptionId: z.string().min(1).nullable().optional(),
+  quantity: z.number().positive().max(100000),
+});
+
+export type DepletionLine = {
+  orderId: string;
+  orderItemId: string;
+  menuItemId: string;
+  // Portions to deplete or return, not necessarily the line's full quantity.
+  quantity: number;
+  modifiers?: unknown;
+  comboComponents?: unknown;
+};
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+export function isBelowReorderPoint(ingredient: {
+  stockOnHand: number;
+  reorderPoint: number | null;
+}) {
+  return (
+    ingredient.reorderPoint !== null &&
+    ingredient.stockOnHand <= ingredient.reorderPoint
+  );
+}
+
+// Books a stock change and its ledger row together. balanceAfter lets reports
+// show what was on hand at any point without replaying the ledger.
+export async function recordIngredientMovement(
+  tx: IngredientClient,
+  input: {
+    tenantId: string;
+    ingredientId: string;
+    type: IngredientMovementType;
+    quantity: number;
+    orderId?: string;
+    orderItemId?: string;
+    reason?: string | null;
+    userId?: string | null;
+  },
+) {
+  const ingredient = await tx.ingredient.update({
+    where: { id: input.ingredientId },
+    data: { stockOnHand: { increment: round3(input.quantity) } },
+  });
+  return tx.ingredientMovement.create({
+    data: {
+      tenantId: input.tenantId,
+      ingredientId: input.ingredientId,
+      type: input.type,
+      quantity: round3(input.quantity),
+      balanceAfter: round3(ingredient.stockOnHand),
+      orderId: input.orderId,
+      orderItemId: input.orderItemId,
+      reason: input.reason || undefined,
+      userId: input.userId || undefined,
+    },
+  });
+}
+
+async function bookOrderLines(
+  tx: IngredientClient,
+  tenantId: string,
+  lines: DepletionLine[],
+  type: "SALE" | "RETURN",
+) {
+  // A combo uses its own recipe (packaging, say) plus each component's.
+  const wanted = lines
+    .filter((line) => line.quantity > 0)
+    .flatMap((line) => [
+      line,
+      ...parseComboComponents(line.comboComponents).map((component) => ({
+        orderId: line.orderId,
+        orderItemId: line.orderItemId,
+        menuItemId: component.menuItemId,
+        quantity: component.quantity * line.quantity,
+      })),
+    ]);
+  if (wanted.length === 0) return;
+  const recipe = await tx.recipeLine.findMany({
+    where: {
+      tenantId,
+      menuItemId: { in: Array.from(new Set(wanted.map((l) => l.menuItemId))) },
+    },
+  });
+  if (recipe.length === 0) return;
+
+  for (const line of wanted) {
+    const optionIds = new Set(
+      parseOrderItemModifiers(line.modifiers).map((m) => m.optionId),
+    );
+    const usage = new Map<string, number>();
+    for (const entry of recipe) {
+      if (entry.menuItemId !== line.menuItemId) continue;
+      if (entry.modifierOptionId && !optionIds.has(entry.modifierOptionId)) {
+        continue;
+      }
+      usage.set(
+        entry.ingredientId,
+        (usage.get(entry.ingredientId) || 0) + entry.quantity * line.quantity,
+      );
+    }
+    for (const [ingredientId, amount] of usage) {
+      await recordIngredientMovement(tx, {
+        tenantId,
+        ingredientId,
+        type,
+        quantity: type === "SALE" ? -amount : amount,
+        orderId: line.orderId,
+        orderItemId: line.orderItemId,
+      });
+    }
+  }
+}
+
+// Ingredient stock is theoretical, so unlike item stock it never blocks a
+// sale; it may go negative until the next delivery or count.
+export function depleteIngredients(
+  tx: IngredientClient,
+  tenantId: string,
+  lines: DepletionLine[],
+) {
+  return bookOrderLines(tx, tenantId, lines, "SALE");
+}
+
+// Voided lines, lowered quantities and cancelled orders give back what their
+// recipes took.
+export function restoreIngredients(
+  tx: IngredientClient,
+  tenantId: string,
+  lines: DepletionLine[],
+) {
+  return bookOrderLines(tx, tenantId, lines, "RETURN");
+}
+
+// Order items as stored, mapped to depletion lines for their full quantity.
+export function depletionLines(
+  items: {
+    id: string;
+    orderId: string;
+    menuItemId: string;
+    quantity: number;
+    modifiers?: unknown;
+    comboComponents?: unknown;
+  }[],
+): DepletionLine[] {
+  return items.map((item) => ({
+    orderId: item.orderId,
+    orderItemId: item.id,
+    menuItemId: item.menuItemId,
+    quantity: item.quantity,
+    modifiers: item.modifiers,
+    comboComponents: item.comboComponents,
+  }));
+}
+
+// Theoretical vs counted usage per ingredient over a window. Theoretical
+// usage is what recipes say left the shelf (sales net of returns); a count's
+// variance is the counted quantity minus what the ledger expected at that
+// moment, so a negative variance is stock that went missing (waste,
+// over-portioning, theft) without being recorded.
+export async function buildVarianceReport(
+  client: IngredientClient,
+  tenantId: string,
+  window: { from: Date; to: Date },
+) {
+  const [ingredients, movements] = await Promise.all([
+    client.ingredient.findMany({
+      where: { tenantId },
+      orderBy: { name: "asc" },
+    }),
+    client.ingredientMovement.findMany({
+      where: { tenantId, createdAt: { gte: window.from, lte: window.to } },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  const rows = ingredients.map((ingredient) => {
+    const own = movements.filter((m) => m.ingredientId === ingredient.id);
+    const sum = (...types: IngredientMovementType[]) =>
+      round3(
+        own
+          .filter((m) => types.includes(m.type as IngredientMovementType))
+          .reduce((total, m) => total + m.quantity, 0),
+      );
+    const counts = own
+      .filter((m) => m.type === "COUNT")
+      .map((m) => ({
+        countedAt: m.createdAt,
+        expected: round3(m.balanceAfter - m.quantity),
+        counted: m.balanceAfter,
+        variance: m.quantity,
+      }));
+    const theoreticalUsage = -sum("SALE", "RETURN");
+    const countVariance = sum("COUNT");
+    const cost =
+      ingredient.costPerUnit === null ? null : Number(ingredient.costPerUnit);
+    return {
+      ingredientId: ingredient.id,
+      name: ingredient.name,
+      unit: ingredient.unit,
+      archived: ingredient.archivedAt !== null,
+      theoreticalUsage,
+      delivered: sum("DELIVERY"),
+      adjusted: sum("ADJUSTMENT"),
+      countVariance,
+      variancePercent:
+        counts.length > 0 && theoreticalUsage > 0
+          ? Math.round((countVariance / theoreticalUsage) * 1000) / 10
+          : null,
+      varianceCost:
+        cost === null ? null : Math.round(countVariance * cost * 100) / 100,
+      counts,
+      stockOnHand: ingredient.stockOnHand,
+    };
+  });
+
+  return {
+    from: window.from,
+    to: window.to,
+    // Archived ingredients only appear when they moved in the window.
+    ingredients: rows.filter(
+      (row) =>
+        !row.archived ||
+        movements.some((m) => m.ingredientId === row.ingredientId),
+    ),
+  };
+}
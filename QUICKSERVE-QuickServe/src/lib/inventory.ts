@@ -0,0 +1,182 @@
+import { prisma } from "@/lib/db";
+import { announceMenuUpdated } from "@/lib/menu";
+import { parseComboComponents } from "@/lib/combos";
+
+type InventoryClient = Pick<typeof prisma, "menuItem">;
+
+// Menu items with stockCount = null are not tracked and never run out.
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+// Combo lines carry their components (OrderItem.comboComponents), whose stock
+// is taken along with the combo's own.
+export type StockLine = {
+  menuItemId: string;
+  quantity: number;
+  comboComponents?: unknown;
+};
+
+export type StockShortage = {
+  menuItemId: string;
+  name: string;
+  remaining: number;
+};
+
+export type StockChanges = {
+  soldOut: string[];
+  restored: string[];
+};
+
+export const emptyStockChanges = (): StockChanges => ({
+  soldOut: [],
+  restored: [],
+});
+
+function totalsByItem(lines: StockLine[]) {
+  const totals = new Map<string, number>();
+  const add = (menuItemId: string, quantity: number) =>
+    totals.set(menuItemId, (totals.get(menuItemId) || 0) + quantity);
+  for (const line of lines) {
+    if (line.quantity <= 0) continue;
+    add(line.menuItemId, line.quantity);
+    for (const component of parseComboComponents(line.comboComponents)) {
+      add(component.menuItemId, component.quantity * line.quantity);
+    }
+  }
+  return totals;
+}
+
+export function isLowStock(item: {
+  stockCount: number | null;
+  lowStockThreshold: number | null;
+}) {
+  return (
+    item.stockCount !== null &&
+    item.stockCount <= (item.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD)
+  );
+}
+
+// Checked before the order transaction so the caller can name the item in
+// its error; reserveStock re-checks atomically inside the transaction.
+export async function findStockShortages(
+  client: InventoryClient,
+  tenantId: string,
+  lines: StockLine[],
+): Promise<StockShortage[]> {
+  const needed = totalsByItem(lines);
+  const items = await client.menuItem.findMany({
+    where: { tenantId, id: { in: Array.from(needed.keys()) } },
+    select: { id: true, name: true, stockCount: true },
+  });
+  return items
+    .filter(
+      (item) =>
+        item.stockCount !== null && item.stockCount < needed.get(item.id)!,
+    )
+    .map((item) => ({
+      menuItemId: item.id,
+      name: item.name,
+      remaining: item.stockCount!,
+    }));
+}
+
+export function describeShortages(shortages: StockShortage[]) {
+  return shortages
+    .map((s) =>
+      s.remaining > 0
+        ? `Only ${s.remaining} ${s.name} left`
+        : `${s.name} is sold out`,
+    )
+    .join("; ");
+}
+
+// Takes stock for new order lines. Items that reach zero are switched off
+// (86'd) and remembered via soldOutAt so a restock can switch them back on.
+export async function reserveStock(
+  tx: InventoryClient,
+  tenantId: string,
+  lines: StockLine[],
+  changes: StockChanges = emptyStockChanges(),
+) {
+  for (const [menuItemId, quantity] of totalsByItem(lines)) {
+    const { count } = await tx.menuItem.updateMany({
+      where: { id: menuItemId, tenantId, stockCount: { gte: quantity } },
+      data: { stockCount: { decrement: quantity } },
+    });
+    if (count === 0) {
+      const tracked = await tx.menuItem.count({
+        where: { id: menuItemId, tenantId, stockCount: { not: null } },
+      });
+      if (tracked > 0) throw new Error("OUT_OF_STOCK");
+      continue;
+    }
+
+    const { count: soldOut } = await tx.menuItem.updateMany({
+      where: { id: menuItemId, stockCount: 0, isAvailable: true },
+      data: { isAvailable: false, soldOutAt: new Date() },
+    });
+    if (soldOut > 0) changes.soldOut.push(menuItemId);
+  }
+  return changes;
+}
+
+// Returns stock from cancelled orders and removed lines. Items this module
+// 86'd come back on; items staff switched off by hand stay off.
+export async function releaseStock(
+  tx: InventoryClient,
+  tenantId: string,
+  lines: StockLine[],
+  changes: StockChanges = emptyStockChanges(),
+) {
+  for (const [menuItemId, quantity] of totalsByItem(lines)) {
+    const { count } = await tx.menuItem.updateMany({
+      where: { id: menuItemId, tenantId, stockCount: { not: null } },
+      data: { stockCount: { increment: quantity } },
+    });
+    if (count === 0) continue;
+
+    const { count: restored } = await tx.menuItem.updateMany({
+      where: {
+        id: menuItemId,
+        soldOutAt: { not: null },
+        stockCount: { gt: 0 },
+      },
+      data: { isAvailable: true, soldOutAt: null },
+    });
+    if (restored > 0) changes.restored.push(menuItemId);
+  }
+  return changes;
+}
+
+// Availability that goes with a count set by hand (a recount or delivery):
+// zero 86es the item, and a restock brings back an item that had sold out.
+export function availabilityForStockCount(
+  item: { isAvailable: boolean; soldOutAt: Date | null },
+  stockCount: number | null,
+) {
+  if (stockCount === 0) {
+    return item.isAvailable
+      ? { isAvailable: false, soldOutAt: new Date() }
+      : {};
+  }
+  return item.soldOutAt ? { isAvailable: true, soldOutAt: null } : {};
+}
+
+// Menus and chat widgets refresh on these, so a sold-out dish disappears
+// from the guest menu right away.
+export async function announceStockChanges(
+  tenantId: string,
+  changes: StockChanges,
+) {
+  if (changes.soldOut.length > 0) {
+    await announceMenuUpdated(tenantId, {
+      action: "ITEMS_SOLD_OUT",
+      itemIds: changes.soldOut,
+    });
+  }
+  if (changes.restored.length > 0) {
+    await announceMenuUpdated(tenantId, {
+      action: "ITEMS_RESTOCKED",
+      itemIds: changes.restored,
+    });
+  }
+}
@@ -0,0 +1,144 @@
+import { prisma } from "@/lib/db";
+import { EVENTS, tenantChannel, triggerPusher } from "@/lib/pusher";
+import { modifierGroupSchema } from "@/lib/modifiers";
+import { menuScheduleSchema } from "@/lib/menuSchedule";
+import { dietaryTagsSchema } from "@/lib/dietary";
+import { comboSlotSchema } from "@/lib/combos";
+import { menuTranslationsSchema } from "@/lib/menuTranslations";
+import { z } from "zod";
+
+type MenuClient = Pick<typeof prisma, "menuCategory" | "menuItem">;
+
+export const menuCategorySchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  sortOrder: z.number().int().min(0).optional(),
+  isActive: z.boolean().optional(),
+  // null or [] = served all day.
+  schedule: menuScheduleSchema.nullable().optional(),
+  // Nepali and Hindi names; null clears them.
+  translations: menuTranslationsSchema.nullable().optional(),
+});
+
+export const menuItemSchema = z.object({
+  categoryId: z.string().min(1),
+  name: z.string().trim().min(1).max(120),
+  description: z.string().trim().max(500).nullable().optional(),
+  price: z.number().min(0).max(1000000),
+  isAvailable: z.boolean().optional(),
+  sortOrder: z.number().int().min(0).optional(),
+  variants: z.array(modifierGroupSchema).max(10).optional(),
+  // Makes the item a combo or set menu; [] turns it back into a plain dish.
+  combo: z.array(comboSlotSchema).max(10).optional(),
+  // null = not tracked (unlimited).
+  stockCount: z.number().int().min(0).max(100000).nullable().optional(),
+  lowStockThreshold: z.number().int().min(0).max(100000).nullable().optional(),
+  schedule: menuScheduleSchema.nullable().optional(),
+  // null clears every tag; leave a key out when it is not known.
+  dietary: dietaryTagsSchema.nullable().optional(),
+  translations: menuTranslationsSchema.nullable().optional(),
+});
+
+export const reorderSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(500),
+});
+
+// Guests only see what can be ordered right now; managers also get archived
+// categories, archived items and items that are switched off.
+export async function loadMenu(
+  client: MenuClient,
+  tenantId: string,
+  options: { manage?: boolean } = {},
+) {
+  return client.menuCategory.findMany({
+    where: { tenantId, ...(options.manage ? {} : { isActive: true }) },
+    orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+    include: {
+      items: {
+        where: options.manage ? {} : { isAvailable: true, archivedAt: null },
+        orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+      },
+    },
+  });
+}
+
+export async function nextCategorySortOrder(
+  client: MenuClient,
+  tenantId: string,
+) {
+  const agg = await client.menuCategory.aggregate({
+    where: { tenantId },
+    _max: { sortOrder: true },
+  });
+  return (agg._max.sortOrder ?? -1) + 1;
+}
+
+export async function nextItemSortOrder(
+  client: MenuClient,
+  tenantId: string,
+  categoryId: string,
+) {
+  const agg = await client.menuItem.aggregate({
+    where: { tenantId, categoryId },
+    _max: { sortOrder: true },
+  });
+  return (agg._max.sortOrder ?? -1) + 1;
+}
+
+// The public menu goes to unauthenticated guests, so only what a customer
+// needs to see and order leaves the server: no stock counts, thresholds or
+// other back-office columns. Call it last, after pricing and schedules.
+export function toPublicMenu<
+  C extends {
+    id: string;
+    name: string;
+    translations?: unknown;
+    availableNow?: boolean;
+    scheduleText?: string | null;
+    items: {
+      id: string;
+      categoryId: string;
+      name: string;
+      description?: string | null;
+      price: unknown;
+      regularPrice?: unknown;
+      priceRule?: string;
+      variants?: unknown;
+      comboSlots?: unknown;
+      dietary?: unknown;
+      translations?: unknown;
+      availableNow?: boolean;
+      scheduleText?: string | null;
+    }[];
+  },
+>(categories: C[]) {
+  return categories.map((category) => ({
+    id: category.id,
+    name: category.name,
+    translations: category.translations,
+    availableNow: category.availableNow,
+    scheduleText: category.scheduleText,
+    items: category.items.map((item) => ({
+      id: item.id,
+      categoryId: item.categoryId,
+      name: item.name,
+      description: item.description,
+      price: item.price,
+      regularPrice: item.regularPrice,
+      priceRule: item.priceRule,
+      variants: item.variants,
+      comboSlots: item.comboSlots,
+      dietary: item.dietary,
+      translations: item.translations,
+      availableNow: item.availableNow,
+      scheduleText: item.scheduleText,
+    })),
+  }));
+}
+
+// Open dashboards and chat widgets drop their cached menu on this event.
+export async function announceMenuUpdated(
+  tenantId: string,
+  change: { action: string; categoryIds?: string[]; itemIds?: string[] },
+) {
+  await triggerPusher(tenantChannel(tenantId), EVENTS.MENU_UPDATED, change);
+}
@@ -0,0 +1,51 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type { ScoredMenuItem } from "@/lib/menuImportReview";
+import type { MenuExtractionProvider } from "./types";
+
+const FIXTURE_DIR = process.env.MENU_EXTRACTION_FIXTURE_DIR || "";
+
+const DEFAULT_FIXTURE: ScoredMenuItem[] = [
+  { name: "Chicken Momo", category: "Momo", price: 250, confidence: 0.98 },
+  {
+    name: "Veg Momo",
+    category: "Momo",
+    price: 200,
+    confidence: 0.97,
+    dietary: { vegetarian: true },
+  },
+  {
+    name: "Chicken Chowmein",
+    category: "Noodles",
+    price: 220,
+    description: "Stir-fried noodles with chicken and vegetables",
+    confidence: 0.95,
+  },
+  { name: "Masala Tea", category: "Drinks", price: 60, confidence: 0.9 },
+];
+
+// Offline provider for development and tests. Returns the items in
+// <MENU_EXTRACTION_FIXTURE_DIR>/<file name>.json when that file exists, and a
+// small built-in menu otherwise, so the same upload always yields the same
+// rows and no network or API key is needed.
+export const fixtureProvider: MenuExtractionProvider = {
+  id: "FIXTURE",
+
+  supports() {
+    return true;
+  },
+
+  async extract(input) {
+    if (!FIXTURE_DIR) return DEFAULT_FIXTURE;
+    const fixturePath = path.join(
+      FIXTURE_DIR,
+      `${path.basename(input.fileName)}.json`,
+    );
+    try {
+      return JSON.parse(await readFile(fixturePath, "utf8"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return DEFAULT_FIXTURE;
+      throw error;
+    }
+  },
+};
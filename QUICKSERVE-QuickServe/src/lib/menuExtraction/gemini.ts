@@ -0,0 +1,48 @@
+import { GEMINI_MODEL, getGenAI } from "@/lib/genai";
+import type { MenuExtractionProvider } from "./types";
+
+const SUPPORTED = new Set([
+  "application/pdf",
+  "image/png",
+  "image/jpeg",
+  "image/webp",
+  "image/heic",
+]);
+
+const PROMPT = `You are reading a restaurant menu. Return ONLY a JSON array, no prose.
+Each element: {"name": string, "category": string, "price": number, "description": string, "confidence": number, "dietary": object}
+- category is the nearest section heading above the item ("Other" if none).
+- price is the number only, without currency symbols. Skip items with no price.
+- confidence is 0 to 1: how sure you are the name and price were read correctly. Use a low value for blurry, cut-off or ambiguous text.
+- dietary records only what the menu itself prints for the item (symbols, a legend such as "V = vegetarian", or words like "gluten free"). Keys: vegetarian, vegan, containsGluten, containsNuts, containsDairy (booleans) and spiceLevel (0 to 3, e.g. chilli icons). Leave out every key the menu does not state; never infer from the dish name or ingredients. Use {} when nothing is printed.`;
+
+export const geminiProvider: MenuExtractionProvider = {
+  id: "GEMINI",
+
+  supports(mimeType) {
+    return SUPPORTED.has(mimeType);
+  },
+
+  async extract(input) {
+    const ai = getGenAI();
+    if (!ai) throw new Error("GEMINI_NOT_CONFIGURED");
+
+    const result = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: [
+        {
+          role: "user",
+          parts: [
+            { text: PROMPT },
+            { inlineData: { mimeType: input.mimeType, data: input.base64 } },
+          ],
+        },
+      ],
+      config: { responseMimeType: "application/json" },
+    });
+
+    const text = (result.text || "").replace(/^```(?:json)?|```$/g, "").trim();
+    const parsed = JSON.parse(text || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  },
+};
@@ -0,0 +1,98 @@
+import type { ScoredMenuItem } from "@/lib/menuImportReview";
+import { extractDietaryMarkers, parseDietaryTags } from "@/lib/dietary";
+import { fixtureProvider } from "./fixture";
+import { geminiProvider } from "./gemini";
+import { pdfTextProvider } from "./pdfText";
+import type {
+  ExtractionInput,
+  ExtractionProviderId,
+  MenuExtractionProvider,
+} from "./types";
+
+export type * from "./types";
+export { translateMenuEntries } from "./translate";
+
+const PROVIDERS: Record<ExtractionProviderId, MenuExtractionProvider> = {
+  GEMINI: geminiProvider,
+  PDF_TEXT: pdfTextProvider,
+  FIXTURE: fixtureProvider,
+};
+
+// The fixture provider returns canned menus, so like the mock payment
+// gateway it must never be reachable in production.
+export function isExtractionProviderEnabled(
+  id: string,
+): id is ExtractionProviderId {
+  if (!(id in PROVIDERS)) return false;
+  return id !== "FIXTURE" || process.env.NODE_ENV !== "production";
+}
+
+// MENU_EXTRACTION_PROVIDER pins a single provider. Left unset (or AUTO),
+// digital PDFs are read from their text layer first and everything else, or
+// anything the text layer could not read, goes to Gemini.
+export function resolveExtractionProviders(
+  mimeType: string,
+): MenuExtractionProvider[] {
+  const configured = (
+    process.env.MENU_EXTRACTION_PROVIDER || "AUTO"
+  ).toUpperCase();
+  const chain: ExtractionProviderId[] =
+    configured === "AUTO"
+      ? ["PDF_TEXT", "GEMINI"]
+      : [configured as ExtractionProviderId];
+  return chain
+    .filter(isExtractionProviderEnabled)
+    .map((id) => PROVIDERS[id])
+    .filter((provider) => provider.supports(mimeType));
+}
+
+function cleanItems(raw: unknown[]): ScoredMenuItem[] {
+  return raw.flatMap((entry: any) => {
+    // Markers left in the name ("Paneer Tikka (V)") become tags too.
+    const marked = extractDietaryMarkers(String(entry?.name ?? "").trim());
+    const name = marked.name;
+    const price = Number(entry?.price);
+    if (!name || !Number.isFinite(price) || price <= 0) return [];
+    const confidence = Number(entry?.confidence);
+    const dietary = parseDietaryTags({
+      ...parseDietaryTags(entry?.dietary),
+      ...marked.dietary,
+    });
+    return [
+      {
+        name,
+        category: String(entry?.category ?? "").trim() || "Other",
+        price: Math.round(price * 100) / 100,
+        description: String(entry?.description ?? "").trim() || undefined,
+        confidence: Number.isFinite(confidence)
+          ? Math.min(1, Math.max(0, confidence))
+          : undefined,
+        dietary: Object.keys(dietary).length > 0 ? dietary : undefined,
+      },
+    ];
+  });
+}
+
+// Runs the provider chain for one file and returns the first non-empty,
+// validated result. If the last provider that ran threw, its error is
+// rethrown so the scan job can retry the file.
+export async function extractMenuItems(
+  input: ExtractionInput,
+): Promise<ScoredMenuItem[]> {
+  const providers = resolveExtractionProviders(input.mimeType);
+  if (providers.length === 0) throw new Error("NO_EXTRACTION_PROVIDER");
+
+  let lastError: unknown = null;
+  for (const provider of providers) {
+    try {
+      const items = cleanItems(await provider.extract(input));
+      if (items.length > 0) return items;
+      lastError = null;
+    } catch (error) {
+      lastError = error;
+      console.error(`Menu extraction (${provider.id}) failed:`, error);
+    }
+  }
+  if (lastError) throw lastError;
+  return [];
+}
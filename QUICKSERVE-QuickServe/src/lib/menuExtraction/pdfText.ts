@@ -0,0 +1,342 @@
+import { inflateSync } from "zlib";
+import type { ScoredMenuItem } from "@/lib/menuImportReview";
+import type { MenuExtractionProvider } from "./types";
+
+// Reads menus out of digital PDFs (exported from Word, Canva, etc.) using
+// the text layer alone. Scanned PDFs, and PDFs whose fonts need a ToUnicode
+// map to decode, yield nothing and fall through to the next provider.
+
+// The layout heuristics are good but not perfect, so rows are scored a little
+// below certain and still go through the review checks.
+const TEXT_LAYER_CONFIDENCE = 0.9;
+
+// Windows-1252 characters commonly found in menu PDFs, which latin1 decoding
+// would otherwise turn into control characters.
+const WIN_ANSI: Record<number, string> = {
+  0x80: "€",
+  0x85: "…",
+  0x91: "'",
+  0x92: "'",
+  0x93: '"',
+  0x94: '"',
+  0x95: "•",
+  0x96: "-",
+  0x97: "-",
+};
+
+function decodeBytes(bytes: number[]) {
+  return bytes.map((b) => WIN_ANSI[b] ?? String.fromCharCode(b)).join("");
+}
+
+function contentStreams(pdf: Buffer): string[] {
+  const source = pdf.toString("latin1");
+  const streams: string[] = [];
+  const header = /<<((?:[^<>]|<<[^<>]*>>|<[^<>]*>)*)>>\s*stream\r?\n/g;
+  for (const match of source.matchAll(header)) {
+    const dict = match[1];
+    const start = match.index! + match[0].length;
+    const end = source.indexOf("endstream", start);
+    if (end < 0) break;
+    if (/\/Subtype\s*\/Image|\/Type\s*\/(?:XRef|ObjStm)/.test(dict)) continue;
+
+    const raw = pdf.subarray(start, end);
+    let data: Buffer;
+    if (/\/FlateDecode/.test(dict)) {
+      try {
+        data = inflateSync(raw, { finishFlush: 2 }); // Z_SYNC_FLUSH
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dict)) {
+      continue;
+    } else {
+      data = raw;
+    }
+    const text = data.toString("latin1");
+    if (text.includes("BT")) streams.push(text);
+  }
+  return streams;
+}
+
+type Token = string | number | { str: string } | Token[];
+
+// Just enough of the content-stream grammar to follow the text operators.
+function tokenize(stream: string): Token[] {
+  const tokens: Token[] = [];
+  const stack: Token[][] = [tokens];
+  const push = (token: Token) => stack[stack.length - 1].push(token);
+  let i = 0;
+  while (i < stream.length) {
+    const ch = stream[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "%") {
+      while (i < stream.length && stream[i] !== "\n") i++;
+    } else if (ch === "(") {
+      const bytes: number[] = [];
+      let depth = 1;
+      i++;
+      while (i < stream.length && depth > 0) {
+        const c = stream[i];
+        if (c === "\\") {
+          const next = stream[i + 1];
+          const escapes: Record<string, number> = {
+            n: 10,
+            r: 13,
+            t: 9,
+            b: 8,
+            f: 12,
+          };
+          if (/[0-7]/.test(next)) {
+            const octal = stream.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+            bytes.push(parseInt(octal, 8) & 0xff);
+            i += 1 + octal.length;
+            continue;
+          }
+          if (next === "\r" || next === "\n") {
+            i += next === "\r" && stream[i + 2] === "\n" ? 3 : 2;
+            continue;
+          }
+          bytes.push(escapes[next] ?? next.charCodeAt(0));
+          i += 2;
+          continue;
+        }
+        if (c === "(") depth++;
+        if (c === ")" && --depth === 0) break;
+        bytes.push(c.charCodeAt(0));
+        i++;
+      }
+      push({ str: decodeBytes(bytes) });
+      i++;
+    } else if (ch === "<" && stream[i + 1] === "<") {
+      // Inline dictionaries (marked content properties) are skipped.
+      const end = stream.indexOf(">>", i);
+      i = end < 0 ? stream.length : end + 2;
+    } else if (ch === "<") {
+      const end = stream.indexOf(">", i);
+      const hex = stream.slice(i + 1, end).replace(/\s/g, "");
+      const bytes = (hex.length % 2 ? `${hex}0` : hex)
+        .match(/../g)
+        ?.map((pair) => parseInt(pair, 16));
+      push({ str: decodeBytes(bytes || []) });
+      i = end + 1;
+    } else if (ch === "[") {
+      const array: Token[] = [];
+      push(array);
+      stack.push(array);
+      i++;
+    } else if (ch === "]") {
+      if (stack.length > 1) stack.pop();
+      i++;
+    } else {
+      const word = stream
+        .slice(i)
+        .match(/^[^\s()<>[\]{}/%]+|^\/[^\s()<>[\]{}/%]*/)?.[0];
+      if (!word) {
+        i++;
+        continue;
+      }
+      const number = Number(word);
+      push(Number.isNaN(number) ? word : number);
+      i += word.length;
+    }
+  }
+  return tokens;
+}
+
+type Segment = { x: number; y: number; text: string };
+
+// Follows the text position operators so runs drawn separately (a dish name
+// and its right-aligned price are often two text objects) can be put back
+// together by their baseline.
+function textSegments(stream: string): Segment[] {
+  const segments: Segment[] = [];
+  let operands: Token[] = [];
+  // Line-start position and the text matrix scale.
+  let x = 0;
+  let y = 0;
+  let sx = 1;
+  let sy = 1;
+  let leading = 0;
+  const show = (token: Token | undefined) => {
+    if (!token || typeof token !== "object" || Array.isArray(token)) return;
+    if (token.str.trim()) segments.push({ x, y, text: token.str });
+  };
+  const nextLine = () => {
+    y -= leading * sy;
+  };
+
+  for (const token of tokenize(stream)) {
+    if (typeof token !== "string" || token.startsWith("/")) {
+      operands.push(token);
+      continue;
+    }
+    const nums = operands.filter((o): o is number => typeof o === "number");
+    const last = operands[operands.length - 1];
+    switch (token) {
+      case "BT":
+        x = 0;
+        y = 0;
+        sx = 1;
+        sy = 1;
+        break;
+      case "TL":
+        leading = nums[0] ?? leading;
+        break;
+      case "TD":
+        leading = -(nums[1] ?? 0);
+        x += (nums[0] ?? 0) * sx;
+        y += (nums[1] ?? 0) * sy;
+        break;
+      case "Td":
+        x += (nums[0] ?? 0) * sx;
+        y += (nums[1] ?? 0) * sy;
+        break;
+      case "Tm":
+        if (nums.length >= 6) {
+          sx = nums[0] || 1;
+          sy = nums[3] || 1;
+          x = nums[4];
+          y = nums[5];
+        }
+        break;
+      case "T*":
+        nextLine();
+        break;
+      case "Tj":
+        show(last);
+        break;
+      case "'":
+      case '"':
+        nextLine();
+        show(last);
+        break;
+      case "TJ":
+        if (Array.isArray(last)) {
+          let text = "";
+          for (const part of last) {
+            // Large negative kerning is how many writers encode a space.
+            if (typeof part === "number") {
+              if (part < -250) text += " ";
+            } else if (typeof part === "object" && "str" in part) {
+              text += part.str;
+            }
+          }
+          show({ str: text });
+        }
+        break;
+    }
+    operands = [];
+  }
+  return segments;
+}
+
+const SAME_LINE_TOLERANCE = 2;
+
+function textLines(stream: string): string[] {
+  const segments = textSegments(stream).sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: Segment[][] = [];
+  for (const segment of segments) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - segment.y) <= SAME_LINE_TOLERANCE) {
+      row.push(segment);
+    } else {
+      rows.push([segment]);
+    }
+  }
+
+  const lines: string[] = [];
+  for (const row of rows) {
+    row.sort((a, b) => a.x - b.x);
+    // Two-column menus share baselines; start a new line after a price when
+    // more text follows on the same row.
+    let line = "";
+    for (const segment of row) {
+      if (PRICE_LINE.test(line.trim()) && /^\s*\p{L}/u.test(segment.text)) {
+        lines.push(line);
+        line = "";
+      }
+      line += (line ? " " : "") + segment.text;
+    }
+    lines.push(line);
+  }
+  return lines.map((line) => line.replace(/\s+/g, " ").trim()).filter(Boolean);
+}
+
+// Prices may use thousands separators ("1,250", "1,250.50"); a comma is
+// only read as a decimal point when exactly two digits follow ("12,50").
+const PRICE_LINE =
+  /^(.*?\p{L}.*?)[\s.·…_:-]*(?:rs\.?|npr|nrs|₹|\$)?\s*(\d{1,3}(?:,\d{3})+(?:\.\d{1,2})?|\d{1,6}(?:\.\d{1,2}|,\d{2})?)\s*(?:\/-)?$/iu;
+
+function parsePrice(text: string) {
+  return Number(
+    /^\d+,\d{2}$/.test(text) ? text.replace(",", ".") : text.replace(/,/g, ""),
+  );
+}
+
+function isHeading(line: string) {
+  const words = line.split(" ");
+  return (
+    line.length <= 40 &&
+    words.length <= 5 &&
+    !/[.,;]$/.test(line) &&
+    (line === line.toUpperCase() || words.every((w) => /^[\p{Lu}&\d]/u.test(w)))
+  );
+}
+
+// Turns text lines into menu rows: a line ending in a price is an item, a
+// short title-like line without one starts a new category, and anything else
+// is treated as the description of the item above it.
+export function parseMenuLines(lines: string[]): ScoredMenuItem[] {
+  const items: ScoredMenuItem[] = [];
+  let category = "Other";
+  for (const line of lines) {
+    const match = line.match(PRICE_LINE);
+    if (match) {
+      const name = match[1].replace(/[\s.·…_:-]+$/, "").trim();
+      const price = parsePrice(match[2]);
+      if (name.length >= 2 && price > 0) {
+        items.push({
+          name,
+          category,
+          price,
+          confidence: TEXT_LAYER_CONFIDENCE,
+        });
+        continue;
+      }
+    }
+    if (isHeading(line)) {
+      category = line
+        .toLowerCase()
+        .replace(/(^|\s)\p{L}/gu, (c) => c.toUpperCase());
+      continue;
+    }
+    const last = items[items.length - 1];
+    if (last && last.category === category) {
+      last.description = [last.description, line].filter(Boolean).join(" ");
+    }
+  }
+  return items;
+}
+
+export function extractPdfText(pdf: Buffer): string[] {
+  const lines = contentStreams(pdf).flatMap(textLines);
+  // Mostly unprintable output means the fonts use a custom encoding we cannot
+  // map; report no text rather than garbage.
+  const text = lines.join("");
+  const printable = text.replace(/[^\x20-\x7e\u00a0-\uffff]/g, "").length;
+  if (text.length === 0 || printable / text.length < 0.9) return [];
+  return lines;
+}
+
+export const pdfTextProvider: MenuExtractionProvider = {
+  id: "PDF_TEXT",
+
+  supports(mimeType) {
+    return mimeType === "application/pdf";
+  },
+
+  async extract(input) {
+    return parseMenuLines(extractPdfText(Buffer.from(input.base64, "base64")));
+  },
+};
@@ -0,0 +1,78 @@
+import { GEMINI_MODEL, getGenAI } from "@/lib/genai";
+import { normalizeMenuName } from "@/lib/menuImportPlan";
+import {
+  parseMenuTranslations,
+  type MenuTranslations,
+} from "@/lib/menuTranslations";
+
+const BATCH_SIZE = 40;
+
+const PROMPT = `You translate restaurant menus in Nepal and India. Return ONLY a JSON array, no prose.
+For every input entry return {"name": <the input name, unchanged>, "ne": {"name": string, "description": string}, "hi": {"name": string, "description": string}}.
+- ne is Nepali and hi is Hindi, both in Devanagari.
+- Dish names are written the way a local menu would print them: transliterate names such as "Momo" or "Chowmein" rather than translating them word by word.
+- Only include "description" when the input has one.
+Entries:
+`;
+
+export type MenuTranslationRequest = {
+  items: { name: string; description?: string }[];
+  categories: string[];
+};
+
+export type MenuTranslationResult = {
+  items: Map<string, MenuTranslations>;
+  categories: Map<string, MenuTranslations>;
+};
+
+async function translateBatch(
+  entries: { name: string; description?: string }[],
+) {
+  const ai = getGenAI();
+  if (!ai) throw new Error("GEMINI_NOT_CONFIGURED");
+  const result = await ai.models.generateContent({
+    model: GEMINI_MODEL,
+    contents: PROMPT + JSON.stringify(entries),
+    config: { responseMimeType: "application/json" },
+  });
+  const text = (result.text || "").replace(/^```(?:json)?|```$/g, "").trim();
+  const parsed = JSON.parse(text || "[]");
+  const translations = new Map<string, MenuTranslations>();
+  for (const entry of Array.isArray(parsed) ? parsed : []) {
+    if (typeof entry?.name !== "string") continue;
+    const value = parseMenuTranslations(entry);
+    if (Object.keys(value).length > 0) {
+      translations.set(normalizeMenuName(entry.name), value);
+    }
+  }
+  return translations;
+}
+
+// Machine translations for a scanned menu, keyed by normalized English name.
+// Translation is a convenience on top of the import: a batch that fails is
+// logged and its entries simply stay untranslated.
+export async function translateMenuEntries(
+  request: MenuTranslationRequest,
+): Promise<MenuTranslationResult> {
+  const result: MenuTranslationResult = {
+    items: new Map(),
+    categories: new Map(),
+  };
+  if (!getGenAI()) return result;
+
+  const groups: [Map<string, MenuTranslations>, { name: string }[]][] = [
+    [result.items, request.items],
+    [result.categories, request.categories.map((name) => ({ name }))],
+  ];
+  for (const [target, entries] of groups) {
+    for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+      try {
+        const batch = await translateBatch(entries.slice(i, i + BATCH_SIZE));
+        batch.forEach((value, key) => target.set(key, value));
+      } catch (error) {
+        console.error("Menu translation failed:", error);
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,18 @@
+import type { ScoredMenuItem } from "@/lib/menuImportReview";
+
+export type ExtractionProviderId = "GEMINI" | "PDF_TEXT" | "FIXTURE";
+
+export type ExtractionInput = {
+  fileName: string;
+  mimeType: string;
+  // File contents, base64 encoded (as stored on the scan job).
+  base64: string;
+};
+
+export interface MenuExtractionProvider {
+  id: ExtractionProviderId;
+  supports(mimeType: string): boolean;
+  // Returns the raw reads; callers validate and dedupe. Throwing (or
+  // returning nothing) lets the resolver fall through to the next provider.
+  extract(input: ExtractionInput): Promise<ScoredMenuItem[]>;
+}
@@ -0,0 +1,300 @@
+import { dedupeParsedItems } from "@/lib/menuImport";
+import { modifierGroupSchema, parseModifierGroups } from "@/lib/modifiers";
+import { dietaryTagsSchema, parseDietaryTags } from "@/lib/dietary";
+import {
+  menuTranslationsSchema,
+  parseMenuTranslations,
+} from "@/lib/menuTranslations";
+import { parseMenuSchedule } from "@/lib/menuSchedule";
+import { normalizeMenuName, type ImportedMenuItem } from "@/lib/menuImportPlan";
+import {
+  parseCsv,
+  readXlsx,
+  toCsv,
+  writeXlsx,
+  type SheetRows,
+} from "@/lib/spreadsheet";
+import { z } from "zod";
+
+export type MenuFileFormat = "csv" | "xlsx" | "json";
+
+// Column order used for export; imports match headers case-insensitively.
+// The last two are for reference only: day-part schedules and switched-off
+// categories are exported but not applied on import, so set them again in
+// the menu editor after restoring a file into a new menu.
+export const MENU_FILE_COLUMNS = [
+  "category",
+  "name",
+  "price",
+  "description",
+  "available",
+  "variants",
+  "dietary",
+  "translations",
+  "category_translations",
+  "schedule",
+  "category_active",
+] as const;
+
+export const MENU_FILE_CONTENT_TYPES: Record<MenuFileFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json",
+};
+
+export type MenuFileRowError = { row: number; message: string };
+
+const variantsSchema = z.array(modifierGroupSchema).max(10);
+
+// "Rs. 1,250", "NPR 250" or "₹250.50". Anything else that is not a plain
+// number, such as "250/300" or "MP", is rejected rather than guessed.
+const CURRENCY_PREFIX = /^(?:rs\.?|npr|inr|₹|रु\.?)\s*/i;
+const PLAIN_PRICE = /^(?:\d+|\d{1,3}(?:,\d{3})+)(?:\.\d{1,2})?$/;
+
+function parsePrice(value: unknown): number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  }
+  const text = String(value).trim().replace(CURRENCY_PREFIX, "");
+  if (!PLAIN_PRICE.test(text)) return null;
+  return Number(text.replace(/,/g, ""));
+}
+
+// JSON columns may hold an object (JSON files) or its text (CSV and XLSX).
+function parseJsonCell<T>(value: unknown, schema: z.ZodType<T>): T | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const raw = typeof value === "string" ? JSON.parse(value) : value;
+  return schema.parse(raw);
+}
+
+export function detectMenuFileFormat(fileName: string): MenuFileFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "csv" || extension === "xlsx" || extension === "json") {
+    return extension;
+  }
+  return null;
+}
+
+function parseAvailability(value: unknown): boolean | undefined | null {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value === "boolean") return value;
+  const text = String(value).trim().toLowerCase();
+  if (["yes", "y", "true", "1", "available"].includes(text)) return true;
+  if (["no", "n", "false", "0", "unavailable", "86"].includes(text)) {
+    return false;
+  }
+  return null;
+}
+
+// Validates one record from any format. Row numbers are 1-based and count
+// the header so they match what the user sees in their spreadsheet.
+function toImportedItem(
+  record: Record<string, unknown>,
+  row: number,
+): ImportedMenuItem | MenuFileRowError {
+  const name = String(record.name ?? "").trim();
+  const category = String(record.category ?? "").trim();
+  const price = parsePrice(record.price);
+  if (!name) return { row, message: "Missing name" };
+  if (!category) return { row, message: `${name}: missing category` };
+  if (price === null) return { row, message: `${name}: invalid price` };
+
+  const isAvailable = parseAvailability(record.available);
+  if (isAvailable === null) {
+    return { row, message: `${name}: available must be yes or no` };
+  }
+
+  let variants: ImportedMenuItem["variants"];
+  if (record.variants !== undefined && record.variants !== "") {
+    try {
+      const raw =
+        typeof record.variants === "string"
+          ? JSON.parse(record.variants)
+          : record.variants;
+      variants = parseModifierGroups(variantsSchema.parse(raw));
+    } catch {
+      return { row, message: `${name}: variants is not valid modifier JSON` };
+    }
+  }
+
+  let dietary: ImportedMenuItem["dietary"];
+  let translations: ImportedMenuItem["translations"];
+  let categoryTranslations: ImportedMenuItem["categoryTranslations"];
+  try {
+    const tags = parseJsonCell(record.dietary, dietaryTagsSchema);
+    dietary = tags && parseDietaryTags(tags);
+  } catch {
+    return { row, message: `${name}: dietary is not valid tag JSON` };
+  }
+  try {
+    const own = parseJsonCell(record.translations, menuTranslationsSchema);
+    translations = own && parseMenuTranslations(own);
+    const ofCategory = parseJsonCell(
+      record.category_translations,
+      menuTranslationsSchema,
+    );
+    categoryTranslations = ofCategory && parseMenuTranslations(ofCategory);
+  } catch {
+    return { row, message: `${name}: translations is not valid JSON` };
+  }
+
+  const description = String(record.description ?? "").trim();
+  return {
+    name,
+    category,
+    price: Math.round(price * 100) / 100,
+    description: description || undefined,
+    isAvailable,
+    variants,
+    dietary,
+    translations,
+    categoryTranslations,
+  } as ImportedMenuItem;
+}
+
+function rowsToRecords(rows: SheetRows) {
+  const [header = [], ...body] = rows;
+  const columns = header.map((h) => h.trim().toLowerCase());
+  return body.map((cells) =>
+    Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ""])),
+  );
+}
+
+// Accepts either a flat array of items or the nested shape produced by the
+// JSON export, so a backup can be re-imported as-is.
+function jsonToRecords(text: string): Record<string, unknown>[] {
+  const parsed = JSON.parse(text);
+  const categories = Array.isArray(parsed) ? null : parsed?.categories;
+  if (Array.isArray(categories)) {
+    return categories.flatMap((c: any) =>
+      (c.items || []).map((item: any) => ({
+        category: c.name,
+        category_translations: c.translations,
+        ...item,
+      })),
+    );
+  }
+  if (Array.isArray(parsed)) return parsed;
+  throw new Error("INVALID_MENU_FILE");
+}
+
+export function parseMenuFile(format: MenuFileFormat, buffer: Buffer) {
+  let records: Record<string, unknown>[];
+  let firstRow = 2;
+  if (format === "json") {
+    records = jsonToRecords(buffer.toString("utf8"));
+    firstRow = 1;
+  } else {
+    const rows =
+      format === "csv" ? parseCsv(buffer.toString("utf8")) : readXlsx(buffer);
+    const header = (rows[0] || []).map((h) => h.trim().toLowerCase());
+    if (!header.includes("name") || !header.includes("price")) {
+      throw new Error("MISSING_COLUMNS");
+    }
+    records = rowsToRecords(rows);
+  }
+
+  const items: ImportedMenuItem[] = [];
+  const errors: MenuFileRowError[] = [];
+  records.forEach((record, index) => {
+    const result = toImportedItem(record, index + firstRow);
+    if ("message" in result) errors.push(result);
+    else items.push(result);
+  });
+  return { items, errors };
+}
+
+// Runs the scan importer's dedupe, then re-attaches the spreadsheet-only
+// fields it does not know about.
+export function dedupeImportedItems(items: ImportedMenuItem[]) {
+  const extras = new Map(
+    items.map((item) => [
+      normalizeMenuName(item.name),
+      {
+        isAvailable: item.isAvailable,
+        variants: item.variants,
+        dietary: item.dietary,
+        translations: item.translations,
+        categoryTranslations: item.categoryTranslations,
+      },
+    ]),
+  );
+  return dedupeParsedItems(items).map((item) => ({
+    ...item,
+    ...extras.get(normalizeMenuName(item.name)),
+  }));
+}
+
+function menuToRecords(categories: any[]) {
+  return categories.flatMap((category) =>
+    (category.items || []).map((item: any) => ({
+      category: category.name,
+      name: item.name,
+      price: Number(item.price),
+      description: item.description || "",
+      available: item.isAvailable ? "yes" : "no",
+      variants: parseModifierGroups(item.variants),
+      dietary: parseDietaryTags(item.dietary),
+      translations: parseMenuTranslations(item.translations),
+      category_translations: parseMenuTranslations(category.translations),
+      schedule: parseMenuSchedule(item.schedule),
+      category_active: category.isActive !== false,
+    })),
+  );
+}
+
+// Empty JSON columns stay blank in spreadsheets.
+const jsonCell = (value: object) =>
+  Object.keys(value).length > 0 ? JSON.stringify(value) : "";
+
+export function serializeMenu(
+  format: MenuFileFormat,
+  categories: any[],
+): string | Buffer {
+  if (format === "json") {
+    return JSON.stringify(
+      {
+        exportedAt: new Date().toISOString(),
+        categories: categories.map((category) => ({
+          name: category.name,
+          active: category.isActive !== false,
+          translations: parseMenuTranslations(category.translations),
+          schedule: parseMenuSchedule(category.schedule),
+          items: menuToRecords([category]).map(
+            ({
+              category: _category,
+              category_translations: _categoryTranslations,
+              category_active: _categoryActive,
+              available,
+              ...item
+            }) => ({
+              ...item,
+              available: available === "yes",
+            }),
+          ),
+        })),
+      },
+      null,
+      2,
+    );
+  }
+
+  const rows: SheetRows = [
+    [...MENU_FILE_COLUMNS],
+    ...menuToRecords(categories).map((record) => [
+      record.category,
+      record.name,
+      String(record.price),
+      record.description,
+      record.available,
+      record.variants.length > 0 ? JSON.stringify(record.variants) : "",
+      jsonCell(record.dietary),
+      jsonCell(record.translations),
+      jsonCell(record.category_translations),
+      jsonCell(record.schedule),
+      record.category_active ? "yes" : "no",
+    ]),
+  ];
+  return format === "csv" ? toCsv(rows) : writeXlsx(rows, "Menu");
+}
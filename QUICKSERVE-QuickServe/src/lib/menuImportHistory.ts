@@ -0,0 +1,183 @@
+import { prisma } from "@/lib/db";
+import type { ImportedMenuItem, MenuImportChange } from "@/lib/menuImportPlan";
+
+type Tx = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+export function parseImportChanges(raw: string | null): MenuImportChange[] {
+  try {
+    const parsed = JSON.parse(raw || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Persists what an applied import did. Callers run this in the same
+// transaction as the import so history never disagrees with the menu.
+export async function recordImportBatch(
+  tx: Tx,
+  input: {
+    tenantId: string;
+    createdById?: string | null;
+    source: string;
+    files: string[];
+    items: ImportedMenuItem[];
+    changes: MenuImportChange[];
+    summary: Record<string, number>;
+  },
+) {
+  return tx.importBatch.create({
+    data: {
+      tenantId: input.tenantId,
+      createdById: input.createdById || undefined,
+      source: input.source,
+      status: "APPLIED",
+      files: JSON.stringify(input.files),
+      items: JSON.stringify(input.items),
+      changes: JSON.stringify(input.changes),
+      summary: JSON.stringify(input.summary),
+    },
+  });
+}
+
+function touchedItemIds(changes: MenuImportChange[]) {
+  return changes.flatMap((c) =>
+    c.kind === "ITEM_CREATED" || c.kind === "ITEM_UPDATED" ? [c.itemId] : [],
+  );
+}
+
+type ItemValues = Extract<MenuImportChange, { kind: "ITEM_UPDATED" }>["after"];
+
+// Fields whose current value no longer matches what the import wrote, i.e.
+// someone edited them by hand afterwards.
+function editedSinceImport(
+  current: Record<string, any>,
+  after: ItemValues,
+): (keyof ItemValues)[] {
+  const fields = Object.keys(after) as (keyof ItemValues)[];
+  return fields.filter((field) => {
+    const wrote = after[field];
+    if (wrote === undefined) return false;
+    if (field === "price") return Number(current.price) !== Number(wrote);
+    return (current[field] ?? null) !== (wrote ?? null);
+  });
+}
+
+export type RollbackSkippedItem = {
+  itemId: string;
+  name: string;
+  fields: string[];
+};
+
+// Undoes a batch: updated items get their old price, description,
+// availability, dietary tags and translations back, and anything the batch
+// created is archived (recipes, combos, price rules and order history may
+// point at it). Values edited by hand since the import are kept and reported
+// instead of being overwritten.
+export async function rollbackImportBatch(
+  tx: Tx,
+  tenantId: string,
+  batchId: string,
+  actorUserId?: string | null,
+) {
+  const batch = await tx.importBatch.findFirst({
+    where: { id: batchId, tenantId },
+  });
+  if (!batch) throw new Error("IMPORT_NOT_FOUND");
+  if (batch.status !== "APPLIED") throw new Error("IMPORT_ALREADY_ROLLED_BACK");
+
+  const changes = parseImportChanges(batch.changes);
+  const itemIds = new Set(touchedItemIds(changes));
+
+  // Rolling back an older batch under a newer one would restore values the
+  // newer import already replaced, so newer overlapping batches go first.
+  const newer = await tx.importBatch.findMany({
+    where: { tenantId, status: "APPLIED", createdAt: { gt: batch.createdAt } },
+    select: { changes: true },
+  });
+  if (
+    newer.some((b) =>
+      touchedItemIds(parseImportChanges(b.changes)).some((id) =>
+        itemIds.has(id),
+      ),
+    )
+  ) {
+    throw new Error("NEWER_IMPORT_OVERLAPS");
+  }
+
+  const currentItems = await tx.menuItem.findMany({
+    where: { tenantId, id: { in: Array.from(itemIds) } },
+  });
+  const currentById = new Map(currentItems.map((i) => [i.id, i]));
+  const skipped: RollbackSkippedItem[] = [];
+
+  for (const change of changes) {
+    if (change.kind !== "ITEM_UPDATED" && change.kind !== "ITEM_CREATED") {
+      continue;
+    }
+    const current = currentById.get(change.itemId);
+    if (!current) continue;
+    const edited = editedSinceImport(current, change.after);
+    if (edited.length > 0) {
+      skipped.push({
+        itemId: change.itemId,
+        name: change.name,
+        fields: edited,
+      });
+    }
+
+    if (change.kind === "ITEM_UPDATED") {
+      const data: Record<string, unknown> = {};
+      for (const field of Object.keys(change.before) as (keyof ItemValues)[]) {
+        if (change.before[field] === undefined || edited.includes(field)) {
+          continue;
+        }
+        data[field] = change.before[field];
+      }
+      if (Object.keys(data).length > 0) {
+        await tx.menuItem.updateMany({
+          where: { id: change.itemId, tenantId },
+          data,
+        });
+      }
+    }
+    // An item reworked by hand after the import is no longer the import's.
+    if (change.kind === "ITEM_CREATED" && edited.length === 0) {
+      await tx.menuItem.updateMany({
+        where: { id: change.itemId, tenantId, archivedAt: null },
+        data: { archivedAt: new Date(), isAvailable: false },
+      });
+    }
+  }
+
+  // Categories the batch created or brought back are switched off, never
+  // deleted; their archived items and any price rules still point at them.
+  // One that still holds a live item is left alone.
+  for (const change of changes) {
+    if (
+      change.kind !== "CATEGORY_CREATED" &&
+      change.kind !== "CATEGORY_RESTORED"
+    ) {
+      continue;
+    }
+    const live = await tx.menuItem.count({
+      where: { categoryId: change.categoryId, archivedAt: null },
+    });
+    if (live === 0) {
+      await tx.menuCategory.updateMany({
+        where: { id: change.categoryId, tenantId },
+        data: { isActive: false },
+      });
+    }
+  }
+
+  const rolledBack = await tx.importBatch.update({
+    where: { id: batch.id },
+    data: {
+      status: "ROLLED_BACK",
+      rolledBackAt: new Date(),
+      rolledBackById: actorUserId || undefined,
+    },
+  });
+  return { batch: rolledBack, skipped };
+}
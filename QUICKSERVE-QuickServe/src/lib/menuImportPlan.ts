@@ -0,0 +1,328 @@
+import { prisma } from "@/lib/db";
+import type { ParsedMenuItem } from "@/lib/menuImport";
+import { parseModifierGroups, type ModifierGroup } from "@/lib/modifiers";
+import type { RowReview } from "@/lib/menuImportReview";
+import { mergeDietaryTags, type DietaryTags } from "@/lib/dietary";
+import {
+  mergeMenuTranslations,
+  type MenuTranslations,
+} from "@/lib/menuTranslations";
+
+type MenuImportClient = Pick<typeof prisma, "menuCategory" | "menuItem">;
+
+export function normalizeMenuName(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// Spreadsheet and JSON imports can also carry availability and modifier
+// groups; scans leave both undefined so existing values are kept. Scans may
+// carry dietary tags printed on the menu, which are merged into any the item
+// already has. Translations (of the item and of its category) only fill in
+// languages the menu does not have yet.
+export type ImportedMenuItem = ParsedMenuItem & {
+  isAvailable?: boolean;
+  variants?: ModifierGroup[];
+  dietary?: DietaryTags;
+  translations?: MenuTranslations;
+  categoryTranslations?: MenuTranslations;
+};
+
+type ItemValues = {
+  price: number;
+  description: string | null;
+  isAvailable?: boolean;
+  variants?: string;
+  dietary?: string | null;
+  translations?: string;
+};
+
+export type MenuImportRow = {
+  // Normalized item name; managers approve rows by this key.
+  key: string;
+  action: "CREATE" | "UPDATE" | "SKIP";
+  name: string;
+  category: string;
+  categoryStatus: "EXISTING" | "NEW" | "ARCHIVED";
+  itemId: string | null;
+  before: ItemValues | null;
+  after: ItemValues;
+  // Used when the import creates the category.
+  categoryTranslations?: string;
+  note?: string;
+  // Set for scanned imports; see lib/menuImportReview.
+  review?: RowReview;
+};
+
+// One entry per row an applied import touched, with the values it replaced
+// so the import can be rolled back later.
+export type MenuImportChange =
+  | { kind: "CATEGORY_CREATED"; categoryId: string; name: string }
+  | { kind: "CATEGORY_RESTORED"; categoryId: string; name: string }
+  | { kind: "ITEM_CREATED"; itemId: string; name: string; after: ItemValues }
+  | {
+      kind: "ITEM_UPDATED";
+      itemId: string;
+      name: string;
+      before: ItemValues;
+      after: ItemValues;
+    };
+
+export type MenuImportPlan = {
+  rows: MenuImportRow[];
+  newCategories: string[];
+  summary: { create: number; update: number; skip: number };
+};
+
+// Works out what an import would do without writing anything. Items that
+// staff switched off or archived keep that state; an import only proposes
+// price and description changes for them.
+export async function planMenuImport(
+  client: MenuImportClient,
+  tenantId: string,
+  parsedItems: ImportedMenuItem[],
+): Promise<MenuImportPlan> {
+  const categories = await client.menuCategory.findMany({
+    where: { tenantId },
+  });
+  const items = await client.menuItem.findMany({ where: { tenantId } });
+  const categoryByName = new Map(
+    categories.map((c) => [normalizeMenuName(c.name), c]),
+  );
+  const itemByName = new Map(items.map((i) => [normalizeMenuName(i.name), i]));
+
+  const rows: MenuImportRow[] = [];
+  const newCategories = new Map<string, string>();
+  for (const parsed of parsedItems) {
+    const key = normalizeMenuName(parsed.name);
+    const existing = itemByName.get(key);
+
+    if (existing) {
+      const description =
+        parsed.description && parsed.description.length > 0
+          ? parsed.description
+          : existing.description;
+      const variants =
+        parsed.variants !== undefined
+          ? JSON.stringify(parseModifierGroups(parsed.variants))
+          : undefined;
+      const dietary = parsed.dietary
+        ? mergeDietaryTags(existing.dietary, parsed.dietary)
+        : undefined;
+      const translations = parsed.translations
+        ? mergeMenuTranslations(existing.translations, parsed.translations)
+        : undefined;
+      const changed =
+        Number(existing.price) !== parsed.price ||
+        existing.description !== description ||
+        (parsed.isAvailable !== undefined &&
+          parsed.isAvailable !== existing.isAvailable) ||
+        (variants !== undefined &&
+          variants !==
+            JSON.stringify(parseModifierGroups(existing.variants))) ||
+        (dietary !== undefined &&
+          dietary !== mergeDietaryTags(existing.dietary, {})) ||
+        (translations !== undefined &&
+          translations !== mergeMenuTranslations(existing.translations, {}));
+      const switchedOff = !existing.isAvailable || !!existing.archivedAt;
+      rows.push({
+        key,
+        action: changed ? "UPDATE" : "SKIP",
+        name: existing.name,
+        category: parsed.category,
+        categoryStatus: "EXISTING",
+        itemId: existing.id,
+        before: {
+          price: Number(existing.price),
+          description: existing.description,
+          isAvailable: existing.isAvailable,
+          variants: existing.variants,
+          dietary: existing.dietary,
+          translations: existing.translations,
+        },
+        after: {
+          price: parsed.price,
+          description,
+          isAvailable: parsed.isAvailable,
+          variants,
+          dietary,
+          translations,
+        },
+        note: !changed
+          ? "Already matches the menu"
+          : switchedOff && parsed.isAvailable === undefined
+            ? "Item is switched off and will stay off"
+            : undefined,
+      });
+      continue;
+    }
+
+    const categoryKey = normalizeMenuName(parsed.category);
+    const category = categoryByName.get(categoryKey);
+    if (!category) newCategories.set(categoryKey, parsed.category);
+    rows.push({
+      key,
+      action: "CREATE",
+      name: parsed.name,
+      category: category?.name || parsed.category,
+      categoryStatus: !category
+        ? "NEW"
+        : category.isActive
+          ? "EXISTING"
+          : "ARCHIVED",
+      itemId: null,
+      before: null,
+      after: {
+        price: parsed.price,
+        description: parsed.description || null,
+        isAvailable: parsed.isAvailable,
+        variants:
+          parsed.variants !== undefined
+            ? JSON.stringify(parseModifierGroups(parsed.variants))
+            : undefined,
+        dietary: parsed.dietary
+          ? mergeDietaryTags(null, parsed.dietary)
+          : undefined,
+        translations: parsed.translations
+          ? mergeMenuTranslations(null, parsed.translations)
+          : undefined,
+      },
+      categoryTranslations:
+        !category && parsed.categoryTranslations
+          ? mergeMenuTranslations(null, parsed.categoryTranslations)
+          : undefined,
+    });
+  }
+
+  return {
+    rows,
+    newCategories: Array.from(newCategories.values()),
+    summary: {
+      create: rows.filter((r) => r.action === "CREATE").length,
+      update: rows.filter((r) => r.action === "UPDATE").length,
+      skip: rows.filter((r) => r.action === "SKIP").length,
+    },
+  };
+}
+
+// Applies the approved CREATE/UPDATE rows of a plan. Categories are only
+// created (or restored) when an approved new item needs them.
+export async function applyMenuImport(
+  client: MenuImportClient,
+  tenantId: string,
+  plan: MenuImportPlan,
+  approvedKeys: Set<string>,
+) {
+  const categories = await client.menuCategory.findMany({
+    where: { tenantId },
+  });
+  const categoryByName = new Map(
+    categories.map((c) => [normalizeMenuName(c.name), c]),
+  );
+  const maxSortOrder = await client.menuCategory.aggregate({
+    where: { tenantId },
+    _max: { sortOrder: true },
+  });
+  let nextSortOrder = (maxSortOrder._max.sortOrder ?? -1) + 1;
+
+  const applied: MenuImportRow[] = [];
+  const changes: MenuImportChange[] = [];
+  let categoriesCreated = 0;
+  for (const row of plan.rows) {
+    if (row.action === "SKIP" || !approvedKeys.has(row.key)) continue;
+
+    if (row.action === "UPDATE") {
+      await client.menuItem.update({
+        where: { id: row.itemId! },
+        data: {
+          price: row.after.price,
+          description: row.after.description,
+          ...(row.after.isAvailable !== undefined
+            ? { isAvailable: row.after.isAvailable }
+            : {}),
+          ...(row.after.variants !== undefined
+            ? { variants: row.after.variants }
+            : {}),
+          ...(row.after.dietary !== undefined
+            ? { dietary: row.after.dietary }
+            : {}),
+          ...(row.after.translations !== undefined
+            ? { translations: row.after.translations }
+            : {}),
+        },
+      });
+      applied.push(row);
+      changes.push({
+        kind: "ITEM_UPDATED",
+        itemId: row.itemId!,
+        name: row.name,
+        before: row.before!,
+        after: row.after,
+      });
+      continue;
+    }
+
+    const categoryKey = normalizeMenuName(row.category);
+    let category = categoryByName.get(categoryKey);
+    if (!category) {
+      category = await client.menuCategory.create({
+        data: {
+          tenantId,
+          name: row.category,
+          sortOrder: nextSortOrder++,
+          isActive: true,
+          translations: row.categoryTranslations ?? "{}",
+        },
+      });
+      categoryByName.set(categoryKey, category);
+      categoriesCreated += 1;
+      changes.push({
+        kind: "CATEGORY_CREATED",
+        categoryId: category.id,
+        name: category.name,
+      });
+    } else if (!category.isActive) {
+      category = await client.menuCategory.update({
+        where: { id: category.id },
+        data: { isActive: true },
+      });
+      categoryByName.set(categoryKey, category);
+      changes.push({
+        kind: "CATEGORY_RESTORED",
+        categoryId: category.id,
+        name: category.name,
+      });
+    }
+
+    const created = await client.menuItem.create({
+      data: {
+        tenantId,
+        categoryId: category.id,
+        name: row.name,
+        price: row.after.price,
+        description: row.after.description,
+        isAvailable: row.after.isAvailable ?? true,
+        variants: row.after.variants ?? "[]",
+        dietary: row.after.dietary ?? null,
+        translations: row.after.translations ?? "{}",
+      },
+    });
+    applied.push({ ...row, itemId: created.id });
+    changes.push({
+      kind: "ITEM_CREATED",
+      itemId: created.id,
+      name: created.name,
+      after: row.after,
+    });
+  }
+
+  return {
+    applied,
+    changes,
+    summary: {
+      categoriesCreated,
+      itemsCreated: applied.filter((r) => r.action === "CREATE").length,
+      itemsUpdated: applied.filter((r) => r.action === "UPDATE").length,
+      skipped: plan.rows.length - applied.length,
+    },
+  };
+}
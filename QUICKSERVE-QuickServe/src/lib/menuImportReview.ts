@@ -0,0 +1,275 @@
+import { prisma } from "@/lib/db";
+import type { ParsedMenuItem } from "@/lib/menuImport";
+import type { DietaryTags } from "@/lib/dietary";
+import {
+  normalizeMenuName,
+  type ImportedMenuItem,
+  type MenuImportPlan,
+  type MenuImportRow,
+} from "@/lib/menuImportPlan";
+
+type ReviewClient = Pick<typeof prisma, "menuItem">;
+
+// The extractor may attach a 0-1 confidence to each item; items without one
+// are treated as fully confident and judged on the heuristics alone. Dietary
+// tags are only present when the menu printed them.
+export type ScoredMenuItem = ParsedMenuItem & {
+  confidence?: number;
+  dietary?: DietaryTags;
+};
+
+export type ReviewFlagCode =
+  | "LOW_CONFIDENCE"
+  | "SUSPICIOUS_CHARACTERS"
+  | "PRICE_OUTLIER"
+  | "PRICE_JUMP"
+  | "NEAR_DUPLICATE";
+
+export type ReviewFlag = { code: ReviewFlagCode; message: string };
+
+export type RowReview = {
+  confidence: number;
+  flags: ReviewFlag[];
+  needsReview: boolean;
+};
+
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.75;
+const FLAG_PENALTY = 0.25;
+// A price this many times above or below its category median is flagged.
+const OUTLIER_RATIO = 4;
+const MIN_PRICES_FOR_MEDIAN = 3;
+
+// Punctuation that does not belong in a dish name, and digits wedged between
+// letters ("1S0", "M0mo") — both typical OCR misreads. "500ml" is fine.
+const ODD_CHARACTERS = /[^\p{L}\p{N}\s&'".,()\-\/+]/u;
+const MIXED_TOKEN = /\p{L}\d+\p{L}|\d\p{L}+\d/u;
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function isNearName(a: string, b: string) {
+  if (a === b) return false;
+  const limit = Math.min(a.length, b.length) <= 6 ? 1 : 2;
+  return Math.abs(a.length - b.length) <= limit && editDistance(a, b) <= limit;
+}
+
+function formatPrice(value: number) {
+  return `Rs. ${value.toLocaleString()}`;
+}
+
+// Duplicate reads of the same item keep the least confident score.
+function confidenceByName(items: { name: string; confidence?: number }[]) {
+  const confidence = new Map<string, number>();
+  for (const item of items) {
+    if (item.confidence === undefined) continue;
+    const key = normalizeMenuName(item.name);
+    confidence.set(key, Math.min(item.confidence, confidence.get(key) ?? 1));
+  }
+  return confidence;
+}
+
+// Keeps the scanner's confidence on the deduped items, so a dry-run preview
+// can be scored again when it is committed.
+export function withScanConfidence<T extends { name: string }>(
+  items: T[],
+  extracted: ScoredMenuItem[],
+): (T & { confidence?: number })[] {
+  const confidence = confidenceByName(extracted);
+  return items.map((item) => {
+    const score = confidence.get(normalizeMenuName(item.name));
+    return score === undefined ? item : { ...item, confidence: score };
+  });
+}
+
+// Scores every CREATE/UPDATE row of a scanned import and attaches the result
+// as row.review. Pass the raw extracted items (before dedupe), or ones kept by
+// withScanConfidence, so confidence survives. Rows that need review must not go live without a manager
+// approving or correcting them.
+export async function reviewMenuImportPlan(
+  client: ReviewClient,
+  tenantId: string,
+  plan: MenuImportPlan,
+  items: { name: string; confidence?: number }[],
+): Promise<MenuImportPlan> {
+  const existing = await client.menuItem.findMany({
+    where: { tenantId, archivedAt: null },
+    select: { name: true, price: true, category: { select: { name: true } } },
+  });
+  const confidenceByKey = confidenceByName(items);
+
+  const pricesByCategory = new Map<string, { key: string; price: number }[]>();
+  const addPrice = (category: string, key: string, price: number) => {
+    const categoryKey = normalizeMenuName(category);
+    const list = pricesByCategory.get(categoryKey) || [];
+    list.push({ key, price });
+    pricesByCategory.set(categoryKey, list);
+  };
+  for (const item of existing) {
+    addPrice(
+      item.category.name,
+      normalizeMenuName(item.name),
+      Number(item.price),
+    );
+  }
+  for (const row of plan.rows) {
+    if (row.action === "CREATE")
+      addPrice(row.category, row.key, row.after.price);
+  }
+  const knownNames = new Set([
+    ...existing.map((item) => normalizeMenuName(item.name)),
+    ...plan.rows.map((row) => row.key),
+  ]);
+
+  const review = (row: MenuImportRow): RowReview => {
+    const flags: ReviewFlag[] = [];
+    const extracted = Math.min(
+      1,
+      Math.max(0, confidenceByKey.get(row.key) ?? 1),
+    );
+    if (extracted < REVIEW_CONFIDENCE_THRESHOLD) {
+      flags.push({
+        code: "LOW_CONFIDENCE",
+        message: `Scanner was only ${Math.round(extracted * 100)}% sure of this read`,
+      });
+    }
+
+    if (ODD_CHARACTERS.test(row.name) || MIXED_TOKEN.test(row.name)) {
+      flags.push({
+        code: "SUSPICIOUS_CHARACTERS",
+        message: `"${row.name}" contains characters that look misread`,
+      });
+    }
+
+    const peers = (pricesByCategory.get(normalizeMenuName(row.category)) || [])
+      .filter((entry) => entry.key !== row.key)
+      .map((entry) => entry.price);
+    if (peers.length >= MIN_PRICES_FOR_MEDIAN) {
+      const typical = median(peers);
+      if (
+        row.after.price <= 0 ||
+        row.after.price > typical * OUTLIER_RATIO ||
+        row.after.price < typical / OUTLIER_RATIO
+      ) {
+        flags.push({
+          code: "PRICE_OUTLIER",
+          message: `${formatPrice(row.after.price)} is far from the ${row.category} median of ${formatPrice(typical)}`,
+        });
+      }
+    }
+
+    if (row.action === "UPDATE" && row.before && row.before.price > 0) {
+      const ratio = row.after.price / row.before.price;
+      if (ratio > 2 || ratio < 0.5) {
+        flags.push({
+          code: "PRICE_JUMP",
+          message: `Price would change from ${formatPrice(row.before.price)} to ${formatPrice(row.after.price)}`,
+        });
+      }
+    }
+
+    const near = Array.from(knownNames).find((name) =>
+      isNearName(row.key, name),
+    );
+    if (near) {
+      flags.push({
+        code: "NEAR_DUPLICATE",
+        message: `Looks like a misspelling of "${near}"`,
+      });
+    }
+
+    const penalties = flags.filter((f) => f.code !== "LOW_CONFIDENCE").length;
+    const confidence = Math.max(
+      0,
+      Math.round((extracted - penalties * FLAG_PENALTY) * 100) / 100,
+    );
+    return { confidence, flags, needsReview: flags.length > 0 };
+  };
+
+  return {
+    ...plan,
+    rows: plan.rows.map((row) =>
+      row.action === "SKIP" ? row : { ...row, review: review(row) },
+    ),
+  };
+}
+
+// Parks rows that need review in the queue instead of applying them. The
+// whole scanned item (dietary tags, translations, variants) is kept with the
+// row so approving it imports exactly what an unflagged row would have.
+export async function queueRowsForReview(
+  client: Pick<typeof prisma, "menuReviewItem">,
+  input: {
+    tenantId: string;
+    jobId?: string | null;
+    rows: MenuImportRow[];
+    items: ImportedMenuItem[];
+  },
+) {
+  const rows = input.rows.filter((row) => row.review?.needsReview);
+  if (rows.length === 0) return 0;
+  const itemByKey = new Map(
+    input.items.map((item) => [normalizeMenuName(item.name), item]),
+  );
+  await client.menuReviewItem.createMany({
+    data: rows.map((row) => ({
+      tenantId: input.tenantId,
+      jobId: input.jobId || undefined,
+      menuItemId: row.itemId || undefined,
+      name: row.name,
+      category: row.category,
+      price: row.after.price,
+      description: row.after.description,
+      item: JSON.stringify(itemByKey.get(row.key) ?? {}),
+      confidence: row.review!.confidence,
+      flags: JSON.stringify(row.review!.flags),
+      status: "PENDING",
+    })),
+  });
+  return rows.length;
+}
+
+// The queued item as scanned. The name, category, price and description
+// columns hold the reviewed values and win over the stored item.
+export function parseQueuedItem(pending: {
+  name: string;
+  category: string;
+  price: unknown;
+  description: string | null;
+  item?: string | null;
+}): ImportedMenuItem {
+  let stored: Partial<ImportedMenuItem> = {};
+  try {
+    const parsed = JSON.parse(pending.item || "{}");
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      stored = parsed;
+    }
+  } catch {
+    // Rows queued before the item was stored fall back to the columns.
+  }
+  return {
+    ...stored,
+    name: pending.name,
+    category: pending.category,
+    price: Number(pending.price),
+    description: pending.description || undefined,
+  } as ImportedMenuItem;
+}
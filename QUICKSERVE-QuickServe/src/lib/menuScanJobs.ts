@@ -0,0 +1,394 @@
+import { prisma } from "@/lib/db";
+import { EVENTS, tenantChannel, triggerPusher } from "@/lib/pusher";
+import { dedupeParsedItems } from "@/lib/menuImport";
+import { extractMenuItems, translateMenuEntries } from "@/lib/menuExtraction";
+import {
+  applyMenuImport,
+  normalizeMenuName,
+  planMenuImport,
+} from "@/lib/menuImportPlan";
+import { recordImportBatch } from "@/lib/menuImportHistory";
+import {
+  queueRowsForReview,
+  reviewMenuImportPlan,
+  withScanConfidence,
+  type ScoredMenuItem,
+} from "@/lib/menuImportReview";
+import { announceMenuUpdated } from "@/lib/menu";
+import type { DietaryTags } from "@/lib/dietary";
+
+// Menu scans run as database-backed jobs: the upload request only stores the
+// files, and a worker extracts them one at a time so a long multi-page menu
+// never has to fit inside a single HTTP request. Any request that notices an
+// unleased, unfinished job can pick it back up, so no external queue is needed.
+
+export const MAX_SCAN_ATTEMPTS = 3;
+const LEASE_MS = 2 * 60 * 1000;
+const RETRY_BASE_MS = 5 * 1000;
+const PREVIEW_TTL_MS = 15 * 60 * 1000;
+
+export type MenuScanJobStatus =
+  "QUEUED" | "RUNNING" | "COMPLETED" | "PARTIAL" | "FAILED";
+
+const FINISHED: MenuScanJobStatus[] = ["COMPLETED", "PARTIAL", "FAILED"];
+
+export function isScanJobFinished(status: string) {
+  return FINISHED.includes(status as MenuScanJobStatus);
+}
+
+export async function createMenuScanJob(input: {
+  tenantId: string;
+  createdById?: string | null;
+  dryRun: boolean;
+  translate: boolean;
+  files: { name: string; type: string; base64: string }[];
+}) {
+  return prisma.menuScanJob.create({
+    data: {
+      tenantId: input.tenantId,
+      createdById: input.createdById || undefined,
+      status: "QUEUED",
+      dryRun: input.dryRun,
+      translate: input.translate,
+      totalFiles: input.files.length,
+      files: {
+        create: input.files.map((file, position) => ({
+          position,
+          fileName: file.name,
+          mimeType: file.type,
+          content: file.base64,
+          status: "PENDING",
+        })),
+      },
+    },
+  });
+}
+
+// Shapes a job for API responses; file contents are never returned.
+export async function getMenuScanJob(tenantId: string, jobId: string) {
+  const job = await prisma.menuScanJob.findFirst({
+    where: { id: jobId, tenantId },
+    include: {
+      files: {
+        orderBy: { position: "asc" },
+        select: {
+          fileName: true,
+          status: true,
+          attempts: true,
+          error: true,
+          items: true,
+        },
+      },
+    },
+  });
+  if (!job) return null;
+  return {
+    id: job.id,
+    status: job.status,
+    dryRun: job.dryRun,
+    translate: job.translate,
+    totalFiles: job.totalFiles,
+    processedFiles: job.processedFiles,
+    failedFiles: job.failedFiles,
+    error: job.error,
+    lockedUntil: job.lockedUntil,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+    files: job.files.map(({ items, ...file }) => ({
+      ...file,
+      items: JSON.parse(items || "[]") as ScoredMenuItem[],
+    })),
+    result: job.result ? JSON.parse(job.result) : null,
+  };
+}
+
+// A job can be resumed when nobody holds its lease, e.g. the worker that
+// started it was stopped mid-way by a deploy or a function timeout.
+export function canResumeMenuScanJob(job: {
+  status: string;
+  lockedUntil: Date | null;
+}) {
+  return (
+    !isScanJobFinished(job.status) &&
+    (!job.lockedUntil || job.lockedUntil < new Date())
+  );
+}
+
+async function claimJob(jobId: string) {
+  const now = new Date();
+  const { count } = await prisma.menuScanJob.updateMany({
+    where: {
+      id: jobId,
+      status: { in: ["QUEUED", "RUNNING"] },
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+    },
+    data: {
+      status: "RUNNING",
+      lockedUntil: new Date(now.getTime() + LEASE_MS),
+    },
+  });
+  return count > 0;
+}
+
+async function publishProgress(job: {
+  id: string;
+  tenantId: string;
+  status: string;
+  totalFiles: number;
+  processedFiles: number;
+  failedFiles: number;
+}) {
+  await triggerPusher(tenantChannel(job.tenantId), EVENTS.MENU_SCAN_PROGRESS, {
+    jobId: job.id,
+    status: job.status,
+    totalFiles: job.totalFiles,
+    processedFiles: job.processedFiles,
+    failedFiles: job.failedFiles,
+  });
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Extracts one file. Failures are retried with backoff; after the last
+// attempt the file is marked FAILED and the rest of the job carries on.
+async function processFile(file: {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  content: string;
+  attempts: number;
+}) {
+  const attempts = file.attempts + 1;
+  try {
+    const items = await extractMenuItems({
+      fileName: file.fileName,
+      mimeType: file.mimeType,
+      base64: file.content,
+    });
+    // The upload is dropped once extracted; only the rows are kept.
+    await prisma.menuScanJobFile.update({
+      where: { id: file.id },
+      data: {
+        status: "DONE",
+        attempts,
+        items: JSON.stringify(items),
+        content: "",
+        error: null,
+      },
+    });
+    return "DONE" as const;
+  } catch (error: any) {
+    const failed = attempts >= MAX_SCAN_ATTEMPTS;
+    await prisma.menuScanJobFile.update({
+      where: { id: file.id },
+      data: {
+        status: failed ? "FAILED" : "PENDING",
+        attempts,
+        error: error?.message || "Extraction failed",
+        nextAttemptAt: failed
+          ? null
+          : new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)),
+        ...(failed ? { content: "" } : {}),
+      },
+    });
+    return failed ? ("FAILED" as const) : ("RETRY" as const);
+  }
+}
+
+// Imports whatever the finished files produced. A job with some failed files
+// still applies (or previews) the rest and ends as PARTIAL.
+async function finishJob(job: {
+  id: string;
+  tenantId: string;
+  createdById: string | null;
+  dryRun: boolean;
+  translate: boolean;
+}) {
+  const files = await prisma.menuScanJobFile.findMany({
+    where: { jobId: job.id },
+    orderBy: { position: "asc" },
+  });
+  const done = files.filter((f) => f.status === "DONE");
+  const failedFiles = files.length - done.length;
+  const extracted = done.flatMap(
+    (f) => JSON.parse(f.items || "[]") as ScoredMenuItem[],
+  );
+  // The dedupe keeps only the core fields; dietary tags printed on any copy
+  // of an item are carried over.
+  const dietaryByName = new Map<string, DietaryTags>();
+  for (const item of extracted) {
+    if (!item.dietary) continue;
+    const key = normalizeMenuName(item.name);
+    dietaryByName.set(key, { ...dietaryByName.get(key), ...item.dietary });
+  }
+  const deduped = dedupeParsedItems(extracted);
+  // Nepali and Hindi names are only filled in where the menu has none yet.
+  const translated = job.translate
+    ? await translateMenuEntries({
+        items: deduped.map((item) => ({
+          name: item.name,
+          description: item.description,
+        })),
+        categories: Array.from(new Set(deduped.map((item) => item.category))),
+      })
+    : null;
+  const items = deduped.map((item) => ({
+    ...item,
+    dietary: dietaryByName.get(normalizeMenuName(item.name)),
+    translations: translated?.items.get(normalizeMenuName(item.name)),
+    categoryTranslations: translated?.categories.get(
+      normalizeMenuName(item.category),
+    ),
+  }));
+  const fileNames = done.map((f) => f.fileName);
+
+  if (items.length === 0) {
+    return prisma.menuScanJob.update({
+      where: { id: job.id },
+      data: {
+        status: "FAILED",
+        failedFiles,
+        error:
+          failedFiles > 0
+            ? "No file could be read"
+            : "No menu items with valid names and prices were detected in the scans",
+        completedAt: new Date(),
+        lockedUntil: null,
+      },
+    });
+  }
+
+  let result: Record<string, unknown>;
+  if (job.dryRun) {
+    const plan = await reviewMenuImportPlan(
+      prisma,
+      job.tenantId,
+      await planMenuImport(prisma, job.tenantId, items),
+      extracted,
+    );
+    const preview = await prisma.menuImportPreview.create({
+      data: {
+        tenantId: job.tenantId,
+        createdById: job.createdById || undefined,
+        source: "SCAN",
+        files: JSON.stringify(fileNames),
+        items: JSON.stringify(withScanConfidence(items, extracted)),
+        expiresAt: new Date(Date.now() + PREVIEW_TTL_MS),
+      },
+    });
+    result = {
+      token: preview.id,
+      expiresAt: preview.expiresAt,
+      extractedItems: items.length,
+      ...plan,
+    };
+  } else {
+    const applied = await prisma.$transaction(async (tx) => {
+      const plan = await reviewMenuImportPlan(
+        tx,
+        job.tenantId,
+        await planMenuImport(tx, job.tenantId, items),
+        extracted,
+      );
+      // Flagged rows wait in the review queue; everything else goes live.
+      const outcome = await applyMenuImport(
+        tx,
+        job.tenantId,
+        plan,
+        new Set(
+          plan.rows
+            .filter((row) => !row.review?.needsReview)
+            .map((row) => row.key),
+        ),
+      );
+      const queuedForReview = await queueRowsForReview(tx, {
+        tenantId: job.tenantId,
+        jobId: job.id,
+        rows: plan.rows,
+        items,
+      });
+      const batch = await recordImportBatch(tx, {
+        tenantId: job.tenantId,
+        createdById: job.createdById,
+        source: "SCAN",
+        files: fileNames,
+        items,
+        changes: outcome.changes,
+        summary: outcome.summary,
+      });
+      return { ...outcome, batchId: batch.id, queuedForReview };
+    });
+    await announceMenuUpdated(job.tenantId, {
+      action: "MENU_IMPORTED",
+      itemIds: applied.applied.map((row) => row.itemId!),
+    });
+    result = {
+      importId: applied.batchId,
+      summary: {
+        extractedItems: items.length,
+        queuedForReview: applied.queuedForReview,
+        ...applied.summary,
+      },
+    };
+  }
+
+  return prisma.menuScanJob.update({
+    where: { id: job.id },
+    data: {
+      status: failedFiles > 0 ? "PARTIAL" : "COMPLETED",
+      failedFiles,
+      result: JSON.stringify(result),
+      completedAt: new Date(),
+      lockedUntil: null,
+    },
+  });
+}
+
+// Runs a job to completion. Safe to call from several places at once: only
+// the caller that wins the lease does any work.
+export async function runMenuScanJob(jobId: string) {
+  if (!(await claimJob(jobId))) return;
+
+  try {
+    for (;;) {
+      const next = await prisma.menuScanJobFile.findFirst({
+        where: { jobId, status: "PENDING" },
+        orderBy: [{ nextAttemptAt: "asc" }, { position: "asc" }],
+      });
+      if (!next) break;
+
+      const wait = next.nextAttemptAt
+        ? next.nextAttemptAt.getTime() - Date.now()
+        : 0;
+      if (wait > 0) await sleep(wait);
+
+      const outcome = await processFile(next);
+      const job = await prisma.menuScanJob.update({
+        where: { id: jobId },
+        data: {
+          ...(outcome === "DONE" ? { processedFiles: { increment: 1 } } : {}),
+          ...(outcome === "FAILED" ? { failedFiles: { increment: 1 } } : {}),
+          lockedUntil: new Date(Date.now() + LEASE_MS),
+        },
+      });
+      if (outcome !== "RETRY") await publishProgress(job);
+    }
+
+    const job = await prisma.menuScanJob.findUniqueOrThrow({
+      where: { id: jobId },
+    });
+    await publishProgress(await finishJob(job));
+  } catch (error: any) {
+    console.error("Menu scan job error:", error);
+    const job = await prisma.menuScanJob.update({
+      where: { id: jobId },
+      data: {
+        status: "FAILED",
+        error: error?.message || "Menu scan failed",
+        completedAt: new Date(),
+        lockedUntil: null,
+      },
+    });
+    await publishProgress(job);
+  }
+}
@@ -0,0 +1,193 @@
+import { z } from "zod";
+
+// A day-part window such as breakfast (Mon-Fri 07:00-11:00). Days are
+// 0 = Sunday … 6 = Saturday, times are the tenant's local wall clock. A
+// window whose end is before its start runs past midnight into the next day.
+export type MenuScheduleWindow = {
+  days: number[];
+  start: string;
+  end: string;
+};
+
+// Where the tenant has not set settings.timezone.
+export const DEFAULT_TIMEZONE = "Asia/Kathmandu";
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const menuScheduleWindowSchema = z
+  .object({
+    days: z.array(z.number().int().min(0).max(6)).min(1).max(7),
+    start: z.string().regex(TIME, "Use HH:MM"),
+    end: z.string().regex(TIME, "Use HH:MM"),
+  })
+  .refine((w) => w.start !== w.end, {
+    message: "A window cannot start and end at the same time",
+    path: ["end"],
+  });
+
+// Categories and items store this as JSON; null or [] means "always".
+export const menuScheduleSchema = z.array(menuScheduleWindowSchema).max(14);
+
+export type MenuClock = { day: number; minutes: number };
+
+// What gets written to the schedule column: undefined leaves it untouched.
+export function serializeMenuSchedule(
+  windows: MenuScheduleWindow[] | null | undefined,
+) {
+  if (windows === undefined) return undefined;
+  return windows && windows.length > 0 ? JSON.stringify(windows) : null;
+}
+
+const toMinutes = (time: string) =>
+  Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+// MenuCategory.schedule / MenuItem.schedule are JSON strings; anything
+// malformed counts as "no schedule" so a bad value never hides the menu.
+export function parseMenuSchedule(raw: unknown): MenuScheduleWindow[] {
+  if (!raw) return [];
+  try {
+    const parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
+    const result = menuScheduleSchema.safeParse(parsed);
+    return result.success ? result.data : [];
+  } catch {
+    return [];
+  }
+}
+
+export function tenantTimeZone(settings: Record<string, any>) {
+  const zone = settings.timezone;
+  if (typeof zone !== "string" || !zone) return DEFAULT_TIMEZONE;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return zone;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+// Day of week and minutes past midnight on the tenant's wall clock.
+export function menuClock(timeZone: string, now = new Date()): MenuClock {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value;
+  return {
+    day: DAY_NAMES.indexOf(part("weekday") || "Sun"),
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+export function tenantMenuClock(settings: Record<string, any>) {
+  return menuClock(tenantTimeZone(settings));
+}
+
+export function isScheduleOpen(
+  windows: MenuScheduleWindow[],
+  clock: MenuClock,
+) {
+  if (windows.length === 0) return true;
+  const yesterday = (clock.day + 6) % 7;
+  return windows.some((window) => {
+    const start = toMinutes(window.start);
+    const end = toMinutes(window.end);
+    if (start < end) {
+      return (
+        window.days.includes(clock.day) &&
+        clock.minutes >= start &&
+        clock.minutes < end
+      );
+    }
+    return (
+      (window.days.includes(clock.day) && clock.minutes >= start) ||
+      (window.days.includes(yesterday) && clock.minutes < end)
+    );
+  });
+}
+
+// An item is orderable only while both it and its category are on.
+export function isOnScheduleNow(
+  item: { schedule?: unknown },
+  category: { schedule?: unknown } | null | undefined,
+  clock: MenuClock,
+) {
+  return (
+    isScheduleOpen(parseMenuSchedule(category?.schedule), clock) &&
+    isScheduleOpen(parseMenuSchedule(item.schedule), clock)
+  );
+}
+
+function describeDays(days: number[]) {
+  const sorted = Array.from(new Set(days)).sort((a, b) => a - b);
+  if (sorted.length === 7) return "Daily";
+  const ranges: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j++;
+    ranges.push(
+      j - i >= 2
+        ? `${DAY_NAMES[sorted[i]]}-${DAY_NAMES[sorted[j]]}`
+        : sorted
+            .slice(i, j + 1)
+            .map((d) => DAY_NAMES[d])
+            .join(", "),
+    );
+    i = j;
+  }
+  return ranges.join(", ");
+}
+
+// "Mon-Fri 07:00-11:00; Sat, Sun 08:00-12:00"
+export function describeMenuSchedule(windows: MenuScheduleWindow[]) {
+  return windows
+    .map((w) => `${describeDays(w.days)} ${w.start}-${w.end}`)
+    .join("; ");
+}
+
+// Names the schedule that is keeping the item off: the category's when the
+// whole day-part is closed, otherwise the item's own.
+export function notAvailableNowMessage(
+  name: string,
+  item: { schedule?: unknown },
+  category: { schedule?: unknown } | null | undefined,
+  clock: MenuClock,
+) {
+  const categoryWindows = parseMenuSchedule(category?.schedule);
+  const windows = isScheduleOpen(categoryWindows, clock)
+    ? parseMenuSchedule(item.schedule)
+    : categoryWindows;
+  return windows.length > 0
+    ? `${name} is not available right now (served ${describeMenuSchedule(windows)})`
+    : `${name} is not available right now`;
+}
+
+// Adds availableNow to every category and item so menus can grey out (staff)
+// or hide (guests) what is outside its day-part, with the schedule spelled out.
+export function annotateMenuSchedules<
+  C extends { schedule?: unknown; items: { schedule?: unknown }[] },
+>(categories: C[], clock: MenuClock) {
+  return categories.map((category) => {
+    const categoryOpen = isScheduleOpen(
+      parseMenuSchedule(category.schedule),
+      clock,
+    );
+    return {
+      ...category,
+      availableNow: categoryOpen,
+      scheduleText:
+        describeMenuSchedule(parseMenuSchedule(category.schedule)) || null,
+      items: category.items.map((item) => ({
+        ...item,
+        availableNow:
+          categoryOpen &&
+          isScheduleOpen(parseMenuSchedule(item.schedule), clock),
+        scheduleText:
+          describeMenuSchedule(parseMenuSchedule(item.schedule)) || null,
+      })),
+    };
+  });
+}
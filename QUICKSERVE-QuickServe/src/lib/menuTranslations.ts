@@ -0,0 +1,168 @@
+import { z } from "zod";
+
+// Menu names and descriptions are written in English; Nepali and Hindi
+// versions live next to them in a JSON `translations` column on MenuItem and
+// MenuCategory, e.g. {"ne":{"name":"चिकन मम"},"hi":{"name":"चिकन मोमो"}}.
+// Anything left untranslated falls back to the English text.
+export const MENU_LOCALES = ["en", "ne", "hi"] as const;
+
+export type MenuLocale = (typeof MENU_LOCALES)[number];
+
+export type TranslatedLocale = Exclude<MenuLocale, "en">;
+
+const TRANSLATED_LOCALES: TranslatedLocale[] = ["ne", "hi"];
+
+export const MENU_LOCALE_LABELS: Record<MenuLocale, string> = {
+  en: "English",
+  ne: "नेपाली",
+  hi: "हिन्दी",
+};
+
+export type MenuTranslation = { name?: string; description?: string };
+
+export type MenuTranslations = Partial<
+  Record<TranslatedLocale, MenuTranslation>
+>;
+
+const menuTranslationSchema = z.object({
+  name: z.string().trim().min(1).max(120).optional(),
+  description: z.string().trim().max(500).optional(),
+});
+
+export const menuTranslationsSchema = z.object({
+  ne: menuTranslationSchema.optional(),
+  hi: menuTranslationSchema.optional(),
+});
+
+export function isMenuLocale(value: unknown): value is MenuLocale {
+  return MENU_LOCALES.includes(value as MenuLocale);
+}
+
+// Lenient: the column is a JSON string, and empty or malformed entries are
+// treated as untranslated.
+export function parseMenuTranslations(raw: unknown): MenuTranslations {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw || "{}");
+    } catch {
+      return {};
+    }
+  }
+  if (!value || typeof value !== "object") return {};
+  const translations: MenuTranslations = {};
+  for (const locale of TRANSLATED_LOCALES) {
+    const entry = (value as Record<string, any>)[locale];
+    if (!entry || typeof entry !== "object") continue;
+    const name = typeof entry.name === "string" ? entry.name.trim() : "";
+    const description =
+      typeof entry.description === "string" ? entry.description.trim() : "";
+    if (!name && !description) continue;
+    translations[locale] = {
+      ...(name ? { name } : {}),
+      ...(description ? { description } : {}),
+    };
+  }
+  return translations;
+}
+
+// undefined leaves the column untouched; null clears every translation.
+export function serializeMenuTranslations(
+  translations: MenuTranslations | null | undefined,
+): string | undefined {
+  if (translations === undefined) return undefined;
+  return JSON.stringify(parseMenuTranslations(translations ?? {}));
+}
+
+// Imports only fill gaps: a translation a manager already wrote is never
+// replaced by a machine one.
+export function mergeMenuTranslations(
+  existing: unknown,
+  incoming: MenuTranslations,
+): string {
+  const current = parseMenuTranslations(existing);
+  const extra = parseMenuTranslations(incoming);
+  const merged: MenuTranslations = {};
+  for (const locale of TRANSLATED_LOCALES) {
+    const entry = { ...extra[locale], ...current[locale] };
+    if (entry.name || entry.description) merged[locale] = entry;
+  }
+  return JSON.stringify(merged);
+}
+
+// The name and description to show in a locale, falling back to English for
+// whatever has not been translated.
+export function localizedMenuText(
+  entry: {
+    name: string;
+    description?: string | null;
+    translations?: unknown;
+  },
+  locale: MenuLocale,
+) {
+  const translation =
+    locale === "en"
+      ? undefined
+      : parseMenuTranslations(entry.translations)[locale];
+  return {
+    name: translation?.name || entry.name,
+    description: translation?.description || entry.description || null,
+  };
+}
+
+// Case, zero-width joiners and chandrabindu/anusvara spelling differ between
+// keyboards, so names are compared in a folded form.
+export function normalizeMenuText(value: string): string {
+  return value
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/[\u200b-\u200d]/g, "")
+    .replace(/\u0901/g, "\u0902")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Every name a guest may use for an item: English first, then translations.
+export function menuNameAliases(entry: {
+  name: string;
+  translations?: unknown;
+}): string[] {
+  const translations = parseMenuTranslations(entry.translations);
+  return [
+    entry.name,
+    ...TRANSLATED_LOCALES.flatMap((locale) => {
+      const name = translations[locale]?.name;
+      return name ? [name] : [];
+    }),
+  ];
+}
+
+export function matchesMenuName(
+  entry: { name: string; translations?: unknown },
+  query: string | null | undefined,
+) {
+  if (!query) return false;
+  const wanted = normalizeMenuText(query);
+  return menuNameAliases(entry).some(
+    (alias) => normalizeMenuText(alias) === wanted,
+  );
+}
+
+export function mentionsMenuName(
+  entry: { name: string; translations?: unknown },
+  text: string,
+) {
+  const haystack = normalizeMenuText(text);
+  return menuNameAliases(entry).some((alias) => {
+    const needle = normalizeMenuText(alias);
+    return needle.length > 0 && haystack.includes(needle);
+  });
+}
+
+// "Chicken Momo / चिकन मम / चिकन मोमो" for prompts and staff screens.
+export function describeMenuNames(entry: {
+  name: string;
+  translations?: unknown;
+}): string {
+  return Array.from(new Set(menuNameAliases(entry))).join(" / ");
+}
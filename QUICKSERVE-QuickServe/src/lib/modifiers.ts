@@ -0,0 +1,221 @@
+import { z } from "zod";
+
+export type ModifierOption = {
+  id: string;
+  name: string;
+  priceDelta: number;
+};
+
+// A size, add-on or spice level group stored on MenuItem.variants.
+export type ModifierGroup = {
+  id: string;
+  name: string;
+  required: boolean;
+  minSelect: number;
+  maxSelect: number;
+  options: ModifierOption[];
+};
+
+// What an order line remembers about the choice, so later menu edits never
+// rewrite what was actually sold.
+export type SelectedModifier = {
+  groupId: string;
+  groupName: string;
+  optionId: string;
+  optionName: string;
+  priceDelta: number;
+};
+
+export const modifierSelectionSchema = z.object({
+  groupId: z.string().min(1),
+  optionIds: z.array(z.string().min(1)).max(20),
+});
+
+export type ModifierSelection = z.infer<typeof modifierSelectionSchema>;
+
+// Shape accepted when staff save an item's groups through the menu API.
+export const modifierGroupSchema = z
+  .object({
+    id: z.string().trim().min(1).max(40),
+    name: z.string().trim().min(1).max(60),
+    required: z.boolean().default(false),
+    minSelect: z.number().int().min(0).max(20).default(0),
+    maxSelect: z.number().int().min(1).max(20).default(1),
+    options: z
+      .array(
+        z.object({
+          id: z.string().trim().min(1).max(40),
+          name: z.string().trim().min(1).max(60),
+          priceDelta: z.number().min(-100000).max(100000).default(0),
+        }),
+      )
+      .min(1)
+      .max(30),
+  })
+  .refine((g) => g.maxSelect >= g.minSelect, {
+    message: "maxSelect cannot be below minSelect",
+    path: ["maxSelect"],
+  });
+
+export type ModifierResolution =
+  | { ok: true; modifiers: SelectedModifier[]; priceDelta: number }
+  | { ok: false; error: string };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function parseJsonArray(raw: unknown): any[] {
+  if (Array.isArray(raw)) return raw;
+  if (typeof raw !== "string" || !raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// MenuItem.variants is a JSON string; anything malformed is treated as "no
+// modifiers" rather than blocking the item from being sold.
+export function parseModifierGroups(raw: unknown): ModifierGroup[] {
+  return parseJsonArray(raw)
+    .filter((g) => g && typeof g === "object" && g.id && g.name)
+    .map((g) => {
+      const options: ModifierOption[] = parseJsonArray(g.options)
+        .filter((o) => o && typeof o === "object" && o.id && o.name)
+        .map((o) => ({
+          id: String(o.id),
+          name: String(o.name),
+          priceDelta: round2(Number(o.priceDelta) || 0),
+        }));
+      const required = Boolean(g.required);
+      const minSelect = Math.max(
+        required ? 1 : 0,
+        Math.floor(Number(g.minSelect) || 0),
+      );
+      const maxSelect = Math.max(
+        minSelect,
+        Math.floor(Number(g.maxSelect) || 1),
+      );
+      return {
+        id: String(g.id),
+        name: String(g.name),
+        required,
+        minSelect,
+        maxSelect: Math.min(maxSelect, options.length || maxSelect),
+        options,
+      };
+    })
+    .filter((g) => g.options.length > 0);
+}
+
+export function parseOrderItemModifiers(raw: unknown): SelectedModifier[] {
+  return parseJsonArray(raw).filter(
+    (m) => m && typeof m === "object" && m.optionId,
+  );
+}
+
+// Validates a selection against the item's groups (required, min/max) and
+// prices it. Unknown groups or options are rejected, never silently dropped.
+export function resolveModifierSelection(
+  groups: ModifierGroup[],
+  selections: ModifierSelection[] = [],
+): ModifierResolution {
+  const chosen = new Map<string, string[]>();
+  for (const selection of selections) {
+    const group = groups.find((g) => g.id === selection.groupId);
+    if (!group) return { ok: false, error: "Unknown modifier group" };
+    const optionIds = Array.from(
+      new Set([...(chosen.get(group.id) || []), ...selection.optionIds]),
+    );
+    chosen.set(group.id, optionIds);
+  }
+
+  const modifiers: SelectedModifier[] = [];
+  for (const group of groups) {
+    const optionIds = chosen.get(group.id) || [];
+    if (optionIds.length < group.minSelect) {
+      return {
+        ok: false,
+        error:
+          group.minSelect === 1
+            ? `Choose a ${group.name}`
+            : `Choose at least ${group.minSelect} ${group.name} options`,
+      };
+    }
+    if (optionIds.length > group.maxSelect) {
+      return {
+        ok: false,
+        error: `Choose at most ${group.maxSelect} ${group.name} options`,
+      };
+    }
+    for (const optionId of optionIds) {
+      const option = group.options.find((o) => o.id === optionId);
+      if (!option) {
+        return { ok: false, error: `Unknown ${group.name} option` };
+      }
+      modifiers.push({
+        groupId: group.id,
+        groupName: group.name,
+        optionId: option.id,
+        optionName: option.name,
+        priceDelta: option.priceDelta,
+      });
+    }
+  }
+
+  return {
+    ok: true,
+    modifiers,
+    priceDelta: round2(modifiers.reduce((sum, m) => sum + m.priceDelta, 0)),
+  };
+}
+
+// Chat guests name options ("large", "extra cheese") rather than sending ids.
+export function resolveModifiersByName(
+  groups: ModifierGroup[],
+  names: string[] = [],
+): ModifierResolution {
+  const wanted = names.map((n) => n.trim().toLowerCase()).filter(Boolean);
+  const selections: ModifierSelection[] = groups.map((group) => ({
+    groupId: group.id,
+    optionIds: group.options
+      .filter((o) => wanted.includes(o.name.toLowerCase()))
+      .map((o) => o.id),
+  }));
+  return resolveModifierSelection(groups, selections);
+}
+
+// Discount options ("half portion -80") can outweigh a cheap base price or a
+// happy-hour one; a line never goes below free.
+export function unitPriceWithModifiers(
+  basePrice: unknown,
+  modifiers: SelectedModifier[],
+) {
+  return round2(
+    Math.max(
+      0,
+      Number(basePrice) + modifiers.reduce((sum, m) => sum + m.priceDelta, 0),
+    ),
+  );
+}
+
+// Two lines of the same item only merge when their choices match exactly.
+export function modifierSignature(modifiers: SelectedModifier[]): string {
+  return modifiers
+    .map((m) => `${m.groupId}:${m.optionId}`)
+    .sort()
+    .join("|");
+}
+
+export function formatModifiers(modifiers: SelectedModifier[]): string {
+  const byGroup = new Map<string, string[]>();
+  for (const modifier of modifiers) {
+    byGroup.set(modifier.groupName, [
+      ...(byGroup.get(modifier.groupName) || []),
+      modifier.optionName,
+    ]);
+  }
+  return Array.from(byGroup.entries())
+    .map(([group, options]) => `${group}: ${options.join(", ")}`)
+    .join(" • ");
+}
@@ -0,0 +1,105 @@
+import { prisma } from "@/lib/db";
+import { formatModifiers, parseOrderItemModifiers } from "@/lib/modifiers";
+import { formatComboComponents, parseComboComponents } from "@/lib/combos";
+
+export type OrderEventType =
+  | "ORDER_CREATED"
+  | "STATUS_CHANGED"
+  | "ITEMS_CHANGED"
+  | "PAYMENT_RECORDED"
+  | "PAYMENT_REFUNDED"
+  | "DISCOUNT_APPLIED"
+  | "DISCOUNT_REMOVED";
+
+type OrderEventClient = Pick<typeof prisma, "orderEvent">;
+
+export type OrderEventInput = {
+  tenantId: string;
+  orderId: string;
+  type: OrderEventType;
+  // Exactly one of these identifies who caused the change.
+  actorUserId?: string | null;
+  chatSessionId?: string | null;
+  oldValue?: unknown;
+  newValue?: unknown;
+};
+
+// OrderEvent.oldValue/newValue are String columns (SQLite has no native JSON),
+// so structured values are stored serialized and parsed back on read.
+function serialize(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function deserialize(value: string | null): unknown {
+  if (value === null) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+export async function recordOrderEvent(
+  client: OrderEventClient,
+  input: OrderEventInput,
+) {
+  return client.orderEvent.create({
+    data: {
+      tenantId: input.tenantId,
+      orderId: input.orderId,
+      type: input.type,
+      actorUserId: input.actorUserId || null,
+      chatSessionId: input.chatSessionId || null,
+      oldValue: serialize(input.oldValue),
+      newValue: serialize(input.newValue),
+    },
+  });
+}
+
+export function snapshotOrderItems(
+  items: {
+    itemName: string;
+    quantity: number;
+    unitPrice: any;
+    modifiers?: string | null;
+    comboComponents?: string | null;
+  }[],
+) {
+  return items.map((item) => {
+    const modifiers = formatModifiers(parseOrderItemModifiers(item.modifiers));
+    const combo = formatComboComponents(
+      parseComboComponents(item.comboComponents),
+    );
+    return {
+      itemName: item.itemName,
+      quantity: item.quantity,
+      unitPrice: Number(item.unitPrice),
+      ...(modifiers ? { modifiers } : {}),
+      ...(combo ? { combo } : {}),
+    };
+  });
+}
+
+export function formatOrderEvent(event: {
+  id: string;
+  type: string;
+  actorUserId: string | null;
+  chatSessionId: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+  createdAt: Date;
+}) {
+  return {
+    id: event.id,
+    type: event.type,
+    actor: event.actorUserId
+      ? { kind: "USER" as const, id: event.actorUserId }
+      : event.chatSessionId
+        ? { kind: "CHAT" as const, id: event.chatSessionId }
+        : { kind: "SYSTEM" as const, id: null },
+    oldValue: deserialize(event.oldValue),
+    newValue: deserialize(event.newValue),
+    createdAt: event.createdAt,
+  };
+}
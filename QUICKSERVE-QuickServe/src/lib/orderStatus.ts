@@ -0,0 +1,77 @@
+export type OrderStatus =
+  | "CONFIRMED"
+  | "PREPARING"
+  | "READY"
+  | "OUT_FOR_DELIVERY"
+  | "PAID"
+  | "CANCELLED";
+
+export const TERMINAL_ORDER_STATUSES: OrderStatus[] = ["PAID", "CANCELLED"];
+
+type Transition = {
+  to: OrderStatus;
+  // Roles allowed to take this edge. Omitted = any actor, including the
+  // unauthenticated chat guest (which passes no role).
+  roles?: string[];
+};
+
+const STAFF_ROLES = ["OWNER", "MANAGER", "STAFF"];
+const MANAGER_ROLES = ["OWNER", "MANAGER"];
+
+// Server-side order lifecycle. Anything not listed here is rejected, so
+// PAID -> PREPARING or CANCELLED -> READY can never be applied blindly.
+const ORDER_TRANSITIONS: Record<OrderStatus, Transition[]> = {
+  CONFIRMED: [{ to: "PREPARING", roles: STAFF_ROLES }, { to: "CANCELLED" }],
+  PREPARING: [{ to: "READY", roles: STAFF_ROLES }, { to: "CANCELLED" }],
+  READY: [
+    { to: "OUT_FOR_DELIVERY", roles: STAFF_ROLES },
+    { to: "PAID" },
+    { to: "CANCELLED" },
+  ],
+  OUT_FOR_DELIVERY: [{ to: "PAID" }, { to: "CANCELLED" }],
+  PAID: [],
+  // Reopening a cancelled order is a manager decision only.
+  CANCELLED: [{ to: "CONFIRMED", roles: MANAGER_ROLES }],
+};
+
+export function isTerminalOrderStatus(status: string): boolean {
+  return TERMINAL_ORDER_STATUSES.includes(status as OrderStatus);
+}
+
+export function allowedNextStatuses(
+  from: string,
+  role?: string | null,
+): OrderStatus[] {
+  const edges = ORDER_TRANSITIONS[from as OrderStatus] || [];
+  return edges
+    .filter((edge) => !edge.roles || (!!role && edge.roles.includes(role)))
+    .map((edge) => edge.to);
+}
+
+export function canTransitionOrder(
+  from: string,
+  to: string,
+  role?: string | null,
+): boolean {
+  return allowedNextStatuses(from, role).includes(to as OrderStatus);
+}
+
+// The status an open order takes when a guest adds dishes to it, or null when
+// it can no longer take more (e.g. it is already out for delivery). A READY
+// order goes back to the kitchen for the new dishes; that move belongs to the
+// merge alone and is not an edge anyone can take through PATCH.
+export function statusAfterAddingItems(from: string): OrderStatus | null {
+  if (from === "CONFIRMED" || from === "PREPARING") return from;
+  return from === "READY" ? "CONFIRMED" : null;
+}
+
+export function describeInvalidTransition(
+  from: string,
+  to: string,
+  role?: string | null,
+): string {
+  const allowed = allowedNextStatuses(from, role);
+  return allowed.length > 0
+    ? `Cannot move order from ${from} to ${to}. Allowed next states: ${allowed.join(", ")}`
+    : `Cannot move order from ${from} to ${to}. No further transitions allowed`;
+}
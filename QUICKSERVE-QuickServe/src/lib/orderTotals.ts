@@ -0,0 +1,138 @@
+import { prisma } from "@/lib/db";
+
+type OrderTotalsClient = Pick<
+  typeof prisma,
+  "order" | "orderItem" | "tenant" | "orderDiscount"
+>;
+
+// Tenant.settings is stored as a JSON string in the DB (SQLite has no native
+// JSON type), so it must be parsed before reading charge percentages.
+export function parseTenantSettings(
+  raw: string | null | undefined,
+): Record<string, any> {
+  try {
+    const parsed = JSON.parse(raw || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export type DiscountRule = {
+  id: string;
+  valueType: string;
+  value: any;
+  orderItemId?: string | null;
+};
+
+// Line discounts come off their own line first; order-level discounts then
+// apply to what is left, so stacked discounts can never exceed the subtotal.
+export function computeDiscountAmounts(
+  discounts: DiscountRule[],
+  items: { id: string; total: any }[],
+) {
+  const remainingByLine = new Map(
+    items.map((item) => [item.id, Number(item.total)]),
+  );
+  const amounts = new Map<string, number>();
+
+  for (const discount of discounts.filter((d) => d.orderItemId)) {
+    const base = remainingByLine.get(discount.orderItemId!) ?? 0;
+    const amount = discountAmount(discount, base);
+    remainingByLine.set(discount.orderItemId!, base - amount);
+    amounts.set(discount.id, amount);
+  }
+
+  let remaining = Array.from(remainingByLine.values()).reduce(
+    (sum, value) => sum + value,
+    0,
+  );
+  for (const discount of discounts.filter((d) => !d.orderItemId)) {
+    const amount = discountAmount(discount, remaining);
+    remaining -= amount;
+    amounts.set(discount.id, amount);
+  }
+
+  const total = round2(
+    Array.from(amounts.values()).reduce((sum, value) => sum + value, 0),
+  );
+  return { amounts, total };
+}
+
+function discountAmount(discount: DiscountRule, base: number): number {
+  if (base <= 0) return 0;
+  const value = Number(discount.value);
+  const raw =
+    discount.valueType === "PERCENT"
+      ? (base * Math.min(100, value)) / 100
+      : value;
+  return round2(Math.max(0, Math.min(base, raw)));
+}
+
+// Discounts come off before service charge and tax are applied.
+export function computeOrderTotals(
+  subtotal: number,
+  settings: Record<string, any>,
+  discountTotal = 0,
+) {
+  const serviceChargePercent = Number(settings.serviceChargePercent || 0);
+  const taxPercent = Number(settings.taxPercent || 0);
+  const discount = Math.min(subtotal, Math.max(0, discountTotal));
+  const taxable = subtotal - discount;
+  const serviceCharge = Math.round(taxable * (serviceChargePercent / 100));
+  const tax = Math.round(taxable * (taxPercent / 100));
+  return {
+    subtotal,
+    discountTotal: discount,
+    serviceCharge,
+    tax,
+    total: taxable + serviceCharge + tax,
+  };
+}
+
+// Re-derives subtotal/discounts/serviceCharge/tax/total from the order's
+// current lines. Percentage discounts follow the lines they apply to.
+export async function recalculateOrderTotals(
+  client: OrderTotalsClient,
+  orderId: string,
+  tenantId: string,
+) {
+  const [items, tenant, discounts] = await Promise.all([
+    client.orderItem.findMany({ where: { orderId } }),
+    client.tenant.findUnique({ where: { id: tenantId } }),
+    client.orderDiscount.findMany({
+      where: { orderId },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+  const subtotal = items.reduce((sum, item) => sum + Number(item.total), 0);
+  const { amounts, total: discountTotal } = computeDiscountAmounts(
+    discounts,
+    items,
+  );
+  for (const discount of discounts) {
+    const amount = amounts.get(discount.id) ?? 0;
+    if (Number(discount.amount) !== amount) {
+      await client.orderDiscount.update({
+        where: { id: discount.id },
+        data: { amount },
+      });
+    }
+  }
+  const totals = computeOrderTotals(
+    subtotal,
+    parseTenantSettings(tenant?.settings),
+    discountTotal,
+  );
+  return client.order.update({
+    where: { id: orderId },
+    data: { ...totals, updatedAt: new Date() },
+    include: {
+      items: { include: { menuItem: true } },
+      table: true,
+      discounts: { orderBy: { createdAt: "asc" } },
+    },
+  });
+}
@@ -0,0 +1,83 @@
+import { createHmac, randomUUID } from "crypto";
+import type { PaymentGateway } from "./types";
+
+const BASE_URL = process.env.ESEWA_BASE_URL || "https://rc-epay.esewa.com.np";
+const PRODUCT_CODE = process.env.ESEWA_PRODUCT_CODE || "";
+const SECRET_KEY = process.env.ESEWA_SECRET_KEY || "";
+
+function sign(message: string): string {
+  return createHmac("sha256", SECRET_KEY).update(message).digest("base64");
+}
+
+// eSewa ePay v2: the browser POSTs a signed form, eSewa redirects back with a
+// base64 `data` payload, and the status API is the source of truth.
+export const esewaGateway: PaymentGateway = {
+  id: "ESEWA",
+  method: "ESEWA",
+
+  async initiate(input) {
+    const transactionRef = `ESEWA-${randomUUID()}`;
+    const totalAmount = input.amount.toFixed(2);
+    const signedFieldNames = "total_amount,transaction_uuid,product_code";
+    const signature = sign(
+      `total_amount=${totalAmount},transaction_uuid=${transactionRef},product_code=${PRODUCT_CODE}`,
+    );
+    return {
+      transactionRef,
+      redirectUrl: `${BASE_URL}/api/epay/main/v2/form`,
+      formFields: {
+        amount: totalAmount,
+        tax_amount: "0",
+        product_service_charge: "0",
+        product_delivery_charge: "0",
+        total_amount: totalAmount,
+        transaction_uuid: transactionRef,
+        product_code: PRODUCT_CODE,
+        success_url: input.callbackUrl,
+        failure_url: `${input.callbackUrl}${input.callbackUrl.includes("?") ? "&" : "?"}status=FAILED`,
+        signed_field_names: signedFieldNames,
+        signature,
+      },
+    };
+  },
+
+  // The failure_url redirect carries `status=FAILED`, but anyone can craft
+  // that; only the status API decides.
+  async verify(input) {
+    const url = new URL(`${BASE_URL}/api/epay/transaction/status/`);
+    url.searchParams.set("product_code", PRODUCT_CODE);
+    url.searchParams.set("total_amount", input.amount.toFixed(2));
+    url.searchParams.set("transaction_uuid", input.transactionRef);
+    const res = await fetch(url, { cache: "no-store" });
+    if (!res.ok) return { status: "PENDING" };
+    const body = await res.json().catch(() => ({}));
+    if (body.status === "COMPLETE") {
+      return { status: "PAID", providerRef: body.ref_id || undefined };
+    }
+    if (["CANCELED", "NOT_FOUND", "FULL_REFUND"].includes(body.status)) {
+      return { status: "FAILED" };
+    }
+    return { status: "PENDING" };
+  },
+
+  // Same mapping as the status API: PENDING and AMBIGUOUS are still in
+  // flight, only the final states settle the payment.
+  parseWebhook(body) {
+    const payload = body as Record<string, any> | null;
+    if (!payload?.transaction_uuid) return null;
+    return {
+      transactionRef: String(payload.transaction_uuid),
+      status:
+        payload.status === "COMPLETE"
+          ? "PAID"
+          : ["CANCELED", "NOT_FOUND", "FULL_REFUND"].includes(payload.status)
+            ? "FAILED"
+            : "PENDING",
+      amount:
+        payload.total_amount !== undefined
+          ? Number(String(payload.total_amount).replace(/,/g, ""))
+          : undefined,
+      providerRef: payload.transaction_code || undefined,
+    };
+  },
+};
@@ -0,0 +1,90 @@
+import { createHmac, randomUUID } from "crypto";
+import type { PaymentGateway } from "./types";
+
+const BASE_URL =
+  process.env.FONEPAY_BASE_URL || "https://dev-merchantapi.fonepay.com/api";
+const MERCHANT_CODE = process.env.FONEPAY_MERCHANT_CODE || "";
+const SECRET_KEY = process.env.FONEPAY_SECRET_KEY || "";
+const USERNAME = process.env.FONEPAY_USERNAME || "";
+const PASSWORD = process.env.FONEPAY_PASSWORD || "";
+
+function sign(message: string): string {
+  return createHmac("sha512", SECRET_KEY).update(message).digest("hex");
+}
+
+async function fonepayPost(path: string, payload: Record<string, any>) {
+  const res = await fetch(`${BASE_URL}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      ...payload,
+      merchantCode: MERCHANT_CODE,
+      username: USERNAME,
+      password: PASSWORD,
+    }),
+    cache: "no-store",
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body.message || `Fonepay request failed (${res.status})`);
+  }
+  return body;
+}
+
+// Fonepay dynamic QR: the customer scans a QR generated per payment and the
+// status API (or Fonepay's notification) confirms it.
+export const fonepayGateway: PaymentGateway = {
+  id: "FONEPAY",
+  method: "FONEPAY",
+
+  async initiate(input) {
+    const transactionRef = `FONEPAY-${randomUUID()}`;
+    const amount = input.amount.toFixed(2);
+    const remarks1 = input.orderNumber;
+    const remarks2 = "QuickServe";
+    const body = await fonepayPost(
+      "/merchantRequest/thirdPartyDynamicQrDownload",
+      {
+        amount,
+        prn: transactionRef,
+        remarks1,
+        remarks2,
+        dataValidation: sign(
+          `${amount},${transactionRef},${MERCHANT_CODE},${remarks1},${remarks2}`,
+        ),
+      },
+    );
+    return { transactionRef, qrPayload: body.qrMessage };
+  },
+
+  async verify(input) {
+    const body = await fonepayPost(
+      "/merchantRequest/thirdPartyDynamicQrGetStatus",
+      {
+        prn: input.transactionRef,
+        dataValidation: sign(`${input.transactionRef},${MERCHANT_CODE}`),
+      },
+    );
+    if (body.paymentStatus === "success") {
+      return { status: "PAID", providerRef: body.fonepayTraceId || undefined };
+    }
+    if (body.paymentStatus === "failed") return { status: "FAILED" };
+    return { status: "PENDING" };
+  },
+
+  parseWebhook(body) {
+    const payload = body as Record<string, any> | null;
+    if (!payload?.prn) return null;
+    return {
+      transactionRef: String(payload.prn),
+      status:
+        payload.paymentStatus === "success"
+          ? "PAID"
+          : payload.paymentStatus === "failed"
+            ? "FAILED"
+            : "PENDING",
+      amount: payload.amount !== undefined ? Number(payload.amount) : undefined,
+      providerRef: payload.fonepayTraceId || undefined,
+    };
+  },
+};
@@ -0,0 +1,74 @@
+import { esewaGateway } from "./esewa";
+import { fonepayGateway } from "./fonepay";
+import { khaltiGateway } from "./khalti";
+import { mockGateway } from "./mock";
+import type { GatewayId, PaymentGateway } from "./types";
+
+export type * from "./types";
+
+const GATEWAYS: Record<GatewayId, PaymentGateway> = {
+  MOCK: mockGateway,
+  ESEWA: esewaGateway,
+  KHALTI: khaltiGateway,
+  FONEPAY: fonepayGateway,
+};
+
+// The mock provider confirms anything it is asked to, so it must never be
+// reachable in production.
+export function isGatewayEnabled(id: string): id is GatewayId {
+  if (!(id in GATEWAYS)) return false;
+  return id !== "MOCK" || process.env.NODE_ENV !== "production";
+}
+
+export function getPaymentGateway(id: string): PaymentGateway | null {
+  return isGatewayEnabled(id) ? GATEWAYS[id] : null;
+}
+
+// Tenant settings may pin a provider; otherwise fall back to the deployment
+// default, and to the mock provider during development.
+export function resolveTenantGateway(
+  settings: Record<string, any>,
+  requested?: string | null,
+): PaymentGateway | null {
+  const candidates = [
+    requested,
+    settings.paymentGateway,
+    process.env.PAYMENT_GATEWAY,
+    process.env.NODE_ENV !== "production" ? "MOCK" : null,
+  ];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const gateway = getPaymentGateway(String(candidate).toUpperCase());
+    if (gateway) return gateway;
+  }
+  return null;
+}
+
+export function gatewayForMethod(method: string): PaymentGateway | null {
+  const match = Object.values(GATEWAYS).find(
+    (g) => g.method === method && isGatewayEnabled(g.id),
+  );
+  return match || null;
+}
+
+// Any provider can show a QR; wallet methods only go to their own provider.
+function collectsMethod(gateway: PaymentGateway, method: string) {
+  return method === "QR" || gateway.method === method;
+}
+
+// The provider for a staff checkout. The method decides: a wallet method goes
+// to its own provider and only a plain QR falls back to the tenant's pinned
+// one. Null when nothing enabled can take the method, or when the requested
+// provider cannot.
+export function gatewayForCheckout(
+  settings: Record<string, any>,
+  method: string,
+  requested?: string | null,
+): PaymentGateway | null {
+  if (requested) {
+    const gateway = getPaymentGateway(requested.toUpperCase());
+    return gateway && collectsMethod(gateway, method) ? gateway : null;
+  }
+  if (method === "QR") return resolveTenantGateway(settings);
+  return gatewayForMethod(method);
+}
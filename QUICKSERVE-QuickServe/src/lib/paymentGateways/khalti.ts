@@ -0,0 +1,70 @@
+import type { PaymentGateway } from "./types";
+
+const BASE_URL = process.env.KHALTI_BASE_URL || "https://dev.khalti.com/api/v2";
+const SECRET_KEY = process.env.KHALTI_SECRET_KEY || "";
+
+async function khaltiPost(path: string, payload: Record<string, any>) {
+  const res = await fetch(`${BASE_URL}${path}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Key ${SECRET_KEY}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(payload),
+    cache: "no-store",
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body.detail || `Khalti request failed (${res.status})`);
+  }
+  return body;
+}
+
+// Khalti ePayment: amounts are in paisa and `pidx` identifies the transaction.
+export const khaltiGateway: PaymentGateway = {
+  id: "KHALTI",
+  method: "KHALTI",
+
+  async initiate(input) {
+    const body = await khaltiPost("/epayment/initiate/", {
+      return_url: input.callbackUrl,
+      website_url: new URL(input.callbackUrl).origin,
+      amount: Math.round(input.amount * 100),
+      purchase_order_id: input.paymentId,
+      purchase_order_name: input.orderNumber,
+    });
+    return { transactionRef: body.pidx, redirectUrl: body.payment_url };
+  },
+
+  async verify(input) {
+    const body = await khaltiPost("/epayment/lookup/", {
+      pidx: input.transactionRef,
+    });
+    if (body.status === "Completed") {
+      return { status: "PAID", providerRef: body.transaction_id || undefined };
+    }
+    if (["Expired", "User canceled", "Refunded"].includes(body.status)) {
+      return { status: "FAILED" };
+    }
+    return { status: "PENDING" };
+  },
+
+  parseWebhook(body) {
+    const payload = body as Record<string, any> | null;
+    if (!payload?.pidx) return null;
+    return {
+      transactionRef: String(payload.pidx),
+      status:
+        payload.status === "Completed"
+          ? "PAID"
+          : payload.status === "Pending"
+            ? "PENDING"
+            : "FAILED",
+      amount:
+        payload.total_amount !== undefined
+          ? Number(payload.total_amount) / 100
+          : undefined,
+      providerRef: payload.transaction_id || undefined,
+    };
+  },
+};
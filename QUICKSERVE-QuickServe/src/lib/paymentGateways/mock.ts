@@ -0,0 +1,41 @@
+import { randomUUID } from "crypto";
+import type { PaymentGateway } from "./types";
+
+// Local provider for development and tests. Nothing leaves the process: the
+// "customer" confirms by hitting the callback URL with status=PAID (or FAILED).
+export const mockGateway: PaymentGateway = {
+  id: "MOCK",
+  method: "QR",
+
+  async initiate(input) {
+    const transactionRef = `MOCK-${randomUUID()}`;
+    const callback = new URL(input.callbackUrl);
+    callback.searchParams.set("ref", transactionRef);
+    callback.searchParams.set("status", "PAID");
+    return {
+      transactionRef,
+      redirectUrl: callback.toString(),
+      qrPayload: `quickserve://pay?order=${encodeURIComponent(input.orderNumber)}&amount=${input.amount.toFixed(2)}&ref=${transactionRef}`,
+    };
+  },
+
+  async verify(input) {
+    const status = String(input.params.status || "PAID").toUpperCase();
+    if (status === "FAILED") return { status: "FAILED" };
+    return { status: "PAID", providerRef: input.transactionRef };
+  },
+
+  parseWebhook(body) {
+    const payload = body as Record<string, any> | null;
+    if (!payload?.transactionRef) return null;
+    const status = String(payload.status || "PAID").toUpperCase();
+    return {
+      transactionRef: String(payload.transactionRef),
+      status: status === "FAILED" ? "FAILED" : "PAID",
+      amount: payload.amount !== undefined ? Number(payload.amount) : undefined,
+      providerRef: payload.providerRef
+        ? String(payload.providerRef)
+        : undefined,
+    };
+  },
+};
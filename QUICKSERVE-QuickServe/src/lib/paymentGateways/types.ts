@@ -0,0 +1,49 @@
+export type GatewayId = "MOCK" | "ESEWA" | "KHALTI" | "FONEPAY";
+
+export type GatewayPaymentStatus = "PAID" | "PENDING" | "FAILED";
+
+export type InitiateInput = {
+  paymentId: string;
+  orderNumber: string;
+  amount: number;
+  // Absolute URL the provider sends the customer (or its callback) back to.
+  callbackUrl: string;
+};
+
+export type InitiateResult = {
+  transactionRef: string;
+  redirectUrl?: string;
+  qrPayload?: string;
+  // Extra form fields for providers that expect a browser POST (eSewa).
+  formFields?: Record<string, string>;
+};
+
+export type VerifyInput = {
+  transactionRef: string;
+  amount: number;
+  // Raw query/body values the provider returned to the callback URL.
+  params: Record<string, string>;
+};
+
+export type VerifyResult = {
+  status: GatewayPaymentStatus;
+  providerRef?: string;
+};
+
+export type WebhookEvent = {
+  transactionRef: string;
+  status: GatewayPaymentStatus;
+  amount?: number;
+  providerRef?: string;
+};
+
+export interface PaymentGateway {
+  id: GatewayId;
+  // Payment.method recorded for payments taken through this gateway.
+  method: string;
+  initiate(input: InitiateInput): Promise<InitiateResult>;
+  verify(input: VerifyInput): Promise<VerifyResult>;
+  // Maps a provider-specific webhook body to a normalized event, or null when
+  // the body is not one this gateway understands.
+  parseWebhook(body: unknown): WebhookEvent | null;
+}
@@ -0,0 +1,362 @@
+import { prisma } from "@/lib/db";
+import { EVENTS, tenantChannel, triggerPusher } from "@/lib/pusher";
+import { canTransitionOrder, isTerminalOrderStatus } from "@/lib/orderStatus";
+import { recordOrderEvent } from "@/lib/orderEvents";
+import {
+  derivePaymentStatus,
+  outstandingBalance,
+  PAYMENT_TOLERANCE,
+} from "@/lib/billSplit";
+import type { PaymentGateway } from "@/lib/paymentGateways";
+
+type Tx = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+export type PaymentActor = {
+  actorUserId?: string | null;
+  chatSessionId?: string | null;
+};
+
+export type OrderPaymentResult = {
+  previous: { status: string; paymentStatus: string };
+  order: any;
+  settled: boolean;
+  outstanding: number;
+};
+
+export function extractChatSessionId(notes?: string | null): string | null {
+  if (!notes) return null;
+  const match = notes.match(/CHAT_SESSION:([a-f0-9-]{36})/i);
+  return match?.[1] || null;
+}
+
+// Re-derives the order's payment state from its payments and refunds. Once
+// the balance is covered the order is closed; partial payments leave it open.
+export async function reconcileOrderPayment(
+  tx: Tx,
+  tenantId: string,
+  orderId: string,
+  actor: PaymentActor,
+): Promise<OrderPaymentResult> {
+  const current = await tx.order.findFirstOrThrow({
+    where: { id: orderId, tenantId },
+    include: { payments: { select: { amount: true, status: true } } },
+  });
+  const outstanding = outstandingBalance(current, current.payments);
+  const settled = outstanding < PAYMENT_TOLERANCE;
+
+  const data: Record<string, any> = {
+    paymentStatus: derivePaymentStatus(current, current.payments),
+  };
+  // Money can arrive before the kitchen is done (e.g. a prepaid QR); only
+  // close the order when the lifecycle allows it.
+  if (settled && canTransitionOrder(current.status, "PAID")) {
+    data.status = "PAID";
+    data.completedAt = new Date();
+  }
+
+  const order = await tx.order.update({
+    where: { id: orderId },
+    data,
+    include: {
+      items: true,
+      table: true,
+    },
+  });
+
+  if (
+    order.status !== current.status ||
+    order.paymentStatus !== current.paymentStatus
+  ) {
+    await recordOrderEvent(tx, {
+      tenantId,
+      orderId,
+      type: "STATUS_CHANGED",
+      ...actor,
+      oldValue: {
+        status: current.status,
+        paymentStatus: current.paymentStatus,
+      },
+      newValue: { status: order.status, paymentStatus: order.paymentStatus },
+    });
+  }
+
+  return {
+    previous: { status: current.status, paymentStatus: current.paymentStatus },
+    order,
+    settled: settled && order.status === "PAID",
+    outstanding,
+  };
+}
+
+// Side effects after a payment commits: free the table, close the linked chat
+// session and broadcast. Shared by the cash path and gateway confirmations.
+export async function announceOrderPayment(
+  tenantId: string,
+  result: OrderPaymentResult,
+) {
+  const { order } = result;
+  if (!result.settled) {
+    await triggerPusher(tenantChannel(tenantId), EVENTS.ORDER_UPDATED, {
+      order,
+    });
+    return;
+  }
+
+  if (order.tableId) {
+    const otherActive = await prisma.order.count({
+      where: {
+        tableId: order.tableId,
+        status: { notIn: ["PAID", "CANCELLED"] },
+        id: { not: order.id },
+      },
+    });
+    if (otherActive === 0) {
+      await prisma.table.update({
+        where: { id: order.tableId },
+        data: { status: "AVAILABLE" },
+      });
+    }
+  }
+
+  // Notify linked chat session and close session on payment confirmation.
+  const chatSessionId = extractChatSessionId(order.notes);
+  if (chatSessionId) {
+    await prisma.chatMessage.create({
+      data: {
+        sessionId: chatSessionId,
+        sender: "BOT",
+        content: `Payment confirmed for ${order.orderNumber}. Smooth move, chef’s kiss service complete. ✅`,
+        metadata: JSON.stringify({
+          action: "ORDER_PAID",
+          orderNumber: order.orderNumber,
+        }),
+      },
+    });
+    await prisma.chatSession.update({
+      where: { id: chatSessionId },
+      data: { state: "COMPLETED", cart: "[]" },
+    });
+  }
+
+  await triggerPusher(tenantChannel(tenantId), EVENTS.ORDER_STATUS_CHANGED, {
+    order,
+  });
+}
+
+export type GatewayConfirmation =
+  | {
+      outcome: "CONFIRMED";
+      payment: any;
+      result: OrderPaymentResult;
+      // Amount charged beyond what the order still owed, to be refunded.
+      overpaid: number;
+    }
+  | { outcome: "ALREADY_PROCESSED"; payment: any }
+  | { outcome: "NOT_FOUND" };
+
+// Moves a PENDING gateway payment to PAID exactly once. Repeated callbacks for
+// the same payment are reported as ALREADY_PROCESSED instead of re-applied.
+export async function confirmPendingPayment(
+  where: { paymentId: string } | { transactionRef: string },
+  options: { providerRef?: string | null } & PaymentActor = {},
+): Promise<GatewayConfirmation> {
+  const { providerRef, ...actor } = options;
+  const payment = await prisma.payment.findFirst({
+    where:
+      "paymentId" in where
+        ? { id: where.paymentId }
+        : { transactionRef: where.transactionRef },
+  });
+  if (!payment) return { outcome: "NOT_FOUND" };
+  if (payment.status !== "PENDING") {
+    return { outcome: "ALREADY_PROCESSED", payment };
+  }
+
+  const confirmed = await prisma.$transaction(async (tx) => {
+    // The provider has already charged the guest, so the payment is always
+    // recorded; anything beyond the balance is flagged for a refund.
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: payment.orderId },
+      include: { payments: { select: { amount: true, status: true } } },
+    });
+    const excess =
+      Number(payment.amount) - outstandingBalance(order, order.payments);
+    const overpaid =
+      excess > PAYMENT_TOLERANCE ? Math.round(excess * 100) / 100 : 0;
+
+    // Conditional update guards against two callbacks racing each other.
+    const { count } = await tx.payment.updateMany({
+      where: { id: payment.id, status: "PENDING" },
+      data: {
+        status: "PAID",
+        paidAt: new Date(),
+        ...(providerRef ? { providerRef } : {}),
+      },
+    });
+    if (count === 0) return null;
+
+    await recordOrderEvent(tx, {
+      tenantId: payment.tenantId,
+      orderId: payment.orderId,
+      type: "PAYMENT_RECORDED",
+      ...actor,
+      oldValue: { paymentId: payment.id, status: "PENDING" },
+      newValue: {
+        paymentId: payment.id,
+        amount: Number(payment.amount),
+        method: payment.method,
+        status: "PAID",
+        providerRef: providerRef || null,
+        ...(overpaid > 0 ? { overpaid } : {}),
+      },
+    });
+
+    const result = await reconcileOrderPayment(
+      tx,
+      payment.tenantId,
+      payment.orderId,
+      actor,
+    );
+    return { result, overpaid };
+  });
+
+  if (!confirmed) return { outcome: "ALREADY_PROCESSED", payment };
+
+  await announceOrderPayment(payment.tenantId, confirmed.result);
+  return {
+    outcome: "CONFIRMED",
+    payment: { ...payment, status: "PAID" },
+    result: confirmed.result,
+    overpaid: confirmed.overpaid,
+  };
+}
+
+// How long an unfinished checkout holds its share of the balance. Guests who
+// walk away from a QR free it up again after this.
+const CHECKOUT_HOLD_MS = 15 * 60 * 1000;
+
+// What unfinished gateway checkouts are holding of the balance. Cash and new
+// checkouts may only collect what is left over, so a till and a QR in flight
+// cannot both charge the same balance.
+export function heldByCheckouts(
+  payments: {
+    amount: any;
+    status: string;
+    gateway?: string | null;
+    receivedById?: string | null;
+    createdAt: Date | string;
+  }[],
+  chatSessionId?: string | null,
+): number {
+  const holdSince = Date.now() - CHECKOUT_HOLD_MS;
+  return payments
+    .filter(
+      (p) =>
+        p.status === "PENDING" &&
+        p.gateway &&
+        new Date(p.createdAt).getTime() > holdSince &&
+        // A guest's new checkout (e.g. after changing the tip) stands in for
+        // their unfinished ones; confirming both is flagged as overpaid.
+        !(chatSessionId && !p.receivedById),
+    )
+    .reduce((sum, p) => sum + Number(p.amount), 0);
+}
+
+// Creates the PENDING payment row and hands it to the provider. The row exists
+// before the provider is called so the callback always has something to match.
+export async function startGatewayCheckout(
+  gateway: PaymentGateway,
+  input: {
+    tenantId: string;
+    order: { id: string; orderNumber: string };
+    amount: number;
+    tipAmount?: number;
+    splitLabel?: string;
+    receivedById?: string | null;
+    chatSessionId?: string | null;
+    callbackUrl: string;
+  },
+) {
+  const payment = await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: input.order.id },
+      include: {
+        payments: {
+          select: {
+            amount: true,
+            status: true,
+            gateway: true,
+            receivedById: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+    if (isTerminalOrderStatus(order.status)) throw new Error("ORDER_CLOSED");
+    const held = heldByCheckouts(order.payments, input.chatSessionId);
+    const available = outstandingBalance(order, order.payments) - held;
+    if (input.amount - available > PAYMENT_TOLERANCE) {
+      throw new Error("CHECKOUT_IN_PROGRESS");
+    }
+
+    const created = await tx.payment.create({
+      data: {
+        tenantId: input.tenantId,
+        orderId: input.order.id,
+        amount: input.amount,
+        method: gateway.method as any,
+        status: "PENDING",
+        gateway: gateway.id,
+        splitLabel: input.splitLabel,
+        tipAmount: input.tipAmount || 0,
+        receivedById: input.receivedById || undefined,
+      },
+    });
+    await recordOrderEvent(tx, {
+      tenantId: input.tenantId,
+      orderId: input.order.id,
+      type: "PAYMENT_RECORDED",
+      actorUserId: input.receivedById,
+      chatSessionId: input.chatSessionId,
+      newValue: {
+        paymentId: created.id,
+        amount: Number(created.amount),
+        method: created.method,
+        status: created.status,
+        gateway: gateway.id,
+        tipAmount: Number(created.tipAmount),
+      },
+    });
+    return created;
+  });
+
+  try {
+    const checkout = await gateway.initiate({
+      paymentId: payment.id,
+      orderNumber: input.order.orderNumber,
+      // The customer is charged the tip too; only `amount` settles the order.
+      amount: input.amount + (input.tipAmount || 0),
+      callbackUrl: input.callbackUrl,
+    });
+    const updated = await prisma.payment.update({
+      where: { id: payment.id },
+      data: { transactionRef: checkout.transactionRef },
+    });
+    return { payment: updated, gateway: gateway.id, checkout };
+  } catch (error) {
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { status: "FAILED" },
+    });
+    throw error;
+  }
+}
+
+// Marks a PENDING payment FAILED after the provider declines it.
+export async function failPendingPayment(paymentId: string) {
+  const { count } = await prisma.payment.updateMany({
+    where: { id: paymentId, status: "PENDING" },
+    data: { status: "FAILED" },
+  });
+  return count > 0;
+}
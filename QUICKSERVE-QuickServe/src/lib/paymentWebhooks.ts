@@ -0,0 +1,62 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { prisma } from "@/lib/db";
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-quickserve-signature";
+
+// CONFLICT: a signed notification contradicts what was already settled
+// (e.g. PAID for a checkout marked FAILED); staff must reconcile it by hand.
+export type WebhookOutcome =
+  "PROCESSED" | "DUPLICATE" | "REJECTED" | "CONFLICT";
+
+// Signatures are `sha256=<hex>` over the raw request body, keyed with the
+// tenant's settings.paymentWebhookSecret.
+export function signWebhookPayload(secret: string, rawBody: string): string {
+  return `sha256=${createHmac("sha256", secret).update(rawBody).digest("hex")}`;
+}
+
+export function verifyWebhookSignature(
+  secret: string,
+  rawBody: string,
+  signature: string | null,
+): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(signWebhookPayload(secret, rawBody));
+  const received = Buffer.from(signature.trim());
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+// Every delivery is logged, so rejected or replayed notifications can be
+// inspected later without digging through server logs.
+export async function recordWebhookDelivery(input: {
+  tenantId?: string | null;
+  gateway?: string | null;
+  transactionRef?: string | null;
+  outcome: WebhookOutcome;
+  reason?: string | null;
+  payload: string;
+}) {
+  return prisma.paymentWebhookDelivery.create({
+    data: {
+      tenantId: input.tenantId || null,
+      gateway: input.gateway || null,
+      transactionRef: input.transactionRef || null,
+      outcome: input.outcome,
+      reason: input.reason || null,
+      // Bodies are capped so a hostile sender can't bloat the table.
+      payload: input.payload.slice(0, 10000),
+    },
+  });
+}
+
+export async function wasWebhookProcessed(
+  tenantId: string,
+  transactionRef: string,
+): Promise<boolean> {
+  const existing = await prisma.paymentWebhookDelivery.findFirst({
+    where: { tenantId, transactionRef, outcome: "PROCESSED" },
+    select: { id: true },
+  });
+  return !!existing;
+}
@@ -0,0 +1,187 @@
+import { prisma } from "@/lib/db";
+import {
+  isScheduleOpen,
+  menuScheduleSchema,
+  parseMenuSchedule,
+  type MenuClock,
+} from "@/lib/menuSchedule";
+import { z } from "zod";
+
+type PriceRuleClient = Pick<typeof prisma, "priceRule">;
+
+// PERCENT takes a percentage off the base price; FIXED_PRICE replaces it
+// (e.g. "all draught beer Rs. 300"). Modifier deltas are added on top either
+// way.
+export type PriceRuleValueType = "PERCENT" | "FIXED_PRICE";
+
+const itemIdsSchema = z.array(z.string().min(1)).max(500);
+const categoryIdsSchema = z.array(z.string().min(1)).max(100);
+
+// No defaults here, so a PATCH that leaves out a list keeps the saved one.
+export const priceRuleFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  valueType: z.enum(["PERCENT", "FIXED_PRICE"]),
+  value: z.number().min(0).max(1000000),
+  itemIds: itemIdsSchema.optional(),
+  categoryIds: categoryIdsSchema.optional(),
+  // Day-part windows (e.g. Mon-Fri 17:00-19:00); null = any time of day.
+  schedule: menuScheduleSchema.nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const priceRuleSchema = priceRuleFieldsSchema
+  .extend({
+    itemIds: itemIdsSchema.default([]),
+    categoryIds: categoryIdsSchema.default([]),
+  })
+  .refine((d) => d.valueType !== "PERCENT" || d.value <= 100, {
+    message: "Percentage cannot exceed 100",
+    path: ["value"],
+  })
+  .refine((d) => d.itemIds.length > 0 || d.categoryIds.length > 0, {
+    message: "Pick at least one item or category",
+    path: ["itemIds"],
+  })
+  .refine((d) => !d.startsAt || !d.endsAt || d.startsAt < d.endsAt, {
+    message: "Rule must end after it starts",
+    path: ["endsAt"],
+  });
+
+export type ActivePriceRule = {
+  id: string;
+  name: string;
+  valueType: PriceRuleValueType;
+  value: number;
+  itemIds: string[];
+  categoryIds: string[];
+};
+
+export type RuledPrice = {
+  price: number;
+  regularPrice: number;
+  rule: { id: string; name: string } | null;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function parseIdList(raw: unknown): string[] {
+  try {
+    const parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Rules that apply at this moment: active, inside their date range and, when
+// they have one, inside their day-part window on the tenant's clock.
+export async function loadActivePriceRules(
+  client: PriceRuleClient,
+  tenantId: string,
+  clock: MenuClock,
+  now = new Date(),
+): Promise<ActivePriceRule[]> {
+  const rules = await client.priceRule.findMany({
+    where: {
+      tenantId,
+      isActive: true,
+      AND: [
+        { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
+        { OR: [{ endsAt: null }, { endsAt: { gt: now } }] },
+      ],
+    },
+  });
+  return rules
+    .filter((rule) => isScheduleOpen(parseMenuSchedule(rule.schedule), clock))
+    .map((rule) => ({
+      id: rule.id,
+      name: rule.name,
+      valueType: rule.valueType as PriceRuleValueType,
+      value: Number(rule.value),
+      itemIds: parseIdList(rule.itemIds),
+      categoryIds: parseIdList(rule.categoryIds),
+    }));
+}
+
+function ruleApplies(
+  rule: ActivePriceRule,
+  item: { id: string; categoryId: string },
+) {
+  return (
+    rule.itemIds.includes(item.id) || rule.categoryIds.includes(item.categoryId)
+  );
+}
+
+// When several rules cover an item the guest gets the lowest price. A rule
+// never raises a price above the regular one.
+export function priceWithRules(
+  item: { id: string; categoryId: string; price: unknown },
+  rules: ActivePriceRule[],
+): RuledPrice {
+  const regularPrice = round2(Number(item.price));
+  let best: RuledPrice = { price: regularPrice, regularPrice, rule: null };
+  for (const rule of rules) {
+    if (!ruleApplies(rule, item)) continue;
+    const price = round2(
+      rule.valueType === "PERCENT"
+        ? regularPrice * (1 - Math.min(rule.value, 100) / 100)
+        : Math.min(rule.value, regularPrice),
+    );
+    if (price < best.price) {
+      best = { price, regularPrice, rule: { id: rule.id, name: rule.name } };
+    }
+  }
+  return best;
+}
+
+// The customer-facing menu shows what an item costs right now; regularPrice
+// and priceRule let it strike through the usual price.
+export function applyPriceRulesToMenu<
+  C extends { items: { id: string; categoryId: string; price: unknown }[] },
+>(categories: C[], rules: ActivePriceRule[]) {
+  if (rules.length === 0) return categories;
+  return categories.map((category) => ({
+    ...category,
+    items: category.items.map((item) => {
+      const ruled = priceWithRules(item, rules);
+      return ruled.rule
+        ? {
+            ...item,
+            price: ruled.price,
+            regularPrice: ruled.regularPrice,
+            priceRule: ruled.rule.name,
+          }
+        : item;
+    }),
+  }));
+}
+
+// Every item and category a rule targets must belong to the tenant.
+export async function priceRuleTargetsExist(
+  client: Pick<typeof prisma, "menuItem" | "menuCategory">,
+  tenantId: string,
+  targets: { itemIds: string[]; categoryIds: string[] },
+) {
+  const itemIds = Array.from(new Set(targets.itemIds));
+  const categoryIds = Array.from(new Set(targets.categoryIds));
+  const [items, categories] = await Promise.all([
+    client.menuItem.count({ where: { tenantId, id: { in: itemIds } } }),
+    client.menuCategory.count({ where: { tenantId, id: { in: categoryIds } } }),
+  ]);
+  return items === itemIds.length && categories === categoryIds.length;
+}
+
+// PriceRule keeps its lists and schedule as JSON strings; the API speaks
+// arrays.
+export function presentPriceRule<
+  R extends { itemIds: string; categoryIds: string; schedule: string | null },
+>(rule: R) {
+  return {
+    ...rule,
+    itemIds: parseIdList(rule.itemIds),
+    categoryIds: parseIdList(rule.categoryIds),
+    schedule: parseMenuSchedule(rule.schedule),
+  };
+}